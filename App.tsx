@@ -1,7 +1,8 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { generateTrendImage, enhanceImage, validateApiKey, generateImageFromText } from './services/geminiService';
-import { Style } from './types';
-import { STYLES, AFFILIATE_LINK } from './constants';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { generateTrendImage, enhanceImage, editImageRegion, refineImage, validateApiKey, generateImageFromText, generatePromptVariations, isCancelledError, isQuotaExhaustedError, getQuotaCooldownSeconds, setKeyUsageListener, isProxyEnabled, setProxyEnabled } from './services/geminiService';
+import { IMAGE_MODEL, TEXT_TO_IMAGE_MODEL } from './services/geminiModels';
+import { Style, ImagenAspectRatio, GenerationMode, HistoryEntry, PromptVariableValues, PromptSweep, GenerationMetadata } from './types';
+import { STYLES, AFFILIATE_LINK, ASPECT_RATIOS, MAX_TEXT_TO_IMAGE_COUNT } from './constants';
 import ImageUploader from './components/ImageUploader';
 import Footer from './Footer';
 import PlusIcon from './components/icons/PlusIcon';
@@ -12,6 +13,37 @@ import XIcon from './components/icons/XIcon';
 import ArrowLeftIcon from './components/icons/ArrowLeftIcon';
 import GearIcon from './components/icons/GearIcon';
 import ZapIcon from './components/icons/ZapIcon';
+import QueueSettings from './components/QueueSettings';
+import HistoryGallery from './components/HistoryGallery';
+import HistoryIcon from './components/icons/HistoryIcon';
+import ChartIcon from './components/icons/ChartIcon';
+import StyleManagerModal from './components/StyleManagerModal';
+import UsageDashboard from './components/UsageDashboard';
+import PromptVariablesForm from './components/PromptVariablesForm';
+import RestoreSettingsModal from './components/RestoreSettingsModal';
+import ExportDialog from './components/ExportDialog';
+import SlidersIcon from './components/icons/SlidersIcon';
+import PreprocessSummary from './components/PreprocessSummary';
+import MaskEditor from './components/MaskEditor';
+import MagicWandIcon from './components/icons/MagicWandIcon';
+import RefinementPanel from './components/RefinementPanel';
+import VersionHistory from './components/VersionHistory';
+import VersionCompareModal from './components/VersionCompareModal';
+import PreviewCompare, { CompareMode, COMPARE_MODES } from './components/PreviewCompare';
+import { loadCustomStyles, saveCustomStyles, mergeStyles } from './services/styleLibrary';
+import { KeyProfile, KeyStatus, KEY_STATUS_LABELS, EXHAUSTED_COOLDOWN_MS, createProfile, maskApiKey, serializeProfiles, parseProfiles, saveProfileStats, clearProfileStats, loadActiveProfileId, saveActiveProfileId, findNextHealthyProfile } from './services/keyProfiles';
+import { EncryptedSecret, VaultKey, MIN_PASSPHRASE_LENGTH, LOCK_MINUTE_OPTIONS, createVaultKey, sealSecret, openSecret, loadEncryptedKey, saveEncryptedKey, clearStoredKey, loadLegacyKey, loadLockMinutes, saveLockMinutes } from './services/keyVault';
+import { getDefaultValues, renderStylePrompt, expandSweep, matchTemplateValues } from './services/promptTemplate';
+import { createGenerationMetadata, embedGenerationMetadata } from './services/imageMetadata';
+import { exportImage, loadExportOptions, saveExportOptions, ExportOptions } from './services/imageExport';
+import { preprocessImages, loadPreprocessOptions, savePreprocessOptions, PreprocessOptions } from './services/imagePreprocess';
+import { compositeMaskedEdit, createMaskPng, loadImage } from './services/maskEdit';
+import { EnhanceQuality, EnhanceMethod, EnhancementReport, ImageSize, UPSCALE_TARGETS, loadEnhanceMethod, saveEnhanceMethod, getImageSize, getTargetSize, isUpscaleTarget, isSameSize, resizeImage, formatResolution } from './services/imageUpscale';
+import { ImageVersion, addVersion, createVersionTree, findVersion, findVersionByUrl, getVersionPath } from './services/imageVersions';
+import { getStyleInputs, getSlotLabel, getMissingSlots, fitImagesToSlots, fitImagesToGroups, getGroupSize, groupImages, placeFiles, getFirstEmptySlot } from './services/styleInputs';
+import { addHistoryEntry, blobToDataUrl, NewHistoryEntry } from './services/historyService';
+import { downloadResultsArchive, downloadBlob, getImageExtension, ArchiveItem } from './services/resultsArchive';
+import { createJobQueue, JobQueue, DEFAULT_CONCURRENCY, DEFAULT_REQUESTS_PER_MINUTE } from './services/jobQueue';
 
 const dataUrlToFile = async (dataUrl: string, fileName: string): Promise<File> => {
   const res = await fetch(dataUrl);
@@ -41,12 +73,14 @@ const translateApiError = (error: unknown): string => {
     }
 
     // 4. General Quota exhausted
-    const isQuotaError = message.includes("RESOURCE_EXHAUSTED") ||
+    // The local daily cap quotes request counts, which could contain "429".
+    const isQuotaError = !message.includes("DAILY_CAP_REACHED") && (
+                         message.includes("RESOURCE_EXHAUSTED") ||
                          message.includes("429") ||
-                         messageLower.includes("exceeded your current quota");
+                         messageLower.includes("exceeded your current quota"));
 
     if (isQuotaError) {
-        return "API Key của bạn đã hết hạn ngạch sử dụng.\n\nCách khắc phục:\n1. Vui lòng kiểm tra hạn ngạch trên trang quản lý Key của Google AI Studio.\n2. Thử lại sau một thời gian hoặc sử dụng một Key khác.";
+        return "API Key của bạn đã hết hạn ngạch sử dụng.\n\nCách khắc phục:\n1. Vui lòng kiểm tra hạn ngạch trên trang quản lý Key của Google AI Studio.\n2. Thử lại sau một thời gian hoặc thêm một Key khác trong phần Quản lý API Key để tự động chuyển Key khi chạy hàng loạt.";
     }
 
     // 5. Safety block
@@ -76,6 +110,31 @@ const translateApiError = (error: unknown): string => {
          return "Bạn chưa cung cấp API Key. Vui lòng vào phần 'Cài đặt' (hình bánh răng) để cung cấp API Key của riêng bạn và tiếp tục.";
     }
     
+    // 7a. Encrypted key not unlocked yet (or locked after inactivity)
+    if (message.includes("KEY_LOCKED")) {
+         return "API Key đã bị khóa để bảo vệ. Vui lòng nhập mật khẩu trong phần 'Cài đặt' (hình bánh răng) để mở khóa và tiếp tục.";
+    }
+
+    // 7b. Proxy mode without a server key
+    if (message.includes("PROXY_NOT_CONFIGURED")) {
+         return "Máy chủ proxy chưa được cấu hình API Key.\n\nCách khắc phục:\n- Quản trị viên cần đặt biến GEMINI_API_KEY cho máy chủ.\n- Hoặc tắt chế độ proxy trong phần 'Cài đặt' và dùng API Key cá nhân.";
+    }
+
+    // 7c. Per-IP limit of the proxy
+    if (message.includes("RATE_LIMITED")) {
+         return "Bạn đã gửi quá nhiều yêu cầu qua máy chủ proxy trong một phút.\n\nCách khắc phục:\n- Chờ khoảng một phút rồi thử lại.\n- Giảm số yêu cầu chạy song song trong phần cài đặt hàng đợi.";
+    }
+
+    // 7d. Local daily cap from the usage dashboard
+    if (message.includes("DAILY_CAP_REACHED")) {
+         return "Đã đạt giới hạn sử dụng hằng ngày bạn đặt ra, yêu cầu chưa được gửi đi.\n\nCách khắc phục:\n- Chờ sang ngày mới.\n- Hoặc tăng hay bỏ giới hạn trong phần 'Thống kê sử dụng' (biểu tượng biểu đồ).";
+    }
+
+    // 7e. Upload that can't be decoded (a damaged file, or HEIC when the converter fails to load)
+    if (message.includes("UNSUPPORTED_IMAGE")) {
+        return "Không đọc được một trong các ảnh đã tải lên (tệp bị hỏng, hoặc không tải được bộ chuyển đổi ảnh HEIC).\n\nCách khắc phục:\n- Chuyển ảnh sang JPEG hoặc PNG rồi tải lên lại.\n- Trên iPhone, chọn Cài đặt > Camera > Định dạng > Tương thích nhất.";
+    }
+
     // 8. Network error (from client-side fetch)
     if (message.includes("Failed to fetch") || messageLower.includes('networkerror')) {
         return "Không thể kết nối đến máy chủ của Google. Vui lòng kiểm tra kết nối mạng của bạn và thử lại.\n\nNếu bạn đang dùng mạng công ty hoặc VPN, có thể tường lửa đang chặn yêu cầu. Hãy thử dùng một mạng khác.";
@@ -101,50 +160,155 @@ const translateApiError = (error: unknown): string => {
 };
 
 
-type Mode = 'single' | 'batch' | 'stressTest';
+type Mode = GenerationMode;
+/** Tabs that show a result panel of their own. */
+type ResultSlot = 'single' | 'textToImage';
 type BatchResult = { 
   taskId: number;
+  /** Uploads of the group this task was generated from, offered as "before" in the preview. */
+  inputs?: File[];
+  /** Swept variable value this task was generated with. */
+  caption?: string;
+  prompt?: string;
   imageUrl?: string;
   error?: string;
-  status: 'idle' | 'loading' | 'success' | 'error';
+  status: 'idle' | 'queued' | 'loading' | 'success' | 'error' | 'cancelled';
 };
 type StressTestResult = {
     id: number;
-    status: 'idle' | 'loading' | 'success' | 'error';
+    inputs?: File[];
+    status: 'idle' | 'queued' | 'loading' | 'success' | 'error' | 'cancelled';
     imageUrl?: string;
     error?: string;
     prompt?: string;
 }
+type StressTestStage = 'idle' | 'generating_prompts' | 'reviewing_prompts' | 'generating_images';
+type CancellableOperation = 'single' | 'enhance' | 'textToImage' | 'promptVariations';
+type HistoryMeta = Omit<NewHistoryEntry, 'imageDataUrl'> & { createdAt?: number };
+type RestoreTarget = 'single' | 'batch' | 'stressTest';
+type ExportTarget = { kind: 'image'; url: string } | { kind: 'batch' };
+/** A batch or stress-test image opened in the preview, with the uploads it was made from. */
+type PreviewTarget = { imageUrl: string; inputs: File[] };
+const NO_INPUTS: File[] = [];
+type ArchiveProgress = { mode: Mode; done: number; total: number };
+const MAX_HISTORY_META_IN_MEMORY = 100;
+
+const KEY_STATUS_CLASSES: Record<KeyStatus, string> = {
+  unknown: 'text-dark-olive/60 dark:text-cream/60',
+  valid: 'text-green-700 dark:text-green-400 font-semibold',
+  invalid: 'text-red-500 font-semibold',
+  exhausted: 'text-yellow-600 dark:text-yellow-400 font-semibold',
+};
+
+/** How a saved key is kept: encrypted in localStorage, or in memory for this tab only. */
+type KeyStorage = { kind: 'encrypted'; passphrase: string } | { kind: 'session' };
 
 const ApiKeyModal: React.FC<{
   isOpen: boolean;
   onClose: () => void;
-  onSave: (apiKey: string) => Promise<void>;
+  profiles: KeyProfile[];
+  activeProfileId: string | null;
+  onSelectProfile: (id: string) => void;
+  /** Validates and stores a new key; `storage` is null when the vault is already unlocked. Resolves to false on failure. */
+  onAddProfile: (name: string, apiKey: string, storage: KeyStorage | null) => Promise<boolean>;
+  onRemoveProfile: (id: string) => void;
+  onCheckProfile: (id: string) => Promise<void>;
+  /** Encrypts the keys in the list, which so far exist only in this session (or in plain text). */
+  onProtectProfiles: (passphrase: string) => Promise<void>;
+  /** Removes every stored key. */
   onDelete: () => void;
   isSaving: boolean;
   error: string | null;
-  initialApiKey: string;
   hasExistingKey: boolean;
-}> = ({ isOpen, onClose, onSave, onDelete, isSaving, error, initialApiKey, hasExistingKey }) => {
-  const [apiKeyInput, setApiKeyInput] = useState(initialApiKey);
+  /** Keys are encrypted on this machine and the vault is unlocked, so no passphrase is needed to add one. */
+  isVaultOpen: boolean;
+  /** An encrypted key is stored but hasn't been unlocked in this session. */
+  isLocked: boolean;
+  onUnlock: (passphrase: string) => Promise<void>;
+  /** Forgets the decrypted key; null when there is nothing to lock. */
+  onLock: (() => void) | null;
+  lockMinutes: number;
+  onLockMinutesChange: (minutes: number) => void;
+  /** Shown above the form, e.g. after migrating a plain-text key. */
+  notice: string | null;
+  useProxy: boolean;
+  onUseProxyChange: (useProxy: boolean) => void;
+}> = ({ isOpen, onClose, profiles, activeProfileId, onSelectProfile, onAddProfile, onRemoveProfile, onCheckProfile, onProtectProfiles, onDelete, isSaving, error, hasExistingKey, isVaultOpen, isLocked, onUnlock, onLock, lockMinutes, onLockMinutesChange, notice, useProxy, onUseProxyChange }) => {
+  const [nameInput, setNameInput] = useState('');
+  const [apiKeyInput, setApiKeyInput] = useState('');
+  const [checkingProfileId, setCheckingProfileId] = useState<string | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isChecking, setIsChecking] = useState(false);
   const [checkStatus, setCheckStatus] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
   const statusTimeout = useRef<number | null>(null);
+  const [storageKind, setStorageKind] = useState<KeyStorage['kind']>('encrypted');
+  const [passphrase, setPassphrase] = useState('');
+  const [passphraseConfirm, setPassphraseConfirm] = useState('');
+  const [unlockPassphrase, setUnlockPassphrase] = useState('');
+  const [isReplacingLockedKey, setIsReplacingLockedKey] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
 
   useEffect(() => {
     if (isOpen) {
-      setApiKeyInput(initialApiKey);
+      setNameInput('');
+      setApiKeyInput('');
       setShowDeleteConfirm(false);
       setCheckStatus(null);
       setIsChecking(false);
+      setPassphrase('');
+      setPassphraseConfirm('');
+      setUnlockPassphrase('');
+      setIsReplacingLockedKey(false);
+      setFormError(null);
     }
-  }, [isOpen, initialApiKey]);
+  }, [isOpen, isLocked]);
 
   if (!isOpen) return null;
 
-  const handleSaveClick = () => {
-    onSave(apiKeyInput);
+  const getStorage = (): KeyStorage | null | undefined => {
+    if (isVaultOpen) return null;
+    if (storageKind === 'session') return { kind: 'session' };
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setFormError(`Mật khẩu cần có ít nhất ${MIN_PASSPHRASE_LENGTH} ký tự.`);
+      return undefined;
+    }
+    if (passphrase !== passphraseConfirm) {
+      setFormError('Mật khẩu nhập lại không khớp.');
+      return undefined;
+    }
+    return { kind: 'encrypted', passphrase };
+  };
+
+  const handleAddClick = async () => {
+    setFormError(null);
+    const storage = getStorage();
+    if (storage === undefined) return;
+    if (await onAddProfile(nameInput, apiKeyInput, storage)) {
+      setNameInput('');
+      setApiKeyInput('');
+      setPassphrase('');
+      setPassphraseConfirm('');
+    }
+  };
+
+  const handleProtectClick = async () => {
+    setFormError(null);
+    const storage = getStorage();
+    if (storage?.kind !== 'encrypted') return;
+    await onProtectProfiles(storage.passphrase);
+    setPassphrase('');
+    setPassphraseConfirm('');
+  };
+
+  const handleCheckProfile = async (id: string) => {
+    setCheckingProfileId(id);
+    await onCheckProfile(id);
+    setCheckingProfileId(null);
+  };
+
+  const handleUnlockClick = () => {
+    if (!unlockPassphrase) return;
+    onUnlock(unlockPassphrase);
   };
   
   const handleDeleteConfirmed = () => {
@@ -177,13 +341,29 @@ const ApiKeyModal: React.FC<{
     }, 5000);
   }
 
+  const inputClasses = "w-full p-3 bg-dark-olive/5 dark:bg-olive/20 border border-olive/30 rounded-lg focus:ring-2 focus:ring-olive focus:border-olive transition text-dark-olive dark:text-cream placeholder:text-dark-olive/50 dark:placeholder:text-cream/50";
+  const spinner = <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-cream mx-auto"></div>;
+
+  const lockMinutesSelect = (
+    <label className="mt-3 flex items-center justify-between gap-2 text-sm text-dark-olive/80 dark:text-cream/80">
+        Tự khóa Key đã mã hóa khi không hoạt động sau
+        <select
+            value={lockMinutes}
+            onChange={(e) => onLockMinutesChange(Number(e.target.value))}
+            className="p-1.5 bg-dark-olive/5 dark:bg-olive/20 border border-olive/30 rounded-lg text-dark-olive dark:text-cream"
+        >
+            {LOCK_MINUTE_OPTIONS.map(minutes => <option key={minutes} value={minutes}>{minutes} phút</option>)}
+        </select>
+    </label>
+  );
+
   return (
     <div className="fixed inset-0 z-[101] bg-black bg-opacity-70 flex items-center justify-center animate-fade-in p-4">
-      <div className="bg-cream dark:bg-dark-olive p-6 rounded-lg shadow-2xl max-w-md w-full relative">
+      <div className="bg-cream dark:bg-dark-olive p-6 rounded-lg shadow-2xl max-w-md w-full relative max-h-full overflow-y-auto">
         {showDeleteConfirm ? (
             <div className="text-center">
                 <h3 className="text-lg font-bold mb-4 text-dark-olive dark:text-cream">Xác nhận xóa Key</h3>
-                <p className="mb-6 text-dark-olive/80 dark:text-cream/80">Bạn có chắc chắn muốn xóa API Key đã lưu không?</p>
+                <p className="mb-6 text-dark-olive/80 dark:text-cream/80">Bạn có chắc chắn muốn xóa {profiles.length > 1 ? 'tất cả API Key' : 'API Key'} đã lưu không?</p>
                 <div className="flex justify-center items-center space-x-4">
                     <button onClick={() => setShowDeleteConfirm(false)} className="px-6 py-2 rounded-full text-dark-olive/80 dark:text-cream/80 bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors font-semibold">
                         Hủy
@@ -196,29 +376,141 @@ const ApiKeyModal: React.FC<{
                     </button>
                 </div>
             </div>
+        ) : isLocked && !isReplacingLockedKey ? (
+          <>
+            <h2 className="text-xl font-bold mb-4 text-dark-olive dark:text-cream text-center">Mở khóa API Key</h2>
+            <button onClick={onClose} className="absolute top-3 right-3 text-dark-olive/50 hover:text-dark-olive dark:text-cream/50 dark:hover:text-cream transition-colors">
+                <XIcon className="w-6 h-6"/>
+            </button>
+
+            <p className="mb-4 text-sm text-center text-dark-olive/80 dark:text-cream/80">
+                API Key đã được mã hóa trên máy này. Nhập mật khẩu để sử dụng.
+            </p>
+
+            <input
+                type="password"
+                value={unlockPassphrase}
+                onChange={(e) => setUnlockPassphrase(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleUnlockClick(); }}
+                placeholder="Mật khẩu"
+                autoFocus
+                className={`${inputClasses} ${error ? 'border-red-500 focus:ring-red-500' : ''}`}
+            />
+
+            {error && <p className="text-red-500 text-sm mt-2 text-center">{error}</p>}
+
+            <div className="mt-4 flex justify-end items-center space-x-3">
+                <button
+                    onClick={() => setShowDeleteConfirm(true)}
+                    className="mr-auto text-sm text-red-500 hover:underline"
+                >
+                    Quên mật khẩu?
+                </button>
+                <button onClick={() => setIsReplacingLockedKey(true)} className="px-4 py-2 rounded-full text-dark-olive/80 dark:text-cream/80 bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors font-semibold text-sm">
+                    Dùng Key khác
+                </button>
+                <button
+                    onClick={handleUnlockClick}
+                    className="px-6 py-2 rounded-full bg-olive hover:bg-olive/90 text-cream font-bold transition-colors w-32 text-center disabled:opacity-50"
+                    disabled={isSaving || !unlockPassphrase}
+                >
+                    {isSaving ? spinner : 'Mở khóa'}
+                </button>
+            </div>
+          </>
         ) : (
           <>
             <h2 className="text-xl font-bold mb-4 text-dark-olive dark:text-cream text-center">Cài đặt API Key</h2>
             <button onClick={onClose} className="absolute top-3 right-3 text-dark-olive/50 hover:text-dark-olive dark:text-cream/50 dark:hover:text-cream transition-colors">
                 <XIcon className="w-6 h-6"/>
             </button>
-            
+
+            {notice && (
+                <p className="mb-4 p-3 rounded-lg bg-yellow-500/15 text-sm text-yellow-800 dark:text-yellow-300">{notice}</p>
+            )}
+
+            <label className="flex items-start gap-2 mb-4 p-3 rounded-lg bg-dark-olive/5 dark:bg-olive/20 text-sm text-dark-olive dark:text-cream cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={useProxy}
+                    onChange={(e) => onUseProxyChange(e.target.checked)}
+                    className="mt-0.5 accent-olive"
+                />
+                <span>
+                    <span className="font-semibold">Dùng máy chủ proxy</span>
+                    <span className="block text-xs text-dark-olive/70 dark:text-cream/70">Yêu cầu được gửi qua máy chủ của trang với Key của máy chủ; không cần API Key cá nhân.</span>
+                </span>
+            </label>
+
+            {profiles.length > 0 ? (
+                <div className="mb-4">
+                    <h3 className="text-sm font-semibold text-dark-olive/90 dark:text-cream/90 mb-2">Các API Key {useProxy && <span className="font-normal text-xs">(không dùng khi bật proxy)</span>}</h3>
+                    <ul className="space-y-2">
+                        {profiles.map(profile => (
+                            <li key={profile.id} className={`flex items-center gap-2 p-2 rounded-lg border ${profile.id === activeProfileId ? 'border-olive bg-olive/10' : 'border-olive/20'}`}>
+                                <input
+                                    type="radio"
+                                    name="activeKeyProfile"
+                                    checked={profile.id === activeProfileId}
+                                    onChange={() => onSelectProfile(profile.id)}
+                                    className="accent-olive"
+                                    aria-label={`Dùng ${profile.name}`}
+                                />
+                                <div className="flex-1 min-w-0 text-sm text-dark-olive dark:text-cream">
+                                    <p className="font-semibold truncate">
+                                        {profile.name} <span className="font-mono text-xs font-normal text-dark-olive/60 dark:text-cream/60">{maskApiKey(profile.apiKey)}</span>
+                                    </p>
+                                    <p className="text-xs text-dark-olive/70 dark:text-cream/70">
+                                        <span className={KEY_STATUS_CLASSES[profile.status]} title={profile.statusMessage}>{KEY_STATUS_LABELS[profile.status]}</span>
+                                        {profile.checkedAt && ` · ${new Date(profile.checkedAt).toLocaleString('vi-VN')}`}
+                                        {` · ${profile.usageCount} lượt gọi`}
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={() => handleCheckProfile(profile.id)}
+                                    disabled={checkingProfileId !== null}
+                                    className="px-2.5 py-1 rounded-full text-xs font-semibold bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors disabled:opacity-50"
+                                >
+                                    {checkingProfileId === profile.id ? 'Đang kiểm tra...' : 'Kiểm tra'}
+                                </button>
+                                <button onClick={() => onRemoveProfile(profile.id)} className="p-1 text-red-500 hover:bg-red-500/10 rounded-full transition-colors" aria-label={`Xóa ${profile.name}`}>
+                                    <XIcon className="w-4 h-4" />
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                    {profiles.length > 1 && (
+                        <p className="mt-2 text-xs text-dark-olive/70 dark:text-cream/70">Khi chạy hàng loạt, Key hết hạn ngạch sẽ tự động được thay bằng Key tiếp theo còn dùng được.</p>
+                    )}
+                    <h3 className="text-sm font-semibold text-dark-olive/90 dark:text-cream/90 mt-4 mb-2">Thêm Key</h3>
+                </div>
+            ) : (
+              <>
             <p className="mb-4 text-sm text-center text-dark-olive/80 dark:text-cream/80">
-                Để sử dụng ứng dụng, bạn cần có API Key miễn phí từ Google.
-            </p>
-            
-            <ol className="list-decimal list-inside text-sm space-y-2 text-dark-olive/80 dark:text-cream/80 mb-4">
-                <li>
-                    Truy cập <a href="https://makersuite.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-olive dark:text-light-olive hover:underline font-semibold">Google AI Studio</a> và nhấn <strong>'Create API key'</strong>.
-                </li>
-                <li>
-                    Sao chép Key vừa tạo và dán vào ô bên dưới.
-                </li>
-                 <li>
-                    Quan trọng: Để tạo ảnh, dự án Google Cloud của bạn cần <a href="https://cloud.google.com/billing/docs/how-to/modify-project" target="_blank" rel="noopener noreferrer" className="text-olive dark:text-light-olive hover:underline font-semibold">bật thanh toán (enable billing)</a>. Google cung cấp bậc miễn phí lớn nên bạn sẽ không bị tính phí ngay.
-                </li>
-            </ol>
+                  {useProxy ? 'Key cá nhân bên dưới sẽ không được dùng khi bật proxy.' : 'Để sử dụng ứng dụng, bạn cần có API Key miễn phí từ Google.'}
+              </p>
+              
+              <ol className="list-decimal list-inside text-sm space-y-2 text-dark-olive/80 dark:text-cream/80 mb-4">
+                  <li>
+                      Truy cập <a href="https://makersuite.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-olive dark:text-light-olive hover:underline font-semibold">Google AI Studio</a> và nhấn <strong>'Create API key'</strong>.
+                  </li>
+                  <li>
+                      Sao chép Key vừa tạo và dán vào ô bên dưới.
+                  </li>
+                   <li>
+                      Quan trọng: Để tạo ảnh, dự án Google Cloud của bạn cần <a href="https://cloud.google.com/billing/docs/how-to/modify-project" target="_blank" rel="noopener noreferrer" className="text-olive dark:text-light-olive hover:underline font-semibold">bật thanh toán (enable billing)</a>. Google cung cấp bậc miễn phí lớn nên bạn sẽ không bị tính phí ngay.
+                  </li>
+              </ol>
+              </>
+            )}
 
+            <input
+                type="text"
+                value={nameInput}
+                onChange={(e) => setNameInput(e.target.value)}
+                placeholder={`Tên gợi nhớ (ví dụ: Key ${profiles.length + 1})`}
+                className={`${inputClasses} mb-2`}
+            />
             <input
                 type="password"
                 value={apiKeyInput}
@@ -247,28 +539,66 @@ const ApiKeyModal: React.FC<{
                 )}
             </div>
 
-            {error && <p className="text-red-500 text-sm mt-2 text-center">{error}</p>}
+            {isVaultOpen ? (
+              <p className="mt-4 text-xs text-dark-olive/70 dark:text-cream/70">Key mới sẽ được mã hóa cùng các Key đã lưu trên máy này.</p>
+            ) : (
+            <div className="mt-4 space-y-2 text-sm text-dark-olive dark:text-cream">
+                {isLocked && <p className="text-xs text-yellow-700 dark:text-yellow-400">Các Key đã lưu trước đó sẽ bị thay thế.</p>}
+                <label className="flex items-start gap-2 cursor-pointer">
+                    <input type="radio" name="keyStorage" checked={storageKind === 'encrypted'} onChange={() => setStorageKind('encrypted')} className="mt-1 accent-olive" />
+                    <span>
+                        <span className="font-semibold">Mã hóa và lưu trên máy này</span>
+                        <span className="block text-xs text-dark-olive/70 dark:text-cream/70">Cần mật khẩu để mở khóa mỗi lần dùng lại.</span>
+                    </span>
+                </label>
+                {storageKind === 'encrypted' && (
+                    <div className="pl-6 space-y-2">
+                        <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder="Mật khẩu" autoComplete="new-password" className={inputClasses} />
+                        <input type="password" value={passphraseConfirm} onChange={(e) => setPassphraseConfirm(e.target.value)} placeholder="Nhập lại mật khẩu" autoComplete="new-password" className={inputClasses} />
+                        {profiles.length > 0 && !isLocked && (
+                            <button onClick={handleProtectClick} disabled={isSaving} className="text-xs px-3 py-1 rounded-full font-semibold bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors disabled:opacity-50">
+                                Mã hóa {profiles.length > 1 ? `${profiles.length} Key hiện có` : 'Key hiện có'} bằng mật khẩu này
+                            </button>
+                        )}
+                    </div>
+                )}
+                <label className="flex items-start gap-2 cursor-pointer">
+                    <input type="radio" name="keyStorage" checked={storageKind === 'session'} onChange={() => setStorageKind('session')} className="mt-1 accent-olive" />
+                    <span>
+                        <span className="font-semibold">Chỉ trong phiên này</span>
+                        <span className="block text-xs text-dark-olive/70 dark:text-cream/70">Không lưu lại; Key mất khi tải lại trang. Nên dùng trên máy dùng chung.</span>
+                    </span>
+                </label>
+            </div>
+            )}
+
+            {lockMinutesSelect}
+
+            {(formError || error) && <p className="text-red-500 text-sm mt-2 text-center">{formError || error}</p>}
             
-            <div className="mt-4 flex justify-end items-center space-x-3">
+            <div className="mt-4 flex flex-wrap justify-end items-center gap-3">
                 {hasExistingKey && (
                   <button 
                       onClick={() => setShowDeleteConfirm(true)} 
                       className="mr-auto px-5 py-2 rounded-full text-red-500 hover:bg-red-500/10 transition-colors font-semibold"
                   >
-                      Xóa Key
+                      {profiles.length > 1 ? 'Xóa tất cả' : 'Xóa Key'}
+                  </button>
+                )}
+                {onLock && (
+                  <button onClick={onLock} className="px-5 py-2 rounded-full text-dark-olive/80 dark:text-cream/80 bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors font-semibold">
+                      Khóa ngay
                   </button>
                 )}
                 <button onClick={onClose} className="px-5 py-2 rounded-full text-dark-olive/80 dark:text-cream/80 bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors font-semibold">
-                    Hủy
+                    {profiles.length > 0 ? 'Đóng' : 'Hủy'}
                 </button>
                 <button 
-                    onClick={handleSaveClick} 
+                    onClick={handleAddClick} 
                     className="px-6 py-2 rounded-full bg-olive hover:bg-olive/90 text-cream font-bold transition-colors w-32 text-center"
                     disabled={isSaving}
                 >
-                    {isSaving ? (
-                        <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-cream mx-auto"></div>
-                    ) : 'Lưu Key'}
+                    {isSaving ? spinner : profiles.length > 0 ? 'Thêm Key' : 'Lưu Key'}
                 </button>
             </div>
           </>
@@ -278,27 +608,73 @@ const ApiKeyModal: React.FC<{
   );
 };
 
-
 const App: React.FC = () => {
   const [mode, setMode] = useState<Mode>('single');
+  // Style Library
+  const [customStyles, setCustomStyles] = useState<Style[]>(() => loadCustomStyles());
+  const allStyles = useMemo(() => mergeStyles(customStyles), [customStyles]);
+  const [isStyleManagerOpen, setIsStyleManagerOpen] = useState(false);
+  const [styleManagerDraft, setStyleManagerDraft] = useState<string | null>(null);
   // Single Mode State
-  const [images, setImages] = useState<(File | null)[]>([null, null]);
+  const [images, setImages] = useState<(File | null)[]>(() => fitImagesToSlots([], getStyleInputs(STYLES[0])));
   const [selectedStyleId, setSelectedStyleId] = useState<string | null>(STYLES[0]?.id || null);
   const [customPrompt, setCustomPrompt] = useState('');
   const [isCustomPromptVisible, setCustomPromptVisible] = useState(false);
-  const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+  const selectedStyle = isCustomPromptVisible ? undefined : allStyles.find(s => s.id === selectedStyleId);
+  const singleInputs = useMemo(() => getStyleInputs(selectedStyle), [selectedStyle]);
+  const [singleVariableValues, setSingleVariableValues] = useState<PromptVariableValues>({});
+  // Single mode and text-to-image each keep their own result; `generatedImage` is the one of the visible tab.
+  const [resultImages, setResultImages] = useState<Record<ResultSlot, string | null>>({ single: null, textToImage: null });
+  const resultSlot: ResultSlot = mode === 'textToImage' ? 'textToImage' : 'single';
+  const generatedImage = resultImages[resultSlot];
+  const setGeneratedImage = (imageUrl: string | null, slot: ResultSlot = resultSlot) => {
+    setResultImages(prev => ({ ...prev, [slot]: imageUrl }));
+  };
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [progress, setProgress] = useState(0);
   const progressInterval = useRef<number | null>(null);
 
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  /** Null while previewing the current result of single or text-to-image mode. */
+  const [previewTarget, setPreviewTarget] = useState<PreviewTarget | null>(null);
   const [isEnhancing, setIsEnhancing] = useState(false);
   const enhancementProgressInterval = useRef<number | null>(null);
+  const [enhancementLabel, setEnhancementLabel] = useState('Đang nâng cấp ảnh...');
+  const [maskEditorImage, setMaskEditorImage] = useState<string | null>(null);
+  const [enhanceMethod, setEnhanceMethod] = useState<EnhanceMethod>(() => loadEnhanceMethod());
+  const [generatedImageSize, setGeneratedImageSize] = useState<ImageSize | null>(null);
+  const enhancementReports = useRef(new Map<string, EnhancementReport>());
+
+  // Single-mode refinement: every edit of the result becomes a version that can be revisited or branched from
+  const [versions, setVersions] = useState<ImageVersion[]>([]);
+  const [activeVersionId, setActiveVersionId] = useState<number | null>(null);
+  const [refinementReferences, setRefinementReferences] = useState<File[]>([]);
+  const [redoStack, setRedoStack] = useState<number[]>([]);
+  const [comparePair, setComparePair] = useState<[ImageVersion, ImageVersion] | null>(null);
+  /** Set by "Dùng ảnh này tạo tiếp" so the next generation becomes a child of that version. */
+  const [continueFromVersionId, setContinueFromVersionId] = useState<number | null>(null);
   const [enhancementProgress, setEnhancementProgress] = useState(0);
 
-  // API Key Management
-  const [userApiKey, setUserApiKey] = useState<string | null>(null);
+  // API Key Management: several named keys, the active one is used for requests
+  const [keyProfiles, setKeyProfiles] = useState<KeyProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  /** Mirrors of the state above, read by queued jobs that rotate keys mid-run. */
+  const keyProfilesRef = useRef<KeyProfile[]>([]);
+  const activeProfileIdRef = useRef<string | null>(null);
+  const activeProfile = keyProfiles.find(profile => profile.id === activeProfileId) ?? keyProfiles[0] ?? null;
+  const userApiKey = activeProfile?.apiKey ?? null;
+  /** Derived vault key while encrypted storage is unlocked; null for session-only keys. */
+  const vaultKey = useRef<VaultKey | null>(null);
+  const [keyRotationMessage, setKeyRotationMessage] = useState<string | null>(null);
+  const [useProxy, setUseProxy] = useState(() => isProxyEnabled());
+  /** Either a personal key or the server proxy is available for requests. */
+  const hasApiAccess = useProxy || !!userApiKey;
+  const [encryptedKey, setEncryptedKey] = useState<EncryptedSecret | null>(() => loadEncryptedKey());
+  const isKeyLocked = !!encryptedKey && keyProfiles.length === 0;
+  const [apiKeyLockMinutes, setApiKeyLockMinutes] = useState(() => loadLockMinutes());
+  const [apiKeyNotice, setApiKeyNotice] = useState<string | null>(null);
+  const lastActivityAt = useRef(Date.now());
   const [isApiKeyModalOpen, setIsApiKeyModalOpen] = useState(false);
   const [isVerifyingApiKey, setIsVerifyingApiKey] = useState(false);
   const [apiKeyError, setApiKeyError] = useState<string | null>(null);
@@ -308,21 +684,67 @@ const App: React.FC = () => {
   const [requestCount, setRequestCount] = useState(0);
   const [rateLimitCooldown, setRateLimitCooldown] = useState(0);
 
-  const [stressTestImages, setStressTestImages] = useState<(File | null)[]>([null]);
+  // Job Queue (shared by batch and stress test modes)
+  const [queueConcurrency, setQueueConcurrency] = useState(() => Number(localStorage.getItem('queueConcurrency')) || DEFAULT_CONCURRENCY);
+  const [requestsPerMinute, setRequestsPerMinute] = useState(() => Number(localStorage.getItem('requestsPerMinute')) || DEFAULT_REQUESTS_PER_MINUTE);
+  const activeQueue = useRef<JobQueue<string> | null>(null);
+  const abortControllers = useRef<Partial<Record<CancellableOperation, AbortController>>>({});
+
+  // Generation History
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [archiveProgress, setArchiveProgress] = useState<ArchiveProgress | null>(null);
+
+  // Settings restored from metadata embedded in an uploaded image
+  const [restoreRequest, setRestoreRequest] = useState<{ target: RestoreTarget; metadata: GenerationMetadata } | null>(null);
+  const pendingVariableValues = useRef<Partial<Record<RestoreTarget, PromptVariableValues>>>({});
+
+  // Download format options
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(() => loadExportOptions());
+  const [exportTarget, setExportTarget] = useState<ExportTarget | null>(null);
+
+  // Upload preprocessing
+  const [preprocessOptions, setPreprocessOptions] = useState<PreprocessOptions>(() => loadPreprocessOptions());
+  const historyMeta = useRef(new Map<string, HistoryMeta>());
+  const [isQueuePaused, setIsQueuePaused] = useState(false);
+
+  const [stressTestImages, setStressTestImages] = useState<(File | null)[]>(() => fitImagesToSlots([], getStyleInputs(STYLES[0])));
   const [stressTestStyleId, setStressTestStyleId] = useState<string | null>(STYLES[0]?.id || null);
   const [isStressTestCustomPromptVisible, setStressTestCustomPromptVisible] = useState(false);
+  const stressTestStyle = isStressTestCustomPromptVisible ? undefined : allStyles.find(s => s.id === stressTestStyleId);
+  const stressTestInputs = useMemo(() => getStyleInputs(stressTestStyle), [stressTestStyle]);
+  const [stressTestVariableValues, setStressTestVariableValues] = useState<PromptVariableValues>({});
+  const [stressTestSweep, setStressTestSweep] = useState<PromptSweep | null>(null);
   const [stressTestQuantity, setStressTestQuantity] = useState<number | ''>(5);
   const [stressTestPrompt, setStressTestPrompt] = useState('');
   const [stressTestResults, setStressTestResults] = useState<StressTestResult[]>([]);
   const [isStressTesting, setIsStressTesting] = useState(false);
-  const [stressTestStage, setStressTestStage] = useState<'idle' | 'generating_images'>('idle');
+  const [stressTestStage, setStressTestStage] = useState<StressTestStage>('idle');
+  const [useAiPromptVariations, setUseAiPromptVariations] = useState(false);
+  const [promptVariations, setPromptVariations] = useState<string[]>([]);
+
+  // Text-to-Image Mode State
+  const [textPrompt, setTextPrompt] = useState('');
+  const [textAspectRatio, setTextAspectRatio] = useState<ImagenAspectRatio>('1:1');
+  const [textImageCount, setTextImageCount] = useState(1);
+  const [textResults, setTextResults] = useState<string[]>([]);
+  const [isTextGenerating, setIsTextGenerating] = useState(false);
+  const [textProgress, setTextProgress] = useState(0);
+  const textProgressInterval = useRef<number | null>(null);
 
   useEffect(() => {
-    const savedApiKey = localStorage.getItem('userApiKey');
-    if (savedApiKey) {
-      setUserApiKey(savedApiKey);
-    } else {
-      // If no key is saved, open the modal for the user after a short delay.
+    const legacyKey = loadLegacyKey();
+    if (legacyKey) {
+      // Keys saved by older versions were plain text: keep this one in memory and ask to protect it.
+      const profile = createProfile('Key chính', legacyKey);
+      keyProfilesRef.current = [profile];
+      setKeyProfiles([profile]);
+      activeProfileIdRef.current = profile.id;
+      setActiveProfileId(profile.id);
+      setApiKeyNotice('Key của bạn đang được lưu dạng chưa mã hóa. Hãy đặt mật khẩu để mã hóa và lưu lại an toàn; bản chưa mã hóa sẽ được xóa ngay sau đó.');
+      setTimeout(() => setIsApiKeyModalOpen(true), 500);
+    } else if (loadEncryptedKey() || !isProxyEnabled()) {
+      // Ask to unlock a saved key, or to provide one, after a short delay.
       setTimeout(() => setIsApiKeyModalOpen(true), 500);
     }
 
@@ -346,6 +768,8 @@ const App: React.FC = () => {
   const isDragging = useRef(false);
   const pinchStartDistance = useRef<number | null>(null);
   const lastPosition = useRef<{ x: number, y: number } | null>(null);
+  const [previewCompareMode, setPreviewCompareMode] = useState<CompareMode>('off');
+  const [compareSourceId, setCompareSourceId] = useState<string | null>(null);
 
   // Batch Mode State
   const [batchStyleId, setBatchStyleId] = useState<string>(STYLES[0]?.id || '');
@@ -354,23 +778,54 @@ const App: React.FC = () => {
   const [isBatchLoading, setIsBatchLoading] = useState(false);
   const [batchProgress, setBatchProgress] = useState(0);
   
+  const batchStyle = allStyles.find(s => s.id === batchStyleId);
+  const batchInputs = useMemo(() => getStyleInputs(batchStyle), [batchStyle]);
+  const batchGroupSize = getGroupSize(batchInputs);
+  const [batchVariableValues, setBatchVariableValues] = useState<PromptVariableValues>({});
+  const [batchSweep, setBatchSweep] = useState<PromptSweep | null>(null);
+
+  // Keep upload slots in line with whatever the selected style declares.
   useEffect(() => {
-    const defaultStyle = STYLES[0]?.id || '';
-    setBatchStyleId(defaultStyle);
-    if (defaultStyle === 'polaroid') {
-      setBatchImages([null, null]);
-    } else {
-      setBatchImages([null]);
-    }
-  }, []);
+    setImages(prev => fitImagesToSlots(prev, singleInputs));
+  }, [singleInputs]);
+
+  useEffect(() => {
+    setStressTestImages(prev => fitImagesToSlots(prev, stressTestInputs));
+  }, [stressTestInputs]);
+
+  useEffect(() => {
+    setBatchImages(prev => fitImagesToGroups(prev, batchInputs));
+  }, [batchInputs]);
+
+  // Template variables start from the style's defaults whenever the style changes,
+  // unless the change came from restoring an uploaded image's settings.
+  const takePendingValues = (target: RestoreTarget): PromptVariableValues | undefined => {
+    const values = pendingVariableValues.current[target];
+    delete pendingVariableValues.current[target];
+    return values;
+  };
+
+  useEffect(() => {
+    setSingleVariableValues(takePendingValues('single') ?? getDefaultValues(selectedStyle?.variables));
+  }, [selectedStyle]);
+
+  useEffect(() => {
+    setStressTestVariableValues(takePendingValues('stressTest') ?? getDefaultValues(stressTestStyle?.variables));
+    setStressTestSweep(null);
+  }, [stressTestStyle]);
+
+  useEffect(() => {
+    setBatchVariableValues(takePendingValues('batch') ?? getDefaultValues(batchStyle?.variables));
+    setBatchSweep(null);
+  }, [batchStyle]);
 
   // Common Functions
   const resetToInitialState = () => {
-    setImages([null, null]);
+    setImages(fitImagesToSlots([], getStyleInputs(STYLES[0])));
     setSelectedStyleId(STYLES[0]?.id || null);
     setCustomPrompt('');
     setCustomPromptVisible(false);
-    setGeneratedImage(null);
+    setGeneratedImage(null, 'single');
     setError(null);
     setIsLoading(false);
     setProgress(0);
@@ -379,11 +834,84 @@ const App: React.FC = () => {
     setEnhancementProgress(0);
   };
 
+  const clearVersions = () => {
+    setVersions([]);
+    setActiveVersionId(null);
+    setRefinementReferences([]);
+    setRedoStack([]);
+    setContinueFromVersionId(null);
+  };
+
+  const handleStartOver = () => {
+    clearVersions();
+    resetToInitialState();
+  };
+
+  /** Adds `resultUrl` to the version tree as a child of the version showing `sourceUrl`, if one is being tracked. */
+  const trackVersion = (sourceUrl: string, resultUrl: string, operation: string, instruction?: string) => {
+    const parent = findVersionByUrl(versions, sourceUrl);
+    if (!parent) return;
+    const next = addVersion(versions, parent.id, resultUrl, operation, instruction);
+    setVersions(next.versions);
+    setActiveVersionId(next.id);
+    setRedoStack([]);
+  };
+
   const handleApiError = (err: unknown) => {
     const translatedError = translateApiError(err);
     setError(translatedError);
   };
+
+  const recordHistory = (imageUrl: string, meta: HistoryMeta) => {
+    historyMeta.current.set(imageUrl, { ...meta, createdAt: Date.now() });
+    // Keep only recent results in memory; the full record lives in IndexedDB.
+    if (historyMeta.current.size > MAX_HISTORY_META_IN_MEMORY) {
+        const oldest = historyMeta.current.keys().next().value;
+        if (oldest !== undefined) historyMeta.current.delete(oldest);
+    }
+    addHistoryEntry({ ...meta, imageDataUrl: imageUrl }).catch(err => {
+      console.error("Failed to save image to history:", err);
+    });
+  };
+
+  const getStyleName = (styleId: string | null): string | undefined => {
+    return styleId ? allStyles.find(s => s.id === styleId)?.name : undefined;
+  };
+
+  const beginCancellable = (operation: CancellableOperation): AbortSignal => {
+    abortControllers.current[operation]?.abort();
+    const controller = new AbortController();
+    abortControllers.current[operation] = controller;
+    return controller.signal;
+  };
+
+  /** Forgets the controller of a finished run, unless a newer run of the same operation has replaced it. */
+  const endCancellable = (operation: CancellableOperation, signal: AbortSignal) => {
+    if (abortControllers.current[operation]?.signal === signal) {
+      delete abortControllers.current[operation];
+    }
+  };
+
+  const cancelOperation = (operation: CancellableOperation) => {
+    abortControllers.current[operation]?.abort();
+  };
   
+  // Style Library Functions
+  const handleCustomStylesChange = (styles: Style[]) => {
+    setCustomStyles(styles);
+    saveCustomStyles(styles);
+    const remaining = new Set(mergeStyles(styles).map(style => style.id));
+    const fallback = STYLES[0]?.id || null;
+    if (selectedStyleId && !remaining.has(selectedStyleId)) setSelectedStyleId(fallback);
+    if (stressTestStyleId && !remaining.has(stressTestStyleId)) setStressTestStyleId(fallback);
+    if (batchStyleId && !remaining.has(batchStyleId)) handleBatchStyleChange(fallback || '');
+  };
+
+  const openStyleManager = (draftPrompt: string | null = null) => {
+    setStyleManagerDraft(draftPrompt);
+    setIsStyleManagerOpen(true);
+  };
+
   // Single Mode Functions
   const handleImageChange = (file: File | null, index: number) => {
     const newImages = [...images];
@@ -395,27 +923,65 @@ const App: React.FC = () => {
     setImages([...images, null]);
   };
 
+  /** Fills slots from `index` (or the first empty one), adding extra slots when the style allows them. */
+  const handleSingleFilesAdded = (files: File[], index?: number) => {
+    const maxLength = singleInputs.allowExtra ? Infinity : singleInputs.slots.length;
+    setImages(prev => placeFiles(prev, files, index ?? getFirstEmptySlot(prev), maxLength));
+  };
+
   const removeLastSingleSlot = () => {
-    if (images.length > 1) {
+    if (images.length > singleInputs.slots.length) {
       setImages(prev => prev.slice(0, prev.length - 1));
     }
   };
 
   const removeImage = (index: number) => {
-    if (images.length <= 1) {
-      setImages([null]);
+    // Declared slots stay in place so labels keep matching; only extras are removed.
+    if (index < singleInputs.slots.length) {
+      handleImageChange(null, index);
       return;
     }
-    const newImages = images.filter((_, i) => i !== index);
-    setImages(newImages);
+    setImages(prev => prev.filter((_, i) => i !== index));
+  };
+
+  /** Rotated, downscaled and GPS-free copies of the uploads, as shown in the payload summary. */
+  const prepareImages = async (files: File[]): Promise<File[]> => {
+    const prepared = await preprocessImages(files, preprocessOptions);
+    return prepared.map(image => image.file);
+  };
+
+  const handlePreprocessOptionsChange = (options: PreprocessOptions) => {
+    setPreprocessOptions(options);
+    savePreprocessOptions(options);
+  };
+
+  const handleEnhanceMethodChange = (method: EnhanceMethod) => {
+    setEnhanceMethod(method);
+    saveEnhanceMethod(method);
   };
 
+  // Actual pixel size of the current result, shown in the enhance panel.
+  useEffect(() => {
+    setGeneratedImageSize(null);
+    if (!generatedImage) return;
+    let isCurrent = true;
+    getImageSize(generatedImage)
+      .then(size => { if (isCurrent) setGeneratedImageSize(size); })
+      .catch(() => {});
+    return () => { isCurrent = false; };
+  }, [generatedImage]);
+
   const handleGenerate = async () => {
-    if (!userApiKey) {
-        handleApiError(new Error("NO_API_KEY"));
+    if (!hasApiAccess) {
+        handleApiError(new Error(isKeyLocked ? "KEY_LOCKED" : "NO_API_KEY"));
         setIsApiKeyModalOpen(true);
         return;
     }
+    const missingSlots = getMissingSlots(images, singleInputs);
+    if (missingSlots.length > 0) {
+      setError(`Vui lòng tải lên ảnh cho: ${missingSlots.join(', ')}.`);
+      return;
+    }
     const imagesToProcess = images.filter((img): img is File => img !== null);
     if (imagesToProcess.length === 0) {
       setError("Vui lòng tải lên ít nhất một ảnh.");
@@ -424,7 +990,7 @@ const App: React.FC = () => {
 
     const currentPrompt = isCustomPromptVisible
       ? customPrompt
-      : STYLES.find(s => s.id === selectedStyleId)?.prompt;
+      : selectedStyle && renderStylePrompt(selectedStyle, singleVariableValues);
 
     if (!currentPrompt) {
       setError("Vui lòng chọn một style hoặc nhập lệnh tùy chỉnh.");
@@ -446,8 +1012,32 @@ const App: React.FC = () => {
         setProgress(Math.round(progressValue));
     }, 250);
 
+    const signal = beginCancellable('single');
     try {
-      const result = await generateTrendImage(imagesToProcess, currentPrompt, userApiKey);
+      const result = await generateTrendImage(await prepareImages(imagesToProcess), currentPrompt, userApiKey, { signal });
+      const styleId = isCustomPromptVisible ? null : selectedStyleId;
+      recordHistory(result, {
+        mode: 'single',
+        styleId,
+        styleName: getStyleName(styleId),
+        prompt: currentPrompt,
+        model: IMAGE_MODEL,
+        enhancements: [],
+        inputImages: imagesToProcess,
+      });
+      // Regenerations join the existing stack instead of replacing it, so earlier results stay reachable.
+      const operation = `Tạo ảnh: ${getStyleName(styleId) ?? 'Lệnh tùy chỉnh'}`;
+      if (versions.length === 0) {
+        setVersions(createVersionTree(result, operation));
+        setActiveVersionId(1);
+      } else {
+        const next = addVersion(versions, continueFromVersionId, result, continueFromVersionId ? `${operation} (từ v${continueFromVersionId})` : operation);
+        setVersions(next.versions);
+        setActiveVersionId(next.id);
+      }
+      setContinueFromVersionId(null);
+      setRedoStack([]);
+      setRefinementReferences(imagesToProcess);
       if(progressInterval.current) clearInterval(progressInterval.current);
       setProgress(100);
       setTimeout(() => {
@@ -456,20 +1046,36 @@ const App: React.FC = () => {
       }, 500);
     } catch (err) {
       if(progressInterval.current) clearInterval(progressInterval.current);
-      handleApiError(err);
+      if (!isCancelledError(err)) {
+        handleApiError(err);
+      }
+      setProgress(0);
       setIsLoading(false);
+    } finally {
+      endCancellable('single', signal);
     }
   };
   
+  /** Downloads the image, converted if options are given, with its generation settings embedded when known. */
+  const saveImage = async (image: Blob, meta?: HistoryMeta, options?: ExportOptions) => {
+    let output = options ? await exportImage(image, options) : image;
+    if (meta) {
+      try {
+        output = await embedGenerationMetadata(output, createGenerationMetadata(meta));
+      } catch (err) {
+        console.error("Failed to embed image metadata:", err);
+      }
+    }
+    downloadBlob(output, `tao-anh-trend-${new Date().getTime()}.${getImageExtension(output.type)}`);
+  };
+
   const handleDownload = useCallback((imageUrl?: string) => {
     const url = imageUrl || generatedImage;
     if (!url) return;
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `tao-anh-trend-${new Date().getTime()}.png`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    fetch(url)
+      .then(res => res.blob())
+      .then(image => saveImage(image, historyMeta.current.get(url)))
+      .catch(err => console.error("Failed to download image:", err));
   }, [generatedImage]);
 
   const handleDownloadWithAffiliate = useCallback(() => {
@@ -485,22 +1091,21 @@ const App: React.FC = () => {
         const imageFile = await dataUrlToFile(generatedImage, 'generated-image.png');
         resetToInitialState();
         setImages([imageFile, null]);
+        setMode('single');
+        setContinueFromVersionId(findVersionByUrl(versions, generatedImage)?.id ?? null);
     } catch (e) {
         setError("Không thể sử dụng ảnh này. Vui lòng thử tải về và tải lên lại.");
     }
-  }, [generatedImage]);
-
-  const handleEnhance = async (quality: 'HD' | '2K' | '4K') => {
-    if (!generatedImage) return;
+  }, [generatedImage, versions]);
 
+  /** Shows the progress overlay on the result image while it is being reworked. */
+  const startEnhancementProgress = (label: string, intervalTime: number, progressIncrement: number) => {
     setIsEnhancing(true);
+    setEnhancementLabel(label);
     setError(null);
     setEnhancementProgress(0);
 
     let progressValue = 0;
-    const intervalTime = quality === '4K' ? 400 : 300;
-    const progressIncrement = quality === '4K' ? 1.5 : 2;
-
     enhancementProgressInterval.current = window.setInterval(() => {
         progressValue += Math.random() * progressIncrement + 1;
         if (progressValue >= 95) {
@@ -509,31 +1114,208 @@ const App: React.FC = () => {
         }
         setEnhancementProgress(Math.round(progressValue));
     }, intervalTime);
+  };
+
+  /**
+   * Restores details with the model (unless enhancing locally), checks the size it
+   * actually returned, then resamples to the exact pixel target of `quality`.
+   */
+  const handleEnhance = async (quality: EnhanceQuality) => {
+    if (!generatedImage) return;
+    const source = generatedImage;
+    const useModel = enhanceMethod === 'ai';
+
+    startEnhancementProgress(useModel ? 'Đang nâng cấp ảnh...' : `Đang phóng to lên ${quality}...`, 300, useModel ? 2 : 6);
 
+    const signal = beginCancellable('enhance');
     try {
-        let result = generatedImage;
-        if (quality === '4K') {
-            const result1 = await enhanceImage(result, '4K', userApiKey);
-            // Thêm khoảng nghỉ để tránh bị giới hạn tốc độ
-            await new Promise(resolve => setTimeout(resolve, 1100));
-            result = await enhanceImage(result1, '4K', userApiKey);
-        } else {
-            result = await enhanceImage(result, quality, userApiKey);
+        const inputSize = await getImageSize(source);
+        let restored = source;
+        let modelSize: ImageSize | null = null;
+        if (useModel) {
+            restored = await enhanceImage(source, quality, userApiKey, { signal });
+            modelSize = await getImageSize(restored);
         }
+
+        const restoredSize = modelSize ?? inputSize;
+        const outputSize = getTargetSize(restoredSize, quality);
+        setEnhancementLabel(`Đang phóng to lên ${formatResolution(outputSize)}...`);
+        const result = isSameSize(restoredSize, outputSize) ? restored : await resizeImage(restored, outputSize, { signal });
+        enhancementReports.current.set(result, { quality, method: enhanceMethod, input: inputSize, model: modelSize, output: outputSize });
+
+        const parentMeta = historyMeta.current.get(source);
+        const step = useModel ? quality : `${quality} (cục bộ)`;
+        recordHistory(result, parentMeta
+            ? { ...parentMeta, model: useModel ? IMAGE_MODEL : parentMeta.model, enhancements: [...parentMeta.enhancements, step] }
+            : { mode, styleId: null, prompt: '', model: useModel ? IMAGE_MODEL : '', enhancements: [step] });
+        trackVersion(source, result, useModel ? `Nâng cấp ${quality}` : `Phóng to ${quality}`);
         
         if(enhancementProgressInterval.current) clearInterval(enhancementProgressInterval.current);
         setEnhancementProgress(100);
         setTimeout(() => {
+            setTextResults(prev => prev.map(url => url === source ? result : url));
             setGeneratedImage(result);
             setIsEnhancing(false);
         }, 500);
     } catch (err) {
         if(enhancementProgressInterval.current) clearInterval(enhancementProgressInterval.current);
-        handleApiError(err);
+        if (!isCancelledError(err)) {
+            handleApiError(err);
+        }
+        setEnhancementProgress(0);
+        setIsEnhancing(false);
+    } finally {
+        endCancellable('enhance', signal);
+    }
+  };
+
+  const openMaskEditor = () => {
+    if (!generatedImage) return;
+    setIsPreviewOpen(false);
+    setMaskEditorImage(generatedImage);
+  };
+
+  /** Sends the image and painted mask to the model, then keeps only the masked part of its answer. */
+  const handleRegionEdit = async (mask: HTMLCanvasElement, instruction: string) => {
+    const source = maskEditorImage;
+    setMaskEditorImage(null);
+    if (!source) return;
+    if (!hasApiAccess) {
+        handleApiError(new Error(isKeyLocked ? "KEY_LOCKED" : "NO_API_KEY"));
+        setIsApiKeyModalOpen(true);
+        return;
+    }
+
+    startEnhancementProgress('Đang sửa vùng đã tô...', 300, 2);
+
+    const signal = beginCancellable('enhance');
+    try {
+        const original = await loadImage(source);
+        const maskPng = createMaskPng(mask, original.naturalWidth, original.naturalHeight);
+        const edited = await editImageRegion(source, maskPng, instruction, userApiKey, { signal });
+        const result = await compositeMaskedEdit(source, edited, mask);
+
+        const parentMeta = historyMeta.current.get(source);
+        const step = `Sửa vùng: ${instruction}`;
+        recordHistory(result, parentMeta
+            ? { ...parentMeta, model: IMAGE_MODEL, enhancements: [...parentMeta.enhancements, step] }
+            : { mode, styleId: null, prompt: '', model: IMAGE_MODEL, enhancements: [step] });
+        trackVersion(source, result, 'Sửa vùng', instruction);
+
+        if(enhancementProgressInterval.current) clearInterval(enhancementProgressInterval.current);
+        setEnhancementProgress(100);
+        setTimeout(() => {
+            setTextResults(prev => prev.map(url => url === source ? result : url));
+            setGeneratedImage(result);
+            setIsEnhancing(false);
+        }, 500);
+    } catch (err) {
+        if(enhancementProgressInterval.current) clearInterval(enhancementProgressInterval.current);
+        if (!isCancelledError(err)) {
+            handleApiError(err);
+        }
+        setEnhancementProgress(0);
         setIsEnhancing(false);
+    } finally {
+        endCancellable('enhance', signal);
     }
   };
 
+  /** Applies a chat instruction to the active version, keeping the original uploads as references. */
+  const handleRefine = async (instruction: string) => {
+    const active = findVersion(versions, activeVersionId);
+    if (!active) return;
+    if (!hasApiAccess) {
+        handleApiError(new Error(isKeyLocked ? "KEY_LOCKED" : "NO_API_KEY"));
+        setIsApiKeyModalOpen(true);
+        return;
+    }
+
+    startEnhancementProgress('Đang chỉnh sửa theo yêu cầu...', 300, 2);
+
+    const signal = beginCancellable('enhance');
+    try {
+        const previousInstructions = getVersionPath(versions, active.id)
+            .map(version => version.instruction)
+            .filter((text): text is string => !!text);
+        const references = await prepareImages(refinementReferences);
+        const result = await refineImage(active.imageUrl, references, instruction, previousInstructions, userApiKey, { signal });
+
+        const parentMeta = historyMeta.current.get(active.imageUrl);
+        const step = `Chỉnh sửa: ${instruction}`;
+        recordHistory(result, parentMeta
+            ? { ...parentMeta, model: IMAGE_MODEL, enhancements: [...parentMeta.enhancements, step] }
+            : { mode, styleId: null, prompt: '', model: IMAGE_MODEL, enhancements: [step] });
+        trackVersion(active.imageUrl, result, 'Chỉnh sửa', instruction);
+
+        if(enhancementProgressInterval.current) clearInterval(enhancementProgressInterval.current);
+        setEnhancementProgress(100);
+        setTimeout(() => {
+            setGeneratedImage(result);
+            setIsEnhancing(false);
+        }, 500);
+    } catch (err) {
+        if(enhancementProgressInterval.current) clearInterval(enhancementProgressInterval.current);
+        if (!isCancelledError(err)) {
+            handleApiError(err);
+        }
+        setEnhancementProgress(0);
+        setIsEnhancing(false);
+    } finally {
+        endCancellable('enhance', signal);
+    }
+  };
+
+  const showVersion = (version: ImageVersion) => {
+    setActiveVersionId(version.id);
+    setGeneratedImage(version.imageUrl);
+    setError(null);
+  };
+
+  const handleSelectVersion = (id: number) => {
+    const version = findVersion(versions, id);
+    if (!version) return;
+    showVersion(version);
+    setRedoStack([]);
+  };
+
+  /** Steps back to the version this one was made from. */
+  const handleUndoVersion = () => {
+    const active = findVersion(versions, activeVersionId);
+    const parent = findVersion(versions, active?.parentId ?? null);
+    if (!active || !parent) return;
+    showVersion(parent);
+    setRedoStack(prev => [...prev, active.id]);
+  };
+
+  const handleRedoVersion = () => {
+    const target = findVersion(versions, redoStack[redoStack.length - 1] ?? null);
+    if (!target) return;
+    showVersion(target);
+    setRedoStack(prev => prev.slice(0, -1));
+  };
+
+  const canUndoVersion = findVersion(versions, activeVersionId)?.parentId != null;
+  const canRedoVersion = redoStack.length > 0;
+
+  useEffect(() => {
+    if (mode !== 'single' || !generatedImage || isEnhancing || maskEditorImage || comparePair) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      if ((event.target as HTMLElement | null)?.closest('input, textarea, [contenteditable="true"]')) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndoVersion();
+      } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+        event.preventDefault();
+        handleRedoVersion();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   const handleGoBackToEditing = () => {
     setGeneratedImage(null);
     setError(null);
@@ -564,93 +1346,59 @@ const App: React.FC = () => {
   const handleBatchStyleChange = (styleId: string) => {
     setBatchStyleId(styleId);
     setBatchResults([]);
-  
-    setBatchImages(prev => {
-      const hasUploadedFiles = prev.some(img => img !== null);
-      if (!hasUploadedFiles) {
-        return styleId === 'polaroid' ? [null, null] : [null];
-      }
-  
-      const currentImages = [...prev];
-  
-      if (styleId === 'polaroid' && currentImages.length % 2 !== 0) {
-        currentImages.push(null);
-      }
-      
-      return currentImages;
-    });
+    // Slot padding for the new style's group size happens in the batchInputs effect.
   };
 
   const addBatchSlot = () => {
-    if (batchStyleId === 'polaroid') {
-        setBatchImages(prev => [...prev, null, null]);
-    } else {
-        setBatchImages(prev => [...prev, null]);
-    }
+    setBatchImages(prev => [...prev, ...Array.from({ length: batchGroupSize }, () => null)]);
   };
 
   const removeLastBatchSlot = () => {
-    if (batchStyleId === 'polaroid') {
-        if (batchImages.length > 2) {
-            setBatchImages(prev => prev.slice(0, prev.length - 2));
-        }
-    } else {
-        if (batchImages.length > 1) {
-            setBatchImages(prev => prev.slice(0, prev.length - 1));
-        }
+    if (batchImages.length > batchGroupSize) {
+        setBatchImages(prev => prev.slice(0, prev.length - batchGroupSize));
     }
   };
   
   const handleBatchImageChange = (index: number, file: File | null) => {
     setBatchImages(prev => prev.map((img, idx) => idx === index ? file : img));
   };
-  
-  const removeBatchImage = (index: number) => {
-    if (batchImages.length <= 1) {
-        setBatchImages([null]);
-        return;
-    }
-    setBatchImages(prev => prev.filter((_, i) => i !== index));
+
+  /** Files fill slots in order and new groups are added as needed, so multi-image styles pair them up 1-2, 3-4, ... */
+  const handleBatchFilesAdded = (files: File[], index?: number) => {
+    setBatchImages(prev => fitImagesToGroups(placeFiles(prev, files, index ?? getFirstEmptySlot(prev)), batchInputs));
   };
 
-  const removePolaroidPair = (pairIndex: number) => {
-      if (batchImages.length <= 2) {
-          setBatchImages([null, null]);
+  const removeBatchGroup = (groupIndex: number) => {
+      if (batchImages.length <= batchGroupSize) {
+          setBatchImages(Array.from({ length: batchGroupSize }, () => null));
           return;
       }
-      const startIndex = pairIndex * 2;
-      setBatchImages(prev => prev.filter((_, i) => i < startIndex || i >= startIndex + 2));
+      const startIndex = groupIndex * batchGroupSize;
+      setBatchImages(prev => prev.filter((_, i) => i < startIndex || i >= startIndex + batchGroupSize));
   }
 
   const handleBatchGenerate = async () => {
-    if (!userApiKey) {
-        handleApiError(new Error("NO_API_KEY"));
+    if (!hasApiAccess) {
+        handleApiError(new Error(isKeyLocked ? "KEY_LOCKED" : "NO_API_KEY"));
         setIsApiKeyModalOpen(true);
         return;
     }
 
-    const currentPrompt = STYLES.find(s => s.id === batchStyleId)?.prompt;
-    if (!currentPrompt) {
+    if (!batchStyle) {
         setError("Vui lòng chọn một style hợp lệ.");
         return;
     }
 
-    const validTasksWithIds: { taskId: number, images: File[] }[] = [];
-    if (batchStyleId === 'polaroid') {
-        for (let i = 0; i < batchImages.length / 2; i++) {
-            const image1 = batchImages[i*2];
-            const image2 = batchImages[i*2 + 1];
-            if (image1 && image2) {
-                validTasksWithIds.push({ taskId: i, images: [image1, image2] });
-            }
-        }
-    } else {
-        batchImages.forEach((img, index) => {
-            if (img) {
-                validTasksWithIds.push({ taskId: index, images: [img] });
-            }
-        });
-    }
+    // Every image group runs once per swept value (or once when nothing is swept).
+    const sweptPrompts = expandSweep(batchStyle, batchVariableValues, batchSweep);
+    const validTasksWithIds = groupImages(batchImages, batchInputs).flatMap(group =>
+        sweptPrompts.map(({ prompt, caption }, promptIndex) => ({
+            taskId: group.groupIndex * sweptPrompts.length + promptIndex,
+            images: group.images,
+            prompt,
+            caption,
+        }))
+    );
 
     if (validTasksWithIds.length === 0) {
         setError("Vui lòng hoàn thành ít nhất một bộ ảnh để tạo.");
@@ -659,30 +1407,55 @@ const App: React.FC = () => {
 
     setIsBatchLoading(true);
     setError(null);
-    setBatchResults(validTasksWithIds.map(task => ({ taskId: task.taskId, status: 'loading' })));
+    setBatchResults(validTasksWithIds.map(task => ({ taskId: task.taskId, inputs: task.images, caption: task.caption, prompt: task.prompt, status: 'queued' })));
     setBatchProgress(0);
 
-    for (let i = 0; i < validTasksWithIds.length; i++) {
-        const task = validTasksWithIds[i];
-        try {
-            // Thêm khoảng nghỉ đủ dài giữa các yêu cầu để tuân thủ giới hạn
-            if (i > 0) await new Promise(resolve => setTimeout(resolve, 1100));
+    let finishedCount = 0;
+    const queue = createJobQueue<string>({
+        concurrency: queueConcurrency,
+        requestsPerMinute,
+        onEvent: ({ jobId, status, result, error }) => {
+            if (status === 'running') {
+                requestTimestamps.current.push(Date.now());
+                setBatchResults(prev => prev.map(r => r.taskId === jobId ? { ...r, status: 'loading' } : r));
+                return;
+            }
+            if (status === 'success' && result) {
+                const task = validTasksWithIds.find(t => t.taskId === jobId);
+                recordHistory(result, {
+                    mode: 'batch',
+                    styleId: batchStyleId,
+                    styleName: getStyleName(batchStyleId),
+                    prompt: task?.prompt ?? batchStyle.prompt,
+                    model: IMAGE_MODEL,
+                    enhancements: [],
+                    inputImages: task?.images,
+                });
+                setBatchResults(prev => prev.map(r => r.taskId === jobId ? { ...r, status: 'success', imageUrl: result } : r));
+            } else if (status === 'error') {
+                const errorMessage = translateApiError(error);
+                setBatchResults(prev => prev.map(r => r.taskId === jobId ? { ...r, status: 'error', error: errorMessage } : r));
+            } else if (status === 'cancelled') {
+                setBatchResults(prev => prev.map(r => r.taskId === jobId ? { ...r, status: 'cancelled' } : r));
+            } else {
+                return;
+            }
+            finishedCount++;
+            setBatchProgress(Math.round((finishedCount / validTasksWithIds.length) * 100));
+        },
+    });
+    activeQueue.current = queue;
 
-            const imageUrl = await generateTrendImage(task.images, currentPrompt, userApiKey);
+    validTasksWithIds.forEach(task => {
+        queue.add(task.taskId, async (signal, acquireRateLimit) => {
+            const images = await prepareImages(task.images);
+            return runWithKeyRotation((apiKey, failFastOnQuota) => generateTrendImage(images, task.prompt, apiKey, { signal, failFastOnQuota, acquireRateLimit }));
+        });
+    });
 
-            setBatchResults(prev => prev.map(r => 
-                r.taskId === task.taskId ? { ...r, status: 'success', imageUrl } : r
-            ));
-        } catch (err) {
-            const errorMessage = translateApiError(err);
-            
-            setBatchResults(prev => prev.map(r => 
-                r.taskId === task.taskId ? { ...r, status: 'error', error: errorMessage } : r
-            ));
-        }
-        setBatchProgress(Math.round(((i + 1) / validTasksWithIds.length) * 100));
-    }
-    
+    await queue.onIdle();
+    activeQueue.current = null;
+    setIsQueuePaused(false);
     setIsBatchLoading(false);
   };
   
@@ -694,26 +1467,51 @@ const App: React.FC = () => {
     setBatchResults([]);
   };
 
-  const openBatchImagePreview = (imageUrl: string) => {
-    setGeneratedImage(imageUrl);
-    openPreview();
+  const openBatchImagePreview = (result: BatchResult) => {
+    openPreview({ imageUrl: result.imageUrl!, inputs: result.inputs ?? [] });
   };
 
-  const handleDownloadAll = () => {
-      const successfulImages = batchResults
-          .filter(r => r.status === 'success' && r.imageUrl)
-          .map(r => r.imageUrl!);
-
-      if(successfulImages.length === 0) {
+  const downloadArchive = async (mode: Mode, styleId: string | null, items: ArchiveItem[], options?: ExportOptions) => {
+      if (!items.some(item => item.status === 'success' && item.imageUrl)) {
         alert("Không có ảnh nào để tải về.");
         return;
       }
+      if (archiveProgress) return;
+
+      setArchiveProgress({ mode, done: 0, total: 1 });
+      try {
+        await downloadResultsArchive(
+          { mode, styleId, styleName: getStyleName(styleId), items, transform: options && (image => exportImage(image, options)) },
+          (done, total) => setArchiveProgress({ mode, done, total })
+        );
+      } catch (err) {
+        console.error("Failed to build ZIP archive:", err);
+        setError("Không thể tạo file ZIP. Vui lòng thử lại.");
+      } finally {
+        setArchiveProgress(null);
+      }
+  };
 
-      successfulImages.forEach((url, index) => {
-          setTimeout(() => {
-              handleDownload(url);
-          }, index * 300);
-      });
+  const getArchiveLabel = (mode: Mode, idleLabel: string) => {
+      if (archiveProgress?.mode !== mode) return idleLabel;
+      return `Đang nén ${Math.round((archiveProgress.done / archiveProgress.total) * 100)}%`;
+  };
+
+  const getArchiveMetadata = (imageUrl?: string) => {
+      const meta = imageUrl ? historyMeta.current.get(imageUrl) : undefined;
+      return meta && createGenerationMetadata(meta);
+  };
+
+  const handleDownloadAll = (options?: ExportOptions) => {
+      downloadArchive('batch', batchStyleId, batchResults.map(r => ({
+          index: r.taskId,
+          status: r.status,
+          prompt: r.prompt,
+          caption: r.caption,
+          error: r.error,
+          imageUrl: r.imageUrl,
+          metadata: getArchiveMetadata(r.imageUrl),
+      })), options);
   };
 
   const handleDownloadAllWithAffiliate = () => {
@@ -732,13 +1530,17 @@ const App: React.FC = () => {
     setStressTestImages([...stressTestImages, null]);
   };
 
+  const handleStressTestFilesAdded = (files: File[], index?: number) => {
+    const maxLength = stressTestInputs.allowExtra ? Infinity : stressTestInputs.slots.length;
+    setStressTestImages(prev => placeFiles(prev, files, index ?? getFirstEmptySlot(prev), maxLength));
+  };
+
   const removeStressTestImageSlot = (index: number) => {
-    if (stressTestImages.length <= 1) {
-      setStressTestImages([null]);
+    if (index < stressTestInputs.slots.length) {
+      handleStressTestImageChange(null, index);
       return;
     }
-    const newImages = stressTestImages.filter((_, i) => i !== index);
-    setStressTestImages(newImages);
+    setStressTestImages(prev => prev.filter((_, i) => i !== index));
   };
 
   const handleStressTestStyleSelect = (styleId: string) => {
@@ -769,12 +1571,17 @@ const App: React.FC = () => {
   };
 
   const handleStressTestGenerate = async () => {
-    if (!userApiKey) {
-        handleApiError(new Error("NO_API_KEY"));
+    if (!hasApiAccess) {
+        handleApiError(new Error(isKeyLocked ? "KEY_LOCKED" : "NO_API_KEY"));
         setIsApiKeyModalOpen(true);
         return;
     }
 
+    const missingSlots = getMissingSlots(stressTestImages, stressTestInputs);
+    if (missingSlots.length > 0) {
+        setError(`Vui lòng tải lên ảnh cho: ${missingSlots.join(', ')}.`);
+        return;
+    }
     const imagesToProcess = stressTestImages.filter((img): img is File => img !== null);
     if (imagesToProcess.length === 0) {
         setError("Vui lòng tải lên ít nhất một ảnh để bắt đầu.");
@@ -783,7 +1590,7 @@ const App: React.FC = () => {
     
     const currentPrompt = isStressTestCustomPromptVisible
         ? stressTestPrompt
-        : STYLES.find(s => s.id === stressTestStyleId)?.prompt;
+        : stressTestStyle && renderStylePrompt(stressTestStyle, stressTestVariableValues);
     
     if (!currentPrompt || !currentPrompt.trim()) {
         setError("Vui lòng chọn một style hoặc nhập lệnh tùy chỉnh.");
@@ -792,79 +1599,367 @@ const App: React.FC = () => {
 
     const quantity = clamp(Number(stressTestQuantity) || 1, 1, 60);
 
+    if (useAiPromptVariations) {
+        await handleGeneratePromptVariations(currentPrompt, quantity);
+        return;
+    }
+
+    // A sweep cycles through its values so each one gets an even share of the tasks.
+    const sweptPrompts = stressTestStyle ? expandSweep(stressTestStyle, stressTestVariableValues, stressTestSweep) : [{ prompt: currentPrompt }];
+    await runStressTest(imagesToProcess, Array.from({ length: quantity }, (_, i) => sweptPrompts[i % sweptPrompts.length].prompt));
+  };
+
+  const handleGeneratePromptVariations = async (basePrompt: string, quantity: number) => {
+    setIsStressTesting(true);
+    setError(null);
+    setStressTestResults([]);
+    setStressTestStage('generating_prompts');
+
+    const signal = beginCancellable('promptVariations');
+    try {
+        requestTimestamps.current.push(Date.now());
+        const variations = await runWithKeyRotation((apiKey, failFastOnQuota) => generatePromptVariations(basePrompt, quantity, apiKey, { signal, failFastOnQuota }));
+        const cleaned = variations.map(v => v.trim()).filter(Boolean).slice(0, quantity);
+        if (cleaned.length === 0) {
+            throw new Error("MODEL_ERROR: AI không trả về biến thể nào.");
+        }
+        setPromptVariations(cleaned);
+        setStressTestStage('reviewing_prompts');
+    } catch (err) {
+        if (!isCancelledError(err)) {
+            handleApiError(err);
+        }
+        setStressTestStage('idle');
+    } finally {
+        endCancellable('promptVariations', signal);
+        setIsStressTesting(false);
+    }
+  };
+
+  const handlePromptVariationChange = (index: number, value: string) => {
+    setPromptVariations(prev => prev.map((p, i) => i === index ? value : p));
+  };
+
+  const removePromptVariation = (index: number) => {
+    setPromptVariations(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const cancelPromptReview = () => {
+    setPromptVariations([]);
+    setStressTestStage('idle');
+  };
+
+  const handleConfirmPromptVariations = async () => {
+    const imagesToProcess = stressTestImages.filter((img): img is File => img !== null);
+    if (imagesToProcess.length === 0) {
+        setError("Vui lòng tải lên ít nhất một ảnh để bắt đầu.");
+        return;
+    }
+    const prompts = promptVariations.map(p => p.trim()).filter(Boolean);
+    if (prompts.length === 0) {
+        setError("Danh sách biến thể đang trống. Hãy tạo lại hoặc tắt chế độ biến thể AI.");
+        return;
+    }
+    setPromptVariations([]);
+    await runStressTest(imagesToProcess, prompts);
+  };
+
+  const runStressTest = async (imagesToProcess: File[], promptsToUse: string[]) => {
+    const styleId = isStressTestCustomPromptVisible ? null : stressTestStyleId;
     setIsStressTesting(true);
     setError(null);
     setStressTestStage('generating_images');
     
-    const promptsToUse = Array.from({ length: quantity }, () => currentPrompt);
     setStressTestResults(promptsToUse.map((p, i) => ({
         id: i,
-        status: 'loading',
+        inputs: imagesToProcess,
+        status: 'queued',
         prompt: p
     })));
 
-    // Giảm số lượng worker đồng thời xuống 1 để đảm bảo tuần tự và tuân thủ giới hạn
-    const CONCURRENCY_LIMIT = 1;
-    const taskQueue = [...promptsToUse]; // A queue of prompts to process
+    const queue = createJobQueue<string>({
+        concurrency: queueConcurrency,
+        requestsPerMinute,
+        onEvent: ({ jobId, status, result, error }) => {
+            if (status === 'running') {
+                // Record the request for UI counter
+                requestTimestamps.current.push(Date.now());
+                setStressTestResults(prev => prev.map(r => r.id === jobId ? { ...r, status: 'loading' } : r));
+            } else if (status === 'success' && result) {
+                recordHistory(result, {
+                    mode: 'stressTest',
+                    styleId,
+                    styleName: getStyleName(styleId),
+                    prompt: promptsToUse[jobId],
+                    model: IMAGE_MODEL,
+                    enhancements: [],
+                    inputImages: imagesToProcess,
+                });
+                setStressTestResults(prev => prev.map(r => r.id === jobId ? { ...r, status: 'success', imageUrl: result } : r));
+            } else if (status === 'error') {
+                const errorMessage = translateApiError(error);
+                const cooldown = getQuotaCooldownSeconds(error);
+                if (cooldown !== null) {
+                    setRateLimitCooldown(prev => Math.max(prev, cooldown));
+                }
+                setStressTestResults(prev => prev.map(r => r.id === jobId ? { ...r, status: 'error', error: errorMessage.split('\n\n')[0] } : r));
+            } else if (status === 'cancelled') {
+                setStressTestResults(prev => prev.map(r => r.id === jobId ? { ...r, status: 'cancelled' } : r));
+            }
+        },
+    });
+    activeQueue.current = queue;
 
-    const worker = async () => {
-      while (taskQueue.length > 0) {
-        const prompt = taskQueue.shift(); // Get the next task (prompt)
-        if (!prompt) continue;
-        
-        const index = promptsToUse.length - taskQueue.length - 1;
+    promptsToUse.forEach((prompt, index) => {
+        queue.add(index, async (signal, acquireRateLimit) => {
+            const images = await prepareImages(imagesToProcess);
+            return runWithKeyRotation((apiKey, failFastOnQuota) => generateTrendImage(images, prompt, apiKey, { signal, failFastOnQuota, acquireRateLimit }));
+        });
+    });
 
-        try {
-            // Thêm độ trễ giữa các yêu cầu để tuân thủ giới hạn tốc độ (ví dụ: 60 yêu cầu/phút)
-            await new Promise(resolve => setTimeout(resolve, 1100));
-            
-            // Record the request for UI counter
-            requestTimestamps.current.push(Date.now());
-
-            const imageUrl = await generateTrendImage(imagesToProcess, prompt, userApiKey);
-            setStressTestResults(prev => prev.map(r => r.id === index ? { ...r, status: 'success', imageUrl } : r));
-        } catch (err) {
-            const errorMessage = translateApiError(err);
-            if (errorMessage.toLowerCase().includes("hết hạn ngạch") || errorMessage.includes("429")) {
-                setRateLimitCooldown(60);
-            }
-            setStressTestResults(prev => prev.map(r => r.id === index ? { ...r, status: 'error', error: errorMessage.split('\n\n')[0] } : r));
+    await queue.onIdle();
+    activeQueue.current = null;
+    setIsQueuePaused(false);
+    setIsStressTesting(false);
+    setStressTestStage('idle');
+  };
+
+  const toggleQueuePause = () => {
+    const queue = activeQueue.current;
+    if (!queue) return;
+    if (queue.isPaused()) {
+        queue.resume();
+        setIsQueuePaused(false);
+    } else {
+        queue.pause();
+        setIsQueuePaused(true);
+    }
+  };
+
+  const cancelQueue = () => {
+    activeQueue.current?.cancel();
+  };
+
+  const handleQueueConcurrencyChange = (value: number) => {
+    const next = clamp(Math.round(value) || 1, 1, 10);
+    setQueueConcurrency(next);
+    localStorage.setItem('queueConcurrency', String(next));
+  };
+
+  const handleRequestsPerMinuteChange = (value: number) => {
+    const next = clamp(Math.round(value) || 1, 1, 1000);
+    setRequestsPerMinute(next);
+    localStorage.setItem('requestsPerMinute', String(next));
+  };
+
+  const hasDistinctStressPrompts = stressTestResults.some(r => r.prompt !== stressTestResults[0]?.prompt);
+
+  const openStressTestImagePreview = (result: StressTestResult) => {
+    openPreview({ imageUrl: result.imageUrl!, inputs: result.inputs ?? [] });
+  };
+
+  const handleStressTestDownloadAll = () => {
+      downloadArchive('stressTest', stressTestStyle?.id ?? null, stressTestResults.map(r => ({
+          index: r.id,
+          status: r.status,
+          prompt: r.prompt,
+          error: r.error,
+          imageUrl: r.imageUrl,
+          metadata: getArchiveMetadata(r.imageUrl),
+      })));
+  };
+
+  // Text-to-Image Mode Functions
+  const handleTextImageCountChange = (value: number) => {
+    setTextImageCount(clamp(value, 1, MAX_TEXT_TO_IMAGE_COUNT));
+  };
+
+  const handleTextToImageGenerate = async () => {
+    if (!hasApiAccess) {
+        handleApiError(new Error(isKeyLocked ? "KEY_LOCKED" : "NO_API_KEY"));
+        setIsApiKeyModalOpen(true);
+        return;
+    }
+
+    const prompt = textPrompt.trim();
+    if (!prompt) {
+        setError("Vui lòng nhập mô tả cho ảnh bạn muốn tạo.");
+        return;
+    }
+
+    setIsTextGenerating(true);
+    setError(null);
+    setGeneratedImage(null, 'textToImage');
+    setTextResults([]);
+    setTextProgress(0);
+
+    let progressValue = 0;
+    textProgressInterval.current = window.setInterval(() => {
+        progressValue += Math.random() * 2 + 1;
+        if (progressValue >= 95) {
+            if(textProgressInterval.current) clearInterval(textProgressInterval.current);
+            progressValue = 95;
         }
-      }
-    };
+        setTextProgress(Math.round(progressValue));
+    }, 250);
 
+    const signal = beginCancellable('textToImage');
     try {
-        const workers = Array(CONCURRENCY_LIMIT).fill(0).map(worker);
-        await Promise.all(workers);
+        const results = await generateImageFromText(prompt, userApiKey, {
+            numberOfImages: textImageCount,
+            aspectRatio: textAspectRatio,
+            signal,
+        });
+        results.forEach(imageUrl => recordHistory(imageUrl, {
+            mode: 'textToImage',
+            styleId: null,
+            prompt,
+            model: TEXT_TO_IMAGE_MODEL,
+            enhancements: [],
+        }));
+        if(textProgressInterval.current) clearInterval(textProgressInterval.current);
+        setTextProgress(100);
+        setTimeout(() => {
+            setTextResults(results);
+            // A single result goes straight to the result view, like single mode.
+            if (results.length === 1) {
+                setGeneratedImage(results[0], 'textToImage');
+            }
+            setIsTextGenerating(false);
+        }, 500);
     } catch (err) {
-       const translatedError = translateApiError(err);
-       setError(`Đã xảy ra lỗi trong quá trình xử lý hàng loạt: ${translatedError}`);
+        if(textProgressInterval.current) clearInterval(textProgressInterval.current);
+        if (!isCancelledError(err)) {
+            handleApiError(err);
+        }
+        setTextProgress(0);
+        setIsTextGenerating(false);
     } finally {
-        setIsStressTesting(false);
-        setStressTestStage('idle');
+        endCancellable('textToImage', signal);
     }
   };
 
-  const openStressTestImagePreview = (imageUrl: string) => {
-    setGeneratedImage(imageUrl);
+  const handleSelectTextResult = (imageUrl: string) => {
+    setGeneratedImage(imageUrl, 'textToImage');
+    setError(null);
+  };
+
+  const handleGoBackToTextResults = () => {
+    handleGoBackToEditing();
+    // With only one result there is no grid to return to, so go back to the prompt editor.
+    if (textResults.length <= 1) {
+        setTextResults([]);
+    }
+  };
+
+  const resetTextToImageState = () => {
+    handleGoBackToEditing();
+    setTextResults([]);
+    setTextProgress(0);
+  };
+
+  // History Gallery Functions
+  const handleOpenHistoryEntry = async (entry: HistoryEntry) => {
+    const imageUrl = await blobToDataUrl(entry.image);
+    historyMeta.current.set(imageUrl, {
+        mode: entry.mode,
+        styleId: entry.styleId,
+        styleName: entry.styleName,
+        prompt: entry.prompt,
+        model: entry.model,
+        enhancements: entry.enhancements,
+        createdAt: entry.createdAt,
+    });
+    setIsHistoryOpen(false);
+    // Only thumbnails of the uploads are kept in history, so refinements start without references.
+    setVersions(createVersionTree(imageUrl, 'Mở từ lịch sử'));
+    setActiveVersionId(1);
+    setRefinementReferences([]);
+    // The entry gets a fresh version tree, which only single mode shows.
+    setGeneratedImage(imageUrl, 'single');
+    setMode('single');
     openPreview();
   };
 
-  const handleStressTestDownloadAll = () => {
-      const successfulImages = stressTestResults
-          .filter(r => r.status === 'success' && r.imageUrl)
-          .map(r => r.imageUrl!);
+  const handleExport = (options: ExportOptions) => {
+    const target = exportTarget;
+    setExportOptions(options);
+    saveExportOptions(options);
+    setExportTarget(null);
+    if (!target) return;
 
-      if (successfulImages.length === 0) {
-          alert("Không có ảnh nào để tải về.");
-          return;
+    if (target.kind === 'batch') {
+      handleDownloadAll(options);
+      return;
+    }
+    fetch(target.url)
+      .then(res => res.blob())
+      .then(image => saveImage(image, historyMeta.current.get(target.url), options))
+      .catch(err => {
+        console.error("Failed to export image:", err);
+        setError("Không thể chuyển đổi ảnh. Vui lòng thử định dạng khác.");
+      });
+  };
+
+  const handleDownloadHistoryEntry = (entry: HistoryEntry) => {
+    saveImage(entry.image, entry).catch(err => console.error("Failed to download image:", err));
+  };
+
+  // Restoring settings from downloaded images
+  const requestRestore = (target: RestoreTarget) => (metadata: GenerationMetadata) => {
+    setRestoreRequest({ target, metadata });
+  };
+
+  const applyRestoredSettings = () => {
+    if (!restoreRequest) return;
+    const { target, metadata } = restoreRequest;
+    setRestoreRequest(null);
+
+    const style = metadata.styleId ? allStyles.find(s => s.id === metadata.styleId) : undefined;
+    const values = style ? matchTemplateValues(style, metadata.prompt) : null;
+    // Values are applied directly when the style is already selected, otherwise
+    // once the style-change effect runs.
+    const restoreValues = (current: Style | undefined, setValues: (values: PromptVariableValues) => void) => {
+      if (!style || !values) return;
+      if (current?.id === style.id) {
+        setValues(values);
+      } else {
+        pendingVariableValues.current[target] = values;
       }
+    };
 
-      successfulImages.forEach((url, index) => {
-          setTimeout(() => {
-              handleDownload(url);
-          }, index * 300);
-      });
+    if (target === 'batch') {
+      if (!style) {
+        setError("Style của ảnh này không còn trong thư viện nên không thể khôi phục ở chế độ hàng loạt.");
+        return;
+      }
+      restoreValues(batchStyle, setBatchVariableValues);
+      if (style.id !== batchStyleId) handleBatchStyleChange(style.id);
+      return;
+    }
+
+    if (target === 'single') {
+      if (style && values) {
+        restoreValues(selectedStyle, setSingleVariableValues);
+        setCustomPromptVisible(false);
+        setSelectedStyleId(style.id);
+      } else {
+        setCustomPrompt(metadata.prompt);
+        setCustomPromptVisible(true);
+        setSelectedStyleId(null);
+      }
+      return;
+    }
+
+    if (style && values) {
+      restoreValues(stressTestStyle, setStressTestVariableValues);
+      setStressTestCustomPromptVisible(false);
+      setStressTestStyleId(style.id);
+    } else {
+      setStressTestPrompt(metadata.prompt);
+      setStressTestCustomPromptVisible(true);
+      setStressTestStyleId(null);
+    }
   };
 
   // Zoom/Pan Preview Modal Logic
@@ -876,15 +1971,65 @@ const App: React.FC = () => {
     lastPosition.current = null;
   }, []);
 
-  const openPreview = useCallback(() => {
+  const openPreview = useCallback((target: PreviewTarget | null = null) => {
     resetZoom();
+    setPreviewTarget(target);
     setIsPreviewOpen(true);
   }, [resetZoom]);
 
+  // Ctrl+V anywhere on the page drops pasted images into the first empty slots of the visible uploaders.
+  // Pastes into a focused slot or a text field are handled there instead.
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      if (event.defaultPrevented) return;
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('input, textarea, [contenteditable="true"]')) return;
+      const files: File[] = Array.from(event.clipboardData?.files ?? []);
+      const imageFiles = files.filter(file => file.type.startsWith('image/'));
+      if (imageFiles.length === 0) return;
+
+      if (mode === 'single' && !generatedImage && !isLoading) {
+        handleSingleFilesAdded(imageFiles);
+      } else if (mode === 'batch' && batchResults.length === 0 && !isBatchLoading) {
+        handleBatchFilesAdded(imageFiles);
+      } else if (mode === 'stressTest' && !isStressTesting) {
+        handleStressTestFilesAdded(imageFiles);
+      } else {
+        return;
+      }
+      event.preventDefault();
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [mode, generatedImage, isLoading, batchResults.length, isBatchLoading, isStressTesting, singleInputs, batchInputs, stressTestInputs]);
+
   const closePreview = useCallback(() => {
     setIsPreviewOpen(false);
   }, []);
 
+  const previewUrl = previewTarget?.imageUrl ?? generatedImage;
+
+  // Before/after sources for the preview: the version this result was made from, then the uploaded photos.
+  // Only single-mode results and batch/stress items know their uploads; text-to-image has nothing to compare.
+  const previewInputs = previewTarget ? previewTarget.inputs : mode === 'single' ? refinementReferences : NO_INPUTS;
+  const referenceUrls = useMemo(() => previewInputs.map(file => URL.createObjectURL(file)), [previewInputs]);
+  useEffect(() => () => referenceUrls.forEach(url => URL.revokeObjectURL(url)), [referenceUrls]);
+
+  const compareSources = useMemo(() => {
+    const sources: { id: string; label: string; url: string }[] = [];
+    const active = previewTarget || mode !== 'single' ? undefined : findVersion(versions, activeVersionId);
+    const parent = active && active.imageUrl === generatedImage ? findVersion(versions, active.parentId) : undefined;
+    if (active && parent) {
+      sources.push({ id: `version-${parent.id}`, label: `v${parent.id} (trước "${active.operation}")`, url: parent.imageUrl });
+    }
+    referenceUrls.forEach((url, index) => {
+      sources.push({ id: `input-${index}`, label: referenceUrls.length > 1 ? `Ảnh tải lên ${index + 1}` : 'Ảnh tải lên', url });
+    });
+    return sources;
+  }, [previewTarget, mode, versions, activeVersionId, generatedImage, referenceUrls]);
+
+  const compareSource = compareSources.find(source => source.id === compareSourceId) ?? compareSources[0] ?? null;
+
   const applyZoomBoundaries = (state: { scale: number; x: number; y: number }) => {
     const { scale, x, y } = state;
 
@@ -896,7 +2041,8 @@ const App: React.FC = () => {
     const container = containerRef.current;
     if (!image || !container) return state;
 
-    const containerRect = container.getBoundingClientRect();
+    // Side-by-side compare gives each image half the container, so bound against the image's own frame.
+    const containerRect = (image.parentElement ?? container).getBoundingClientRect();
     const imageWidth = image.clientWidth * scale;
     const imageHeight = image.clientHeight * scale;
 
@@ -989,27 +2135,233 @@ const App: React.FC = () => {
     lastPosition.current = null;
   };
   
-  const handleSaveApiKey = async (apiKeyToValidate: string) => {
+  const updateKeyProfiles = useCallback((update: (profiles: KeyProfile[]) => KeyProfile[]): KeyProfile[] => {
+    const profiles = update(keyProfilesRef.current);
+    keyProfilesRef.current = profiles;
+    setKeyProfiles(profiles);
+    saveProfileStats(profiles);
+    return profiles;
+  }, []);
+
+  const updateKeyProfile = useCallback((id: string, changes: Partial<KeyProfile>) => {
+    updateKeyProfiles(profiles => profiles.map(profile => profile.id === id ? { ...profile, ...changes } : profile));
+  }, [updateKeyProfiles]);
+
+  const selectKeyProfile = useCallback((id: string | null) => {
+    activeProfileIdRef.current = id;
+    setActiveProfileId(id);
+    saveActiveProfileId(id);
+  }, []);
+
+  /** Re-encrypts names and keys after a change, or clears storage for session-only keys. */
+  const persistKeyVault = async (profiles: KeyProfile[]) => {
+    if (!vaultKey.current || profiles.length === 0) {
+      clearStoredKey();
+      setEncryptedKey(null);
+      vaultKey.current = profiles.length === 0 ? null : vaultKey.current;
+      return;
+    }
+    const secret = await sealSecret(serializeProfiles(profiles), vaultKey.current);
+    saveEncryptedKey(secret);
+    setEncryptedKey(secret);
+  };
+
+  const handleAddKeyProfile = async (name: string, apiKeyToValidate: string, storage: KeyStorage | null): Promise<boolean> => {
     setIsVerifyingApiKey(true);
     setApiKeyError(null);
     const result = await validateApiKey(apiKeyToValidate);
 
-    if (result.success) {
-      localStorage.setItem('userApiKey', apiKeyToValidate);
-      setUserApiKey(apiKeyToValidate);
-      setError(null); // Clear main application error
+    if (!result.success) {
+      setIsVerifyingApiKey(false);
+      setApiKeyError(translateApiError(new Error(result.error || 'API Key không hợp lệ.')));
+      return false;
+    }
+
+    const profile = createProfile(name.trim() || `Key ${keyProfilesRef.current.length + 1}`, apiKeyToValidate.trim(), { status: 'valid', checkedAt: Date.now() });
+    if (storage?.kind === 'encrypted') {
+      vaultKey.current = await createVaultKey(storage.passphrase);
+    } else if (storage?.kind === 'session') {
+      vaultKey.current = null;
+    }
+    // Adding while locked replaces the stored keys, as the form warns.
+    const profiles = updateKeyProfiles(previous => isKeyLocked ? [profile] : [...previous, profile]);
+    await persistKeyVault(profiles);
+    if (profiles.length === 1 || !keyProfilesRef.current.some(p => p.id === activeProfileIdRef.current)) {
+      selectKeyProfile(profile.id);
+    }
+
+    lastActivityAt.current = Date.now();
+    setApiKeyNotice(null);
+    setError(null); // Clear main application error
+    setIsVerifyingApiKey(false);
+    if (profiles.length === 1) {
       setIsApiKeyModalOpen(false);
+    }
+    return true;
+  };
+
+  const handleProtectKeyProfiles = async (passphrase: string) => {
+    setIsVerifyingApiKey(true);
+    try {
+      vaultKey.current = await createVaultKey(passphrase);
+      // Saving the encrypted copy also removes a plain-text key left by older versions.
+      await persistKeyVault(keyProfilesRef.current);
+      setApiKeyNotice(null);
+      lastActivityAt.current = Date.now();
+    } finally {
       setIsVerifyingApiKey(false);
-    } else {
+    }
+  };
+
+  const handleRemoveKeyProfile = async (id: string) => {
+    const profiles = updateKeyProfiles(previous => previous.filter(profile => profile.id !== id));
+    await persistKeyVault(profiles);
+    if (activeProfileIdRef.current === id) {
+      selectKeyProfile(profiles[0]?.id ?? null);
+    }
+    if (profiles.length === 0) {
+      clearProfileStats();
+    }
+  };
+
+  const handleCheckKeyProfile = async (id: string) => {
+    const profile = keyProfilesRef.current.find(p => p.id === id);
+    if (!profile) return;
+    const result = await validateApiKey(profile.apiKey);
+    const error = new Error(result.error || '');
+    updateKeyProfile(id, result.success
+      ? { status: 'valid', statusMessage: undefined, checkedAt: Date.now(), exhaustedUntil: null }
+      : {
+          status: isQuotaExhaustedError(error) ? 'exhausted' : 'invalid',
+          statusMessage: translateApiError(error).split('\n\n')[0],
+          checkedAt: Date.now(),
+        });
+  };
+
+  const handleUnlockApiKey = async (passphrase: string) => {
+    if (!encryptedKey) return;
+    setIsVerifyingApiKey(true);
+    setApiKeyError(null);
+    try {
+      const { plaintext, vaultKey: unlockedKey } = await openSecret(encryptedKey, passphrase);
+      vaultKey.current = unlockedKey;
+      const profiles = updateKeyProfiles(() => parseProfiles(plaintext));
+      if (!plaintext.trim().startsWith('[')) {
+        // Vaults from before profiles held one bare key; store it in the new format.
+        await persistKeyVault(profiles);
+      }
+      const savedActiveId = loadActiveProfileId();
+      selectKeyProfile(profiles.some(p => p.id === savedActiveId) ? savedActiveId : profiles[0]?.id ?? null);
+      lastActivityAt.current = Date.now();
+      setError(null);
+      setIsApiKeyModalOpen(false);
+    } catch (err) {
+      setApiKeyError(err instanceof Error && err.message === 'WRONG_PASSPHRASE' ? 'Mật khẩu không đúng. Vui lòng thử lại.' : translateApiError(err));
+    } finally {
       setIsVerifyingApiKey(false);
-      setApiKeyError(translateApiError(new Error(result.error || 'API Key không hợp lệ.')));
     }
   };
 
-  const handleDeleteApiKey = () => {
-    localStorage.removeItem('userApiKey');
-    setUserApiKey(null);
-    setApiKeyError(null);
+  /** Forgets the decrypted keys; the encrypted copy stays for the next unlock. */
+  const handleLockApiKey = useCallback(() => {
+    vaultKey.current = null;
+    keyProfilesRef.current = [];
+    setKeyProfiles([]);
+    setKeyRotationMessage(null);
+    setApiKeyError(null);
+  }, []);
+
+  const handleDeleteApiKey = () => {
+    clearStoredKey();
+    clearProfileStats();
+    setEncryptedKey(null);
+    vaultKey.current = null;
+    keyProfilesRef.current = [];
+    setKeyProfiles([]);
+    selectKeyProfile(null);
+    setKeyRotationMessage(null);
+    setApiKeyNotice(null);
+    setApiKeyError(null);
+    setError(null);
+  };
+
+  // Local usage counter per key.
+  useEffect(() => {
+    setKeyUsageListener(apiKey => {
+      if (!keyProfilesRef.current.some(profile => profile.apiKey === apiKey)) return;
+      updateKeyProfiles(profiles => profiles.map(profile => profile.apiKey === apiKey ? { ...profile, usageCount: profile.usageCount + 1 } : profile));
+    });
+    return () => setKeyUsageListener(null);
+  }, [updateKeyProfiles]);
+
+  /**
+   * Runs one batch or stress request with the active key. When the key runs out
+   * of quota and another healthy key exists, the key is benched for a while and
+   * the request is retried with the next one, which also becomes the active key.
+   */
+  const runWithKeyRotation = async <T,>(request: (apiKey: string | null, failFastOnQuota: boolean) => Promise<T>): Promise<T> => {
+    if (useProxy) return request(null, false);
+    const tried = new Set<string>();
+    for (;;) {
+      const profiles = keyProfilesRef.current;
+      const profile = profiles.find(p => p.id === activeProfileIdRef.current) ?? profiles[0];
+      if (!profile) return request(null, false);
+      tried.add(profile.id);
+      const canRotate = findNextHealthyProfile(profiles, profile.id, tried) !== null;
+      try {
+        const result = await request(profile.apiKey, canRotate);
+        if (profile.status === 'exhausted') {
+          updateKeyProfile(profile.id, { status: 'valid', statusMessage: undefined, exhaustedUntil: null });
+        }
+        return result;
+      } catch (err) {
+        if (!isQuotaExhaustedError(err) || isCancelledError(err)) throw err;
+        updateKeyProfile(profile.id, { status: 'exhausted', statusMessage: err instanceof Error ? err.message : String(err), exhaustedUntil: Date.now() + EXHAUSTED_COOLDOWN_MS });
+        if (!canRotate) throw err;
+        // Another job may already have moved on; only rotate if this key is still the active one.
+        if (activeProfileIdRef.current === profile.id) {
+          const next = findNextHealthyProfile(keyProfilesRef.current, profile.id, tried);
+          if (!next) throw err;
+          selectKeyProfile(next.id);
+          setKeyRotationMessage(`"${profile.name}" đã hết hạn ngạch, đã chuyển sang "${next.name}".`);
+        }
+      }
+    }
+  };
+
+  const handleLockMinutesChange = (minutes: number) => {
+    setApiKeyLockMinutes(minutes);
+    saveLockMinutes(minutes);
+  };
+
+  // Inactivity lock for shared machines. Running work counts as activity so a
+  // long batch isn't cut off halfway. Only encrypted keys are locked: session
+  // keys have no stored copy to unlock, so locking them would delete them.
+  const isWorkingRef = useRef(false);
+  isWorkingRef.current = isLoading || isEnhancing || isBatchLoading || isStressTesting || isTextGenerating;
+  const canAutoLock = !!userApiKey && !!encryptedKey;
+  useEffect(() => {
+    if (!canAutoLock) return;
+    const markActive = () => { lastActivityAt.current = Date.now(); };
+    const activityEvents = ['pointerdown', 'keydown', 'wheel', 'touchstart'];
+    activityEvents.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+    markActive();
+    const timer = window.setInterval(() => {
+      if (isWorkingRef.current) {
+        markActive();
+      } else if (Date.now() - lastActivityAt.current >= apiKeyLockMinutes * 60_000) {
+        handleLockApiKey();
+      }
+    }, 15_000);
+    return () => {
+      activityEvents.forEach(event => window.removeEventListener(event, markActive));
+      clearInterval(timer);
+    };
+  }, [canAutoLock, userApiKey, apiKeyLockMinutes, handleLockApiKey]);
+
+  const handleUseProxyChange = (enabled: boolean) => {
+    setProxyEnabled(enabled);
+    setUseProxy(enabled);
     setError(null);
   };
 
@@ -1018,23 +2370,28 @@ const App: React.FC = () => {
     setIsApiKeyModalOpen(true);
   }
 
-  const LoadingState = () => (
+  const LoadingState = ({ value = progress, onCancel }: { value?: number; onCancel?: () => void }) => (
     <div className="flex flex-col items-center justify-center space-y-4 w-full max-w-md">
         <p className="text-olive dark:text-light-olive text-lg">Đang tạo ảnh, vui lòng chờ...</p>
         <div className="w-full bg-dark-olive/10 dark:bg-cream/10 rounded-full h-4">
             <div
                 className="bg-olive h-4 rounded-full transition-all duration-300 ease-linear"
-                style={{ width: `${progress}%` }}
+                style={{ width: `${value}%` }}
             ></div>
         </div>
-        <p className="text-2xl font-bold text-dark-olive dark:text-cream">{progress}%</p>
+        <p className="text-2xl font-bold text-dark-olive dark:text-cream">{value}%</p>
         <p className="text-dark-olive/70 dark:text-cream/70 text-center text-sm mt-2">Quá trình này có thể mất một chút thời gian. Cảm ơn bạn đã kiên nhẫn!</p>
+        {onCancel && (
+            <button onClick={onCancel} className={secondaryButtonClasses}>
+                Hủy
+            </button>
+        )}
     </div>
   );
 
   const Tabs = () => (
     <div className="flex justify-center mb-8 flex-wrap">
-      <div className="flex p-1 bg-dark-olive/10 dark:bg-olive/20 rounded-full">
+      <div className="flex flex-wrap justify-center p-1 bg-dark-olive/10 dark:bg-olive/20 rounded-3xl sm:rounded-full">
         <button 
           onClick={() => setMode('single')}
           className={`px-4 sm:px-6 py-2 rounded-full transition-colors duration-300 text-sm sm:text-base ${mode === 'single' ? 'bg-olive text-cream shadow' : 'text-dark-olive/70 dark:text-cream/70 hover:bg-dark-olive/5 dark:hover:bg-olive/10'}`}
@@ -1053,6 +2410,12 @@ const App: React.FC = () => {
         >
           Tạo nhiều biến thể
         </button>
+        <button 
+          onClick={() => setMode('textToImage')}
+          className={`px-4 sm:px-6 py-2 rounded-full transition-colors duration-300 text-sm sm:text-base ${mode === 'textToImage' ? 'bg-olive text-cream shadow' : 'text-dark-olive/70 dark:text-cream/70 hover:bg-dark-olive/5 dark:hover:bg-olive/10'}`}
+        >
+          Tạo từ mô tả
+        </button>
       </div>
     </div>
   );
@@ -1060,9 +2423,189 @@ const App: React.FC = () => {
   const primaryButtonClasses = "w-full max-w-xs bg-gradient-to-r from-olive to-light-olive text-cream font-bold py-3 px-8 rounded-full shadow-lg hover:shadow-xl transform hover:scale-105 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed";
   const secondaryButtonClasses = "w-full max-w-xs bg-dark-olive/10 dark:bg-olive/20 hover:bg-dark-olive/20 dark:hover:bg-olive/30 font-semibold py-3 px-6 rounded-full shadow-md hover:shadow-lg transform hover:scale-105 transition-all duration-300 disabled:opacity-50";
 
+  const renderResultPanel = (imageUrl: string, onBack: () => void, onReset: () => void) => (
+    <div className="mt-8 text-center animate-fade-in">
+      <h2 className="text-2xl font-bold mb-4">Kết quả của bạn!</h2>
+      <div className="relative inline-block">
+        <img
+          src={imageUrl}
+          alt="Generated Trend"
+          className="rounded-lg shadow-2xl mx-auto cursor-pointer max-w-full"
+          onClick={() => openPreview()}
+        />
+        {isEnhancing && (
+          <div className="absolute inset-0 bg-black bg-opacity-75 flex flex-col items-center justify-center rounded-lg pointer-events-none">
+              <div className="relative w-24 h-24">
+                  <svg className="w-full h-full" viewBox="0 0 100 100">
+                      <circle className="text-dark-olive/20 dark:text-cream/20" strokeWidth="10" stroke="currentColor" fill="transparent" r="45" cx="50" cy="50" />
+                      <circle
+                          className="text-olive dark:text-light-olive"
+                          strokeWidth="10"
+                          strokeDasharray={2 * Math.PI * 45}
+                          strokeDashoffset={2 * Math.PI * 45 * (1 - enhancementProgress / 100)}
+                          strokeLinecap="round"
+                          stroke="currentColor"
+                          fill="transparent"
+                          r="45"
+                          cx="50"
+                          cy="50"
+                          style={{ transform: 'rotate(-90deg)', transformOrigin: '50% 50%', transition: 'stroke-dashoffset 0.3s ease' }}
+                      />
+                  </svg>
+                  <span className="absolute inset-0 flex items-center justify-center text-xl font-bold text-cream">
+                      {enhancementProgress}%
+                  </span>
+              </div>
+              <p className="text-cream mt-4 font-semibold">{enhancementLabel}</p>
+              <button
+                  onClick={() => cancelOperation('enhance')}
+                  className="mt-3 px-5 py-1.5 rounded-full bg-white/20 hover:bg-white/30 text-cream text-sm font-semibold transition-colors pointer-events-auto"
+              >
+                  Hủy
+              </button>
+          </div>
+        )}
+      </div>
+      
+      <div className="mt-6 flex flex-col items-center space-y-3">
+        {!isEnhancing && (
+          <div className="w-full max-w-xs p-4 bg-dark-olive/5 dark:bg-olive/20 rounded-lg">
+              <h3 className="text-md font-semibold text-dark-olive/90 dark:text-cream/90 mb-1">Nâng cấp chất lượng ảnh</h3>
+              {generatedImageSize && (
+                  <p className="text-xs text-dark-olive/70 dark:text-cream/70 mb-3">Hiện tại: {formatResolution(generatedImageSize)} px</p>
+              )}
+              <div className="flex justify-center gap-1 mb-3 text-xs">
+                  {([['ai', 'AI + phóng to'], ['local', 'Chỉ phóng to']] as [EnhanceMethod, string][]).map(([value, label]) => (
+                      <button
+                          key={value}
+                          onClick={() => handleEnhanceMethodChange(value)}
+                          className={`px-3 py-1 rounded-full font-semibold transition-colors ${enhanceMethod === value ? 'bg-olive text-cream' : 'bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30'}`}
+                          title={value === 'ai' ? 'Mô hình AI làm nét, sau đó phóng to đúng kích thước' : 'Phóng to Lanczos ngay trên trình duyệt, không gọi API'}
+                      >
+                          {label}
+                      </button>
+                  ))}
+              </div>
+              <div className="flex justify-center gap-2">
+                  {(Object.keys(UPSCALE_TARGETS) as EnhanceQuality[]).map(quality => {
+                      const canUpscale = !generatedImageSize || isUpscaleTarget(generatedImageSize, quality);
+                      return (
+                          <button
+                              key={quality}
+                              onClick={() => handleEnhance(quality)}
+                              title={canUpscale ? `Cạnh dài ${UPSCALE_TARGETS[quality]}px` : `Ảnh đã lớn hơn hoặc bằng ${quality}`}
+                              className="bg-transparent border border-olive/50 text-olive hover:bg-olive hover:text-cream font-semibold py-2 px-3 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                              disabled={isEnhancing || !canUpscale}
+                          >
+                              {quality}
+                          </button>
+                      );
+                  })}
+              </div>
+              {generatedImage && enhancementReports.current.has(generatedImage) && (() => {
+                  const report = enhancementReports.current.get(generatedImage)!;
+                  return (
+                      <p className="mt-3 text-xs text-dark-olive/70 dark:text-cream/70">
+                          {report.quality}: {formatResolution(report.input)}
+                          {report.model && <> → AI {formatResolution(report.model)}</>}
+                          {' '}→ {formatResolution(report.output)} px
+                      </p>
+                  );
+              })()}
+              <button onClick={openMaskEditor} className="mt-3 w-full flex justify-center items-center gap-2 bg-transparent border border-olive/50 text-olive hover:bg-olive hover:text-cream font-semibold py-2 px-3 rounded-md transition-colors">
+                  <MagicWandIcon className="w-4 h-4" />
+                  Sửa một vùng
+              </button>
+          </div>
+        )}
+
+        {mode === 'single' && versions.length > 0 && (
+          <>
+            <VersionHistory
+              versions={versions}
+              activeId={activeVersionId}
+              onSelect={handleSelectVersion}
+              onUndo={handleUndoVersion}
+              onRedo={handleRedoVersion}
+              canUndo={canUndoVersion}
+              canRedo={canRedoVersion}
+              onDownload={(version) => handleDownload(version.imageUrl)}
+              onCompare={(first, second) => setComparePair([first, second])}
+              disabled={isEnhancing}
+            />
+            <RefinementPanel
+              versions={versions}
+              activeId={activeVersionId}
+              onSubmit={handleRefine}
+              disabled={isEnhancing}
+            />
+          </>
+        )}
+
+        <div className="flex items-center space-x-2 w-full max-w-xs">
+              <button
+                  onClick={handleDownloadWithAffiliate}
+                  className={`flex-grow ${primaryButtonClasses}`}
+                  disabled={isEnhancing}
+              >
+                  Tải Về
+              </button>
+              <button
+                  onClick={() => handleDownload()}
+                  className="p-3 bg-olive/80 hover:bg-olive text-cream rounded-full shadow-lg transform hover:scale-105 transition-all duration-300 disabled:opacity-50"
+                  aria-label="Tải ảnh về"
+                  disabled={isEnhancing}
+              >
+                  <DownloadIcon className="w-6 h-6" />
+              </button>
+              <button
+                  onClick={() => setExportTarget({ kind: 'image', url: imageUrl })}
+                  className="p-3 bg-olive/80 hover:bg-olive text-cream rounded-full shadow-lg transform hover:scale-105 transition-all duration-300 disabled:opacity-50"
+                  aria-label="Tùy chọn tải về"
+                  disabled={isEnhancing}
+              >
+                  <SlidersIcon className="w-6 h-6" />
+              </button>
+          </div>
+        <button
+          onClick={handleUseThisImage}
+          className={secondaryButtonClasses}
+          disabled={isEnhancing}
+        >
+          Dùng ảnh này tạo tiếp
+        </button>
+        <button
+          onClick={onBack}
+          className={secondaryButtonClasses}
+          disabled={isEnhancing}
+        >
+          Quay lại
+        </button>
+        <button
+          onClick={onReset}
+          className={secondaryButtonClasses}
+          disabled={isEnhancing}
+        >
+          Tạo ảnh khác
+        </button>
+      </div>
+    </div>
+  );
+
   const ApiKeyStatus = () => {
-      if (userApiKey) {
-        return <p className="text-green-700 dark:text-green-400 mt-2 text-xs font-semibold">Đang sử dụng Key cá nhân của bạn</p>
+      if (useProxy) {
+        return <p className="text-green-700 dark:text-green-400 mt-2 text-xs font-semibold">Đang sử dụng máy chủ proxy</p>
+      }
+      if (activeProfile) {
+        return (
+          <>
+            <p className="text-green-700 dark:text-green-400 mt-2 text-xs font-semibold">Đang sử dụng Key cá nhân "{activeProfile.name}"</p>
+            {keyRotationMessage && <p className="text-yellow-600 dark:text-yellow-400 text-xs">{keyRotationMessage}</p>}
+          </>
+        );
+      }
+      if (isKeyLocked) {
+        return <p className="text-yellow-600 dark:text-yellow-400 mt-2 text-xs font-semibold">API Key đã khóa, mở phần Cài đặt để nhập mật khẩu</p>
       }
       return <p className="text-yellow-600 dark:text-yellow-400 mt-2 text-xs font-semibold">Vui lòng cung cấp API Key để sử dụng</p>
   }
@@ -1077,15 +2620,32 @@ const App: React.FC = () => {
           aria-label="Cài đặt API Key"
         >
             <GearIcon className="w-6 h-6" />
-            {userApiKey && (
-              <span className="absolute top-0 right-0 block h-3 w-3 rounded-full bg-green-500 ring-2 ring-cream dark:ring-dark-olive" title="API Key cá nhân đang hoạt động"></span>
+            {hasApiAccess && (
+              <span className="absolute top-0 right-0 block h-3 w-3 rounded-full bg-green-500 ring-2 ring-cream dark:ring-dark-olive" title={useProxy ? "Đang dùng máy chủ proxy" : "API Key cá nhân đang hoạt động"}></span>
+            )}
+            {!hasApiAccess && isKeyLocked && (
+              <span className="absolute top-0 right-0 block h-3 w-3 rounded-full bg-yellow-500 ring-2 ring-cream dark:ring-dark-olive" title="API Key đang bị khóa"></span>
             )}
         </button>
+        <button
+          onClick={() => setIsHistoryOpen(true)}
+          className="p-2 rounded-full bg-olive/20 dark:bg-cream/20 text-dark-olive dark:text-cream hover:bg-olive/30 dark:hover:bg-cream/30 transition-colors"
+          aria-label="Lịch sử tạo ảnh"
+        >
+            <HistoryIcon className="w-6 h-6" />
+        </button>
+        <button
+          onClick={() => setIsUsageOpen(true)}
+          className="p-2 rounded-full bg-olive/20 dark:bg-cream/20 text-dark-olive dark:text-cream hover:bg-olive/30 dark:hover:bg-cream/30 transition-colors"
+          aria-label="Thống kê sử dụng"
+        >
+            <ChartIcon className="w-6 h-6" />
+        </button>
       </div>
       
       <main className="w-full max-w-2xl mx-auto">
         <div className="w-full text-center p-2 mb-8 bg-blue-400 dark:bg-blue-600 text-blue-900 dark:text-white rounded-lg text-sm font-semibold shadow">
-            Trạng thái: v2.1 (Client-side API)
+            Trạng thái: v2.1 ({useProxy ? 'Server proxy' : 'Client-side API'})
         </div>
         <header className="text-center mb-8">
           <h1 className="text-4xl sm:text-5xl font-extrabold tracking-tight text-transparent bg-clip-text bg-gradient-to-r from-olive to-dark-olive dark:from-light-olive dark:to-cream">
@@ -1106,8 +2666,10 @@ const App: React.FC = () => {
                       {images.map((imageFile, index) => (
                           <ImageUploader
                               key={index}
-                              label={`Ảnh ${index + 1}`}
+                              label={getSlotLabel(singleInputs, index)}
                               onImageChange={(file) => handleImageChange(file, index)}
+                              onFilesAdded={(files) => handleSingleFilesAdded(files, index)}
+                              onMetadataFound={requestRestore('single')}
                               onRemove={() => removeImage(index)}
                               initialFile={imageFile}
                           />
@@ -1120,40 +2682,56 @@ const App: React.FC = () => {
                         onClick={removeLastSingleSlot}
                         className="py-2 px-6 flex justify-center items-center bg-dark-olive/10 dark:bg-olive/20 rounded-full cursor-pointer hover:bg-dark-olive/20 dark:hover:bg-olive/30 transition-colors duration-300 text-dark-olive dark:text-cream disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-dark-olive/10 dark:disabled:hover:bg-olive/20"
                         aria-label="Bớt ô tải ảnh"
-                        disabled={images.length <= 1}
+                        disabled={images.length <= singleInputs.slots.length}
                     >
                         <MinusIcon className="w-6 h-6" />
                     </button>
                     <button
                         onClick={addImageSlot}
-                        className="py-2 px-6 flex justify-center items-center bg-dark-olive/10 dark:bg-olive/20 rounded-full cursor-pointer hover:bg-dark-olive/20 dark:hover:bg-olive/30 transition-colors duration-300 text-dark-olive dark:text-cream"
+                        disabled={!singleInputs.allowExtra}
+                        className="py-2 px-6 flex justify-center items-center bg-dark-olive/10 dark:bg-olive/20 rounded-full cursor-pointer hover:bg-dark-olive/20 dark:hover:bg-olive/30 transition-colors duration-300 text-dark-olive dark:text-cream disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-dark-olive/10 dark:disabled:hover:bg-olive/20"
                         aria-label="Thêm ảnh"
                     >
                         <PlusIcon className="w-6 h-6" />
                     </button>
                 </div>
 
+                <PreprocessSummary images={images} options={preprocessOptions} onOptionsChange={handlePreprocessOptionsChange} />
+
                 <div>
                   <h2 className="text-lg font-semibold text-dark-olive/90 dark:text-cream/90 mb-3">Chọn style</h2>
                   <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
-                    {STYLES.map((style: Style) => (
+                    {allStyles.map((style: Style) => (
                       <button
                         key={style.id}
                         onClick={() => handleStyleSelect(style.id)}
                         className={`p-4 rounded-lg text-left transition-all duration-200 ${selectedStyleId === style.id ? 'bg-olive text-cream ring-2 ring-olive/70' : 'bg-dark-olive/5 dark:bg-olive/20 hover:bg-dark-olive/10 dark:hover:bg-olive/30'}`}
                       >
                         <span className="font-bold">{style.name}</span>
+                        {style.isCustom && <span className="block text-xs opacity-70 mt-1">Style của bạn</span>}
                       </button>
                     ))}
                   </div>
+                  <button onClick={() => openStyleManager()} className="mt-3 text-sm font-semibold text-olive dark:text-light-olive hover:underline">
+                    Quản lý style của bạn
+                  </button>
                 </div>
 
+                {selectedStyle?.variables && (
+                  <PromptVariablesForm
+                    variables={selectedStyle.variables}
+                    values={singleVariableValues}
+                    onChange={setSingleVariableValues}
+                  />
+                )}
+
                 <div className="w-full">
                     <button onClick={toggleCustomPrompt} className={`w-full flex justify-center items-center space-x-2 p-3 rounded-lg transition-colors duration-300 ${isCustomPromptVisible ? 'bg-olive text-cream ring-2 ring-olive/70' : 'bg-dark-olive/10 dark:bg-olive/20 hover:bg-dark-olive/20 dark:hover:bg-olive/30'}`}>
                         <PlusIcon className={`w-5 h-5 transition-transform duration-300 ${isCustomPromptVisible ? 'rotate-45' : ''}`}/>
                         <span>Lệnh tùy chỉnh</span>
                     </button>
                     {isCustomPromptVisible && (
+                        <>
                         <textarea
                             value={customPrompt}
                             onChange={(e) => setCustomPrompt(e.target.value)}
@@ -1161,6 +2739,10 @@ const App: React.FC = () => {
                             className="w-full mt-3 p-3 bg-dark-olive/5 dark:bg-olive/20 border border-olive/30 rounded-lg focus:ring-2 focus:ring-olive focus:border-olive transition animate-fade-in text-dark-olive dark:text-cream placeholder:text-dark-olive/50 dark:placeholder:text-cream/50"
                             rows={4}
                         />
+                        <button onClick={() => openStyleManager(customPrompt)} disabled={!customPrompt.trim()} className="mt-2 text-sm font-semibold text-olive dark:text-light-olive hover:underline disabled:opacity-50 disabled:no-underline">
+                            Lưu thành style
+                        </button>
+                        </>
                     )}
                 </div>
 
@@ -1177,99 +2759,9 @@ const App: React.FC = () => {
               </div>
             )}
 
-            {isLoading && <LoadingState />}
-
-            {generatedImage && !isLoading && (
-              <div className="mt-8 text-center animate-fade-in">
-                <h2 className="text-2xl font-bold mb-4">Kết quả của bạn!</h2>
-                <div className="relative inline-block">
-                  <img
-                    src={generatedImage}
-                    alt="Generated Trend"
-                    className="rounded-lg shadow-2xl mx-auto cursor-pointer max-w-full"
-                    onClick={openPreview}
-                  />
-                  {isEnhancing && (
-                    <div className="absolute inset-0 bg-black bg-opacity-75 flex flex-col items-center justify-center rounded-lg pointer-events-none">
-                        <div className="relative w-24 h-24">
-                            <svg className="w-full h-full" viewBox="0 0 100 100">
-                                <circle className="text-dark-olive/20 dark:text-cream/20" strokeWidth="10" stroke="currentColor" fill="transparent" r="45" cx="50" cy="50" />
-                                <circle
-                                    className="text-olive dark:text-light-olive"
-                                    strokeWidth="10"
-                                    strokeDasharray={2 * Math.PI * 45}
-                                    strokeDashoffset={2 * Math.PI * 45 * (1 - enhancementProgress / 100)}
-                                    strokeLinecap="round"
-                                    stroke="currentColor"
-                                    fill="transparent"
-                                    r="45"
-                                    cx="50"
-                                    cy="50"
-                                    style={{ transform: 'rotate(-90deg)', transformOrigin: '50% 50%', transition: 'stroke-dashoffset 0.3s ease' }}
-                                />
-                            </svg>
-                            <span className="absolute inset-0 flex items-center justify-center text-xl font-bold text-cream">
-                                {enhancementProgress}%
-                            </span>
-                        </div>
-                        <p className="text-cream mt-4 font-semibold">Đang nâng cấp ảnh...</p>
-                    </div>
-                  )}
-                </div>
-                
-                <div className="mt-6 flex flex-col items-center space-y-3">
-                  {!isEnhancing && (
-                    <div className="w-full max-w-xs p-4 bg-dark-olive/5 dark:bg-olive/20 rounded-lg">
-                        <h3 className="text-md font-semibold text-dark-olive/90 dark:text-cream/90 mb-3">Nâng cấp chất lượng ảnh</h3>
-                        <div className="flex justify-center gap-2">
-                            <button onClick={() => handleEnhance('HD')} className="bg-transparent border border-olive/50 text-olive hover:bg-olive hover:text-cream font-semibold py-2 px-3 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed" disabled={isEnhancing}>HD</button>
-                            <button onClick={() => handleEnhance('2K')} className="bg-transparent border border-olive/50 text-olive hover:bg-olive hover:text-cream font-semibold py-2 px-3 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed" disabled={isEnhancing}>2K</button>
-                            <button onClick={() => handleEnhance('4K')} className="bg-transparent border border-olive/50 text-olive hover:bg-olive hover:text-cream font-semibold py-2 px-3 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed" disabled={isEnhancing}>4K (x2)</button>
-                        </div>
-                    </div>
-                  )}
+            {isLoading && <LoadingState onCancel={() => cancelOperation('single')} />}
 
-                  <div className="flex items-center space-x-2 w-full max-w-xs">
-                        <button
-                            onClick={handleDownloadWithAffiliate}
-                            className={`flex-grow ${primaryButtonClasses}`}
-                            disabled={isEnhancing}
-                        >
-                            Tải Về
-                        </button>
-                        <button
-                            onClick={() => handleDownload()}
-                            className="p-3 bg-olive/80 hover:bg-olive text-cream rounded-full shadow-lg transform hover:scale-105 transition-all duration-300 disabled:opacity-50"
-                            aria-label="Tải ảnh về"
-                            disabled={isEnhancing}
-                        >
-                            <DownloadIcon className="w-6 h-6" />
-                        </button>
-                    </div>
-                  <button
-                    onClick={handleUseThisImage}
-                    className={secondaryButtonClasses}
-                    disabled={isEnhancing}
-                  >
-                    Dùng ảnh này tạo tiếp
-                  </button>
-                  <button
-                    onClick={handleGoBackToEditing}
-                    className={secondaryButtonClasses}
-                    disabled={isEnhancing}
-                  >
-                    Quay lại
-                  </button>
-                  <button
-                    onClick={resetToInitialState}
-                    className={secondaryButtonClasses}
-                    disabled={isEnhancing}
-                  >
-                    Tạo ảnh khác
-                  </button>
-                </div>
-              </div>
-            )}
+            {generatedImage && !isLoading && renderResultPanel(generatedImage, handleGoBackToEditing, handleStartOver)}
           </>
         )}
 
@@ -1281,44 +2773,60 @@ const App: React.FC = () => {
                 <div>
                   <h2 className="text-lg font-semibold text-dark-olive/90 dark:text-cream/90 mb-3">Chọn style hàng loạt</h2>
                   <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
-                    {STYLES.map((style) => (
+                    {allStyles.map((style) => (
                       <button
                         key={style.id}
                         onClick={() => handleBatchStyleChange(style.id)}
                         className={`p-4 rounded-lg text-left transition-all duration-200 ${batchStyleId === style.id ? 'bg-olive text-cream ring-2 ring-olive/70' : 'bg-dark-olive/5 dark:bg-olive/20 hover:bg-dark-olive/10 dark:hover:bg-olive/30'}`}
                       >
                         <span className="font-bold">{style.name}</span>
+                        {style.isCustom && <span className="block text-xs opacity-70 mt-1">Style của bạn</span>}
                       </button>
                     ))}
                   </div>
+                  <button onClick={() => openStyleManager()} className="mt-3 text-sm font-semibold text-olive dark:text-light-olive hover:underline">
+                    Quản lý style của bạn
+                  </button>
                 </div>
 
+                {batchStyle?.variables && (
+                  <PromptVariablesForm
+                    variables={batchStyle.variables}
+                    values={batchVariableValues}
+                    onChange={setBatchVariableValues}
+                    sweep={batchSweep}
+                    onSweepChange={setBatchSweep}
+                  />
+                )}
+
                 <div>
-                  <h2 className="text-lg font-semibold text-dark-olive/90 dark:text-cream/90 mb-3 text-center">Tải ảnh lên theo từng bộ</h2>
-                  {batchStyleId === 'polaroid' ? (
+                  <h2 className="text-lg font-semibold text-dark-olive/90 dark:text-cream/90 mb-1 text-center">Tải ảnh lên theo từng bộ</h2>
+                  <p className="text-xs text-dark-olive/70 dark:text-cream/70 mb-3 text-center">Chọn, kéo thả hoặc dán (Ctrl+V) nhiều ảnh cùng lúc để tự thêm ô{batchGroupSize > 1 ? ', ảnh được ghép bộ theo thứ tự' : ''}.</p>
+                  {batchGroupSize > 1 ? (
                     <div className="space-y-4">
-                      {Array.from({ length: batchImages.length / 2 }).map((_, pairIndex) => (
-                        <div key={pairIndex} className="flex items-center justify-center gap-4 p-3 bg-dark-olive/5 dark:bg-olive/20 rounded-lg relative pt-8">
+                      {Array.from({ length: batchImages.length / batchGroupSize }).map((_, groupIndex) => (
+                        <div key={groupIndex} className="flex flex-wrap items-center justify-center gap-4 p-3 bg-dark-olive/5 dark:bg-olive/20 rounded-lg relative pt-8">
                            <div className="absolute top-2 left-3 flex items-center">
-                            <span className="font-bold text-olive dark:text-light-olive">Bộ {pairIndex + 1}</span>
+                            <span className="font-bold text-olive dark:text-light-olive">Bộ {groupIndex + 1}</span>
                            </div>
-                           <button onClick={() => removePolaroidPair(pairIndex)} className="absolute top-1 right-1 bg-dark-olive/10 rounded-full p-1 text-dark-olive/60 hover:bg-dark-olive/20 hover:text-dark-olive dark:text-cream/60 dark:hover:text-cream dark:hover:bg-olive/30 transition-colors" aria-label={`Xóa bộ ${pairIndex + 1}`}>
+                           <button onClick={() => removeBatchGroup(groupIndex)} className="absolute top-1 right-1 bg-dark-olive/10 rounded-full p-1 text-dark-olive/60 hover:bg-dark-olive/20 hover:text-dark-olive dark:text-cream/60 dark:hover:text-cream dark:hover:bg-olive/30 transition-colors" aria-label={`Xóa bộ ${groupIndex + 1}`}>
                                 <XIcon className="w-4 h-4" />
                             </button>
-                          <ImageUploader
-                            label={`Ảnh 1`}
-                            initialFile={batchImages[pairIndex * 2]}
-                            onImageChange={(file) => handleBatchImageChange(pairIndex * 2, file)}
-                            onRemove={() => handleBatchImageChange(pairIndex * 2, null)}
-                            size="small"
-                          />
-                          <ImageUploader
-                            label={`Ảnh 2`}
-                            initialFile={batchImages[pairIndex * 2 + 1]}
-                            onImageChange={(file) => handleBatchImageChange(pairIndex * 2 + 1, file)}
-                            onRemove={() => handleBatchImageChange(pairIndex * 2 + 1, null)}
-                            size="small"
-                          />
+                          {batchInputs.slots.map((_, slotIndex) => {
+                            const index = groupIndex * batchGroupSize + slotIndex;
+                            return (
+                              <ImageUploader
+                                key={slotIndex}
+                                label={getSlotLabel(batchInputs, slotIndex)}
+                                initialFile={batchImages[index]}
+                                onImageChange={(file) => handleBatchImageChange(index, file)}
+                                onFilesAdded={(files) => handleBatchFilesAdded(files, index)}
+                                onRemove={() => handleBatchImageChange(index, null)}
+                                onMetadataFound={requestRestore('batch')}
+                                size="small"
+                              />
+                            );
+                          })}
                         </div>
                       ))}
                     </div>
@@ -1330,7 +2838,9 @@ const App: React.FC = () => {
                           label={`Ảnh ${index + 1}`}
                           initialFile={imageFile}
                           onImageChange={(file) => handleBatchImageChange(index, file)}
-                          onRemove={() => removeBatchImage(index)}
+                          onFilesAdded={(files) => handleBatchFilesAdded(files, index)}
+                          onRemove={() => removeBatchGroup(index)}
+                          onMetadataFound={requestRestore('batch')}
                           size="small"
                         />
                       ))}
@@ -1343,7 +2853,7 @@ const App: React.FC = () => {
                     onClick={removeLastBatchSlot}
                     className="py-2 px-6 flex justify-center items-center bg-dark-olive/10 dark:bg-olive/20 rounded-full cursor-pointer hover:bg-dark-olive/20 dark:hover:bg-olive/30 transition-colors duration-300 text-dark-olive dark:text-cream disabled:opacity-50 disabled:cursor-not-allowed"
                     aria-label="Bớt ô tải ảnh"
-                    disabled={batchImages.length <= (batchStyleId === 'polaroid' ? 2 : 1)}
+                    disabled={batchImages.length <= batchGroupSize}
                   >
                     <MinusIcon className="w-6 h-6" />
                   </button>
@@ -1356,6 +2866,17 @@ const App: React.FC = () => {
                   </button>
                 </div>
 
+                <PreprocessSummary images={batchImages} options={preprocessOptions} onOptionsChange={handlePreprocessOptionsChange} />
+
+                <div className="p-4 bg-dark-olive/5 dark:bg-olive/20 rounded-lg">
+                  <QueueSettings
+                    concurrency={queueConcurrency}
+                    requestsPerMinute={requestsPerMinute}
+                    onConcurrencyChange={handleQueueConcurrencyChange}
+                    onRequestsPerMinuteChange={handleRequestsPerMinuteChange}
+                  />
+                </div>
+
                 <div className="text-center mt-8">
                   <button
                     onClick={handleBatchGenerate}
@@ -1380,6 +2901,12 @@ const App: React.FC = () => {
                 </div>
                 <p className="text-2xl font-bold text-dark-olive dark:text-cream">{batchProgress}%</p>
                 <p className="text-dark-olive/70 dark:text-cream/70 text-center text-sm mt-2">Quá trình này có thể mất nhiều thời gian hơn tùy thuộc vào số lượng ảnh.</p>
+                <button onClick={toggleQueuePause} className={secondaryButtonClasses}>
+                  {isQueuePaused ? 'Tiếp tục' : 'Tạm dừng'}
+                </button>
+                <button onClick={cancelQueue} className={secondaryButtonClasses}>
+                  Hủy
+                </button>
               </div>
             )}
             
@@ -1398,12 +2925,12 @@ const App: React.FC = () => {
                           />
                           <div
                             className="absolute inset-0 bg-transparent cursor-pointer"
-                            onClick={() => openBatchImagePreview(result.imageUrl!)}
+                            onClick={() => openBatchImagePreview(result)}
                             aria-label={`Xem trước ảnh ${result.taskId + 1}`}
                             role="button"
                           ></div>
                           <div className="absolute bottom-0 left-0 right-0 p-2 bg-gradient-to-t from-black/60 to-transparent flex justify-between items-center pointer-events-none">
-                            <span className="text-sm font-bold text-white drop-shadow-md">Ảnh #{result.taskId + 1}</span>
+                            <span className="text-sm font-bold text-white drop-shadow-md truncate">{result.caption ?? `Ảnh #${result.taskId + 1}`}</span>
                             <button
                                 onClick={(e) => {
                                     e.stopPropagation();
@@ -1421,6 +2948,10 @@ const App: React.FC = () => {
                           <p className="text-red-400 font-bold text-sm">Lỗi</p>
                           <p className="text-red-400/80 text-xs mt-1">{result.error}</p>
                         </div>
+                      ) : result.status === 'cancelled' ? (
+                        <div className="w-full h-full bg-dark-olive/10 dark:bg-olive/20 flex items-center justify-center p-2 text-center">
+                          <p className="text-dark-olive/60 dark:text-cream/60 font-bold text-sm">Đã hủy</p>
+                        </div>
                       ) : ( 
                         <div className="w-full h-full bg-dark-olive/10 dark:bg-olive/20 flex items-center justify-center">
                           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-olive dark:border-light-olive"></div>
@@ -1431,16 +2962,25 @@ const App: React.FC = () => {
                 </div>
                 <div className="flex flex-col items-center space-y-3">
                   <div className="flex items-center space-x-2 w-full max-w-xs">
-                      <button onClick={handleDownloadAllWithAffiliate} className={`flex-grow ${primaryButtonClasses}`}>
-                        Tải Tất Cả
+                      <button onClick={handleDownloadAllWithAffiliate} disabled={archiveProgress !== null} className={`flex-grow ${primaryButtonClasses}`}>
+                        {getArchiveLabel('batch', 'Tải Tất Cả (ZIP)')}
                       </button>
                        <button
                             onClick={() => handleDownloadAll()}
-                            className="p-3 bg-olive/80 hover:bg-olive text-cream rounded-full shadow-lg transform hover:scale-105 transition-all duration-300"
+                            disabled={archiveProgress !== null}
+                            className="p-3 bg-olive/80 hover:bg-olive text-cream rounded-full shadow-lg transform hover:scale-105 transition-all duration-300 disabled:opacity-50"
                             aria-label="Tải tất cả ảnh về"
                         >
                             <DownloadIcon className="w-6 h-6" />
                         </button>
+                       <button
+                            onClick={() => setExportTarget({ kind: 'batch' })}
+                            disabled={archiveProgress !== null}
+                            className="p-3 bg-olive/80 hover:bg-olive text-cream rounded-full shadow-lg transform hover:scale-105 transition-all duration-300 disabled:opacity-50"
+                            aria-label="Tùy chọn tải về"
+                        >
+                            <SlidersIcon className="w-6 h-6" />
+                        </button>
                   </div>
                   <button onClick={handleGoBackToBatchEditing} className={secondaryButtonClasses}>
                     Quay lại
@@ -1464,10 +3004,19 @@ const App: React.FC = () => {
                             <p className="text-red-500 font-bold text-lg">Đã đạt giới hạn. Vui lòng chờ: {rateLimitCooldown}s</p>
                         ) : (
                             <p className="text-olive dark:text-light-olive font-bold text-lg">
-                                Còn lại: {60 - requestCount} / 60 yêu cầu
+                                Còn lại: {Math.max(0, requestsPerMinute - requestCount)} / {requestsPerMinute} yêu cầu
                             </p>
                         )}
                         <p className="text-xs text-dark-olive/70 dark:text-cream/70 mt-1">(Số lượt được làm mới mỗi 60 giây)</p>
+                        <div className="mt-4">
+                            <QueueSettings
+                                concurrency={queueConcurrency}
+                                requestsPerMinute={requestsPerMinute}
+                                onConcurrencyChange={handleQueueConcurrencyChange}
+                                onRequestsPerMinuteChange={handleRequestsPerMinuteChange}
+                                disabled={isStressTesting}
+                            />
+                        </div>
                     </div>
                 </div>
                 
@@ -1477,9 +3026,11 @@ const App: React.FC = () => {
                         {stressTestImages.map((imageFile, index) => (
                             <ImageUploader
                                 key={index}
-                                label={`Ảnh ${index + 1}`}
+                                label={getSlotLabel(stressTestInputs, index)}
                                 initialFile={imageFile}
                                 onImageChange={(file) => handleStressTestImageChange(file, index)}
+                                onFilesAdded={(files) => handleStressTestFilesAdded(files, index)}
+                                onMetadataFound={requestRestore('stressTest')}
                                 onRemove={() => removeStressTestImageSlot(index)}
                                 size="small"
                             />
@@ -1490,41 +3041,61 @@ const App: React.FC = () => {
                             onClick={() => removeStressTestImageSlot(stressTestImages.length - 1)}
                             className="py-2 px-6 flex justify-center items-center bg-dark-olive/10 dark:bg-olive/20 rounded-full cursor-pointer hover:bg-dark-olive/20 dark:hover:bg-olive/30 transition-colors duration-300 text-dark-olive dark:text-cream disabled:opacity-50"
                             aria-label="Bớt ô tải ảnh"
-                            disabled={stressTestImages.length <= 1}
+                            disabled={stressTestImages.length <= stressTestInputs.slots.length}
                         >
                             <MinusIcon className="w-6 h-6" />
                         </button>
                         <button
                             onClick={addStressTestImageSlot}
-                            className="py-2 px-6 flex justify-center items-center bg-dark-olive/10 dark:bg-olive/20 rounded-full cursor-pointer hover:bg-dark-olive/20 dark:hover:bg-olive/30 transition-colors duration-300 text-dark-olive dark:text-cream"
+                            disabled={!stressTestInputs.allowExtra}
+                            className="py-2 px-6 flex justify-center items-center bg-dark-olive/10 dark:bg-olive/20 rounded-full cursor-pointer hover:bg-dark-olive/20 dark:hover:bg-olive/30 transition-colors duration-300 text-dark-olive dark:text-cream disabled:opacity-50"
                             aria-label="Thêm ảnh"
                         >
                             <PlusIcon className="w-6 h-6" />
                         </button>
                     </div>
+                    <div className="mt-4">
+                        <PreprocessSummary images={stressTestImages} options={preprocessOptions} onOptionsChange={handlePreprocessOptionsChange} disabled={isStressTesting} />
+                    </div>
                 </div>
 
                 <div>
                     <h3 className="text-md font-semibold text-dark-olive/90 dark:text-cream/90 mb-3">2. Chọn style</h3>
                     <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
-                        {STYLES.map((style: Style) => (
+                        {allStyles.map((style: Style) => (
                             <button
                             key={style.id}
                             onClick={() => handleStressTestStyleSelect(style.id)}
                             className={`p-4 rounded-lg text-left transition-all duration-200 ${stressTestStyleId === style.id ? 'bg-olive text-cream ring-2 ring-olive/70' : 'bg-dark-olive/5 dark:bg-olive/20 hover:bg-dark-olive/10 dark:hover:bg-olive/30'}`}
                             >
                             <span className="font-bold">{style.name}</span>
+                            {style.isCustom && <span className="block text-xs opacity-70 mt-1">Style của bạn</span>}
                             </button>
                         ))}
                     </div>
+                    <button onClick={() => openStyleManager()} className="mt-3 text-sm font-semibold text-olive dark:text-light-olive hover:underline">
+                        Quản lý style của bạn
+                    </button>
                 </div>
 
+                {stressTestStyle?.variables && (
+                    <PromptVariablesForm
+                        variables={stressTestStyle.variables}
+                        values={stressTestVariableValues}
+                        onChange={setStressTestVariableValues}
+                        sweep={useAiPromptVariations ? null : stressTestSweep}
+                        onSweepChange={useAiPromptVariations ? undefined : setStressTestSweep}
+                        disabled={isStressTesting}
+                    />
+                )}
+
                 <div className="w-full">
                     <button onClick={toggleStressTestCustomPrompt} className={`w-full flex justify-center items-center space-x-2 p-3 rounded-lg transition-colors duration-300 ${isStressTestCustomPromptVisible ? 'bg-olive text-cream ring-2 ring-olive/70' : 'bg-dark-olive/10 dark:bg-olive/20 hover:bg-dark-olive/20 dark:hover:bg-olive/30'}`}>
                         <PlusIcon className={`w-5 h-5 transition-transform duration-300 ${isStressTestCustomPromptVisible ? 'rotate-45' : ''}`}/>
                         <span>Hoặc dùng lệnh tùy chỉnh</span>
                     </button>
                     {isStressTestCustomPromptVisible && (
+                        <>
                         <textarea
                             value={stressTestPrompt}
                             onChange={(e) => setStressTestPrompt(e.target.value)}
@@ -1532,6 +3103,10 @@ const App: React.FC = () => {
                             className="w-full mt-3 p-3 bg-dark-olive/5 dark:bg-olive/20 border border-olive/30 rounded-lg focus:ring-2 focus:ring-olive focus:border-olive transition animate-fade-in text-dark-olive dark:text-cream placeholder:text-dark-olive/50 dark:placeholder:text-cream/50"
                             rows={4}
                         />
+                        <button onClick={() => openStyleManager(stressTestPrompt)} disabled={!stressTestPrompt.trim()} className="mt-2 text-sm font-semibold text-olive dark:text-light-olive hover:underline disabled:opacity-50 disabled:no-underline">
+                            Lưu thành style
+                        </button>
+                        </>
                     )}
                 </div>
                 
@@ -1565,38 +3140,123 @@ const App: React.FC = () => {
                         </button>
                     </div>
                 </div>
-                
+
+                <label className="flex items-start gap-3 p-4 bg-dark-olive/5 dark:bg-olive/20 rounded-lg cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={useAiPromptVariations}
+                        onChange={(e) => setUseAiPromptVariations(e.target.checked)}
+                        disabled={isStressTesting || stressTestStage === 'reviewing_prompts'}
+                        className="mt-1 h-4 w-4 accent-olive"
+                    />
+                    <span>
+                        <span className="font-semibold">Dùng AI viết biến thể prompt</span>
+                        <span className="block text-xs text-dark-olive/70 dark:text-cream/70 mt-1">Gemini sẽ viết lại prompt thành nhiều phiên bản khác nhau để bạn duyệt trước, sau đó mỗi phiên bản tạo một ảnh.</span>
+                    </span>
+                </label>
+
                  <div className="text-center">
                   <button
                     onClick={handleStressTestGenerate}
-                    disabled={isStressTesting || rateLimitCooldown > 0}
+                    disabled={isStressTesting || rateLimitCooldown > 0 || stressTestStage === 'reviewing_prompts'}
                     className={`${primaryButtonClasses} flex items-center justify-center gap-2`}
                   >
                     <ZapIcon className="w-6 h-6"/>
+                    {stressTestStage === 'generating_prompts' && 'Đang tạo biến thể...'}
+                    {stressTestStage === 'reviewing_prompts' && 'Đang chờ duyệt biến thể'}
                     {stressTestStage === 'generating_images' && 'Đang tạo ảnh...'}
-                    {stressTestStage === 'idle' && (isStressTesting ? 'Đang xử lý...' : 'Bắt đầu tạo')}
+                    {stressTestStage === 'idle' && (isStressTesting ? 'Đang xử lý...' : (useAiPromptVariations ? 'Tạo biến thể prompt' : 'Bắt đầu tạo'))}
                   </button>
+                  {stressTestStage === 'generating_prompts' && (
+                    <button
+                      onClick={() => cancelOperation('promptVariations')}
+                      className="mt-3 px-5 py-2 rounded-full text-sm font-semibold text-red-500 hover:bg-red-500/10 transition-colors"
+                    >
+                      Hủy
+                    </button>
+                  )}
                   <ApiKeyStatus />
                 </div>
+
+                {stressTestStage === 'reviewing_prompts' && (
+                    <div className="space-y-4 p-4 bg-dark-olive/5 dark:bg-olive/20 rounded-lg animate-fade-in">
+                        <div>
+                            <h3 className="text-xl font-bold">Duyệt biến thể prompt</h3>
+                            <p className="text-xs text-dark-olive/70 dark:text-cream/70 mt-1">Chỉnh sửa hoặc xóa các biến thể trước khi tạo ảnh. Mỗi biến thể sẽ tạo một ảnh.</p>
+                        </div>
+                        <div className="space-y-3 max-h-[28rem] overflow-y-auto pr-1">
+                            {promptVariations.map((variation, index) => (
+                                <div key={index} className="relative">
+                                    <span className="absolute top-2 left-3 text-xs font-bold text-olive dark:text-light-olive">#{index + 1}</span>
+                                    <textarea
+                                        value={variation}
+                                        onChange={(e) => handlePromptVariationChange(index, e.target.value)}
+                                        className="w-full pt-7 p-3 bg-cream dark:bg-dark-olive/60 border border-olive/30 rounded-lg focus:ring-2 focus:ring-olive focus:border-olive transition text-sm text-dark-olive dark:text-cream"
+                                        rows={3}
+                                    />
+                                    <button
+                                        onClick={() => removePromptVariation(index)}
+                                        className="absolute top-1 right-1 bg-dark-olive/10 rounded-full p-1 text-dark-olive/60 hover:bg-dark-olive/20 hover:text-dark-olive dark:text-cream/60 dark:hover:text-cream dark:hover:bg-olive/30 transition-colors"
+                                        aria-label={`Xóa biến thể ${index + 1}`}
+                                    >
+                                        <XIcon className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="flex flex-col items-center space-y-3">
+                            <button
+                                onClick={handleConfirmPromptVariations}
+                                disabled={promptVariations.length === 0 || rateLimitCooldown > 0}
+                                className={primaryButtonClasses}
+                            >
+                                Tạo {promptVariations.length} ảnh
+                            </button>
+                            <button onClick={handleStressTestGenerate} className={secondaryButtonClasses}>
+                                Tạo lại biến thể
+                            </button>
+                            <button onClick={cancelPromptReview} className={secondaryButtonClasses}>
+                                Hủy
+                            </button>
+                        </div>
+                    </div>
+                )}
                 
                 {stressTestResults.length > 0 && (
                      <div className="space-y-4 pt-4">
                          <div className="flex justify-between items-center">
                             <h3 className="text-xl font-bold">Kết quả</h3>
+                            {stressTestStage === 'generating_images' && (
+                                <button
+                                    onClick={toggleQueuePause}
+                                    className="ml-auto mr-2 px-4 py-2 rounded-full text-sm font-semibold bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors"
+                                >
+                                    {isQueuePaused ? 'Tiếp tục' : 'Tạm dừng'}
+                                </button>
+                            )}
+                            {stressTestStage === 'generating_images' && (
+                                <button
+                                    onClick={cancelQueue}
+                                    className="mr-2 px-4 py-2 rounded-full text-sm font-semibold text-red-500 hover:bg-red-500/10 transition-colors"
+                                >
+                                    Hủy
+                                </button>
+                            )}
                             {stressTestResults.some(r => r.status === 'success') && (
                                 <button 
                                     onClick={handleStressTestDownloadAll}
-                                    className="flex items-center gap-2 px-4 py-2 rounded-full text-sm font-semibold bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors"
+                                    disabled={archiveProgress !== null}
+                                    className="flex items-center gap-2 px-4 py-2 rounded-full text-sm font-semibold bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors disabled:opacity-50"
                                 >
                                     <DownloadIcon className="w-4 h-4" />
-                                    Tải Tất Cả
+                                    {getArchiveLabel('stressTest', 'Tải Tất Cả (ZIP)')}
                                 </button>
                             )}
                          </div>
                          <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-2">
                              {stressTestResults.map(result => (
+                                <div key={result.id}>
                                 <div 
-                                    key={result.id} 
                                     className="relative rounded-md overflow-hidden shadow-md aspect-square bg-dark-olive/5 dark:bg-olive/10"
                                     title={result.prompt ? `Prompt: ${result.prompt}` : `Tác vụ #${result.id + 1}`}
                                 >
@@ -1606,7 +3266,7 @@ const App: React.FC = () => {
                                             src={result.imageUrl} 
                                             alt={`Kết quả ${result.id + 1}`} 
                                             className="w-full h-full object-cover cursor-pointer"
-                                            onClick={() => openStressTestImagePreview(result.imageUrl!)}
+                                            onClick={() => openStressTestImagePreview(result)}
                                         />
                                         <div className="absolute bottom-0 left-0 right-0 p-1.5 bg-gradient-to-t from-black/60 to-transparent flex justify-between items-center pointer-events-none">
                                             <span className="text-xs font-bold text-white drop-shadow">#{result.id + 1}</span>
@@ -1626,12 +3286,20 @@ const App: React.FC = () => {
                                         <div className="w-full h-full bg-red-900/20 flex items-center justify-center p-1 text-center">
                                             <p className="text-red-400 font-semibold text-xs">{result.error}</p>
                                         </div>
+                                    ) : result.status === 'cancelled' ? (
+                                        <div className="w-full h-full flex items-center justify-center p-1 text-center">
+                                            <p className="text-dark-olive/60 dark:text-cream/60 font-semibold text-xs">Đã hủy</p>
+                                        </div>
                                     ) : (
                                         <div className="w-full h-full flex items-center justify-center">
                                             <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-olive dark:border-light-olive"></div>
                                         </div>
                                     )}
                                  </div>
+                                 {hasDistinctStressPrompts && result.prompt && (
+                                    <p className="mt-1 text-[10px] leading-tight text-dark-olive/70 dark:text-cream/70 line-clamp-3" title={result.prompt}>{result.prompt}</p>
+                                 )}
+                                </div>
                              ))}
                          </div>
                      </div>
@@ -1639,7 +3307,131 @@ const App: React.FC = () => {
             </div>
         )}
 
-        {error && !isLoading && !isBatchLoading && (
+        {/* TEXT-TO-IMAGE MODE UI */}
+        {mode === 'textToImage' && (
+          <>
+            {textResults.length === 0 && !isTextGenerating && (
+              <div className="space-y-8 animate-fade-in">
+                <div>
+                  <h2 className="text-lg font-semibold text-dark-olive/90 dark:text-cream/90 mb-3">Mô tả ảnh bạn muốn tạo</h2>
+                  <textarea
+                      value={textPrompt}
+                      onChange={(e) => setTextPrompt(e.target.value)}
+                      placeholder="Ví dụ: Một cô gái mặc áo dài trắng đứng giữa cánh đồng hoa cải vàng, ánh nắng hoàng hôn, phong cách điện ảnh..."
+                      className="w-full p-3 bg-dark-olive/5 dark:bg-olive/20 border border-olive/30 rounded-lg focus:ring-2 focus:ring-olive focus:border-olive transition text-dark-olive dark:text-cream placeholder:text-dark-olive/50 dark:placeholder:text-cream/50"
+                      rows={6}
+                  />
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    <span className="text-xs text-dark-olive/70 dark:text-cream/70 self-center">Dùng prompt có sẵn:</span>
+                    {allStyles.map((style: Style) => (
+                      <button
+                        key={style.id}
+                        onClick={() => setTextPrompt(renderStylePrompt(style, getDefaultValues(style.variables)))}
+                        className="text-xs px-3 py-1 rounded-full bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors"
+                      >
+                        {style.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <h2 className="text-lg font-semibold text-dark-olive/90 dark:text-cream/90 mb-3">Tỉ lệ khung hình</h2>
+                  <div className="grid grid-cols-3 sm:grid-cols-5 gap-3">
+                    {ASPECT_RATIOS.map((ratio) => (
+                      <button
+                        key={ratio.value}
+                        onClick={() => setTextAspectRatio(ratio.value)}
+                        className={`p-3 rounded-lg text-center text-sm transition-all duration-200 ${textAspectRatio === ratio.value ? 'bg-olive text-cream ring-2 ring-olive/70' : 'bg-dark-olive/5 dark:bg-olive/20 hover:bg-dark-olive/10 dark:hover:bg-olive/30'}`}
+                      >
+                        <span className="font-bold">{ratio.label}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                    <h2 className="text-lg font-semibold text-center mb-3">Số lượng ảnh (tối đa {MAX_TEXT_TO_IMAGE_COUNT})</h2>
+                    <div className="flex items-center justify-center gap-2">
+                        <button
+                            onClick={() => handleTextImageCountChange(textImageCount - 1)}
+                            className="p-3 bg-dark-olive/10 dark:bg-olive/20 rounded-full hover:bg-dark-olive/20 dark:hover:bg-olive/30 disabled:opacity-50"
+                            disabled={textImageCount <= 1}
+                            aria-label="Giảm số lượng"
+                        >
+                            <MinusIcon className="w-5 h-5" />
+                        </button>
+                        <span className="w-20 p-3 text-center text-xl font-bold">{textImageCount}</span>
+                        <button
+                            onClick={() => handleTextImageCountChange(textImageCount + 1)}
+                            className="p-3 bg-dark-olive/10 dark:bg-olive/20 rounded-full hover:bg-dark-olive/20 dark:hover:bg-olive/30 disabled:opacity-50"
+                            disabled={textImageCount >= MAX_TEXT_TO_IMAGE_COUNT}
+                            aria-label="Tăng số lượng"
+                        >
+                            <PlusIcon className="w-5 h-5" />
+                        </button>
+                    </div>
+                </div>
+
+                <div className="text-center mt-8">
+                  <button
+                    onClick={handleTextToImageGenerate}
+                    disabled={isTextGenerating}
+                    className={primaryButtonClasses}
+                  >
+                    Tạo Ảnh Ngay
+                  </button>
+                  <ApiKeyStatus />
+                </div>
+              </div>
+            )}
+
+            {isTextGenerating && <LoadingState value={textProgress} onCancel={() => cancelOperation('textToImage')} />}
+
+            {textResults.length > 0 && !isTextGenerating && !generatedImage && (
+              <div className="space-y-6 animate-fade-in">
+                <h2 className="text-2xl font-bold text-center">Chọn ảnh để xem và nâng cấp</h2>
+                <div className="grid grid-cols-2 gap-4">
+                  {textResults.map((imageUrl, index) => (
+                    <div key={index} className="relative rounded-lg overflow-hidden shadow-lg">
+                      <img
+                        src={imageUrl}
+                        alt={`Kết quả ${index + 1}`}
+                        className="w-full h-full object-cover cursor-pointer"
+                        onClick={() => handleSelectTextResult(imageUrl)}
+                      />
+                      <div className="absolute bottom-0 left-0 right-0 p-2 bg-gradient-to-t from-black/60 to-transparent flex justify-between items-center pointer-events-none">
+                        <span className="text-sm font-bold text-white drop-shadow-md">Ảnh #{index + 1}</span>
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                handleDownload(imageUrl);
+                            }}
+                            className="p-2 bg-white/20 backdrop-blur-sm hover:bg-white/30 text-white rounded-full transition-colors pointer-events-auto"
+                            aria-label={`Tải ảnh ${index + 1}`}
+                        >
+                            <DownloadIcon className="w-5 h-5" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex flex-col items-center space-y-3">
+                  <button onClick={() => setTextResults([])} className={secondaryButtonClasses}>
+                    Sửa mô tả
+                  </button>
+                  <button onClick={handleTextToImageGenerate} className={secondaryButtonClasses}>
+                    Tạo lại
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {generatedImage && textResults.length > 0 && !isTextGenerating && renderResultPanel(generatedImage, handleGoBackToTextResults, resetTextToImageState)}
+          </>
+        )}
+
+        {error && !isLoading && !isBatchLoading && !isTextGenerating && (
             <div className="mt-8 text-center p-4 bg-red-900/20 rounded-lg animate-fade-in">
                 <p className="text-red-400 font-semibold mb-2">Đã xảy ra lỗi</p>
                 <p className="text-red-400/80 whitespace-pre-line">{error}</p>
@@ -1658,12 +3450,74 @@ const App: React.FC = () => {
       <ApiKeyModal
         isOpen={isApiKeyModalOpen}
         onClose={() => setIsApiKeyModalOpen(false)}
-        onSave={handleSaveApiKey}
         onDelete={handleDeleteApiKey}
         isSaving={isVerifyingApiKey}
         error={apiKeyError}
-        initialApiKey={userApiKey || ''}
-        hasExistingKey={!!userApiKey}
+        profiles={keyProfiles}
+        activeProfileId={activeProfile?.id ?? null}
+        onSelectProfile={selectKeyProfile}
+        onAddProfile={handleAddKeyProfile}
+        onRemoveProfile={handleRemoveKeyProfile}
+        onCheckProfile={handleCheckKeyProfile}
+        onProtectProfiles={handleProtectKeyProfiles}
+        hasExistingKey={keyProfiles.length > 0 || !!encryptedKey}
+        isVaultOpen={!!encryptedKey && keyProfiles.length > 0}
+        isLocked={isKeyLocked}
+        onUnlock={handleUnlockApiKey}
+        onLock={encryptedKey && keyProfiles.length > 0 ? handleLockApiKey : null}
+        lockMinutes={apiKeyLockMinutes}
+        onLockMinutesChange={handleLockMinutesChange}
+        notice={apiKeyNotice}
+        useProxy={useProxy}
+        onUseProxyChange={handleUseProxyChange}
+      />
+
+      <StyleManagerModal
+        isOpen={isStyleManagerOpen}
+        onClose={() => setIsStyleManagerOpen(false)}
+        customStyles={customStyles}
+        onChange={handleCustomStylesChange}
+        draftPrompt={styleManagerDraft}
+      />
+
+      <ExportDialog
+        isOpen={exportTarget !== null}
+        onClose={() => setExportTarget(null)}
+        options={exportOptions}
+        onExport={handleExport}
+        imageCount={exportTarget?.kind === 'batch' ? batchResults.filter(r => r.status === 'success').length : 1}
+      />
+
+      <VersionCompareModal
+        pair={comparePair}
+        onClose={() => setComparePair(null)}
+        onDownload={(version) => handleDownload(version.imageUrl)}
+        onSelect={handleSelectVersion}
+      />
+
+      <MaskEditor
+        imageUrl={maskEditorImage}
+        onApply={handleRegionEdit}
+        onClose={() => setMaskEditorImage(null)}
+      />
+
+      <RestoreSettingsModal
+        metadata={restoreRequest?.metadata ?? null}
+        styleName={getStyleName(restoreRequest?.metadata.styleId ?? null)}
+        onConfirm={applyRestoredSettings}
+        onClose={() => setRestoreRequest(null)}
+      />
+
+      <HistoryGallery
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        onOpenEntry={handleOpenHistoryEntry}
+        onDownloadEntry={handleDownloadHistoryEntry}
+      />
+
+      <UsageDashboard
+        isOpen={isUsageOpen}
+        onClose={() => setIsUsageOpen(false)}
       />
 
       {isPreviewOpen && (
@@ -1681,15 +3535,41 @@ const App: React.FC = () => {
             onMouseUp={handleMouseUp}
             onMouseLeave={handleMouseUp}
           >
-            <img
-              ref={imageRef}
-              src={generatedImage!}
-              alt="Preview"
-              className="max-w-full max-h-full object-contain transition-transform duration-100"
-              style={{ transform: `translate(${zoomState.x}px, ${zoomState.y}px) scale(${zoomState.scale})` }}
-              draggable="false"
+            <PreviewCompare
+              mode={previewCompareMode}
+              resultUrl={previewUrl!}
+              beforeUrl={compareSource?.url ?? null}
+              transform={`translate(${zoomState.x}px, ${zoomState.y}px) scale(${zoomState.scale})`}
+              imageRef={imageRef}
             />
           </div>
+          {compareSources.length > 0 && (
+            <div className="absolute bottom-4 inset-x-4 flex flex-wrap items-center justify-center gap-2 z-10 text-sm pointer-events-none [&>*]:pointer-events-auto" onClick={(e) => e.stopPropagation()}>
+              <div className="flex rounded-full bg-white/20 p-1">
+                {COMPARE_MODES.map(({ value, label }) => (
+                  <button
+                    key={value}
+                    onClick={() => setPreviewCompareMode(value)}
+                    className={`px-3 py-1 rounded-full font-semibold transition-colors ${previewCompareMode === value ? 'bg-cream text-dark-olive' : 'text-white hover:bg-white/20'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {previewCompareMode !== 'off' && compareSources.length > 1 && (
+                <select
+                  value={compareSource?.id}
+                  onChange={(e) => setCompareSourceId(e.target.value)}
+                  className="px-3 py-1.5 rounded-full bg-white/20 text-white border-none focus:ring-2 focus:ring-cream"
+                  aria-label="So sánh với"
+                >
+                  {compareSources.map(source => (
+                    <option key={source.id} value={source.id} className="text-dark-olive">{source.label}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          )}
           <div className="absolute top-4 right-4 flex space-x-2 z-10">
              <button
                 onClick={resetZoom}
@@ -1699,12 +3579,30 @@ const App: React.FC = () => {
                 <PlusIcon className="w-6 h-6 rotate-45" />
             </button>
             <button
-              onClick={() => handleDownload()}
+              onClick={() => handleDownload(previewUrl ?? undefined)}
               className="p-2 bg-white/20 hover:bg-white/30 text-white rounded-full transition-colors"
               aria-label="Download image"
             >
               <DownloadIcon className="w-6 h-6" />
             </button>
+            {previewUrl && (
+              <button
+                onClick={() => setExportTarget({ kind: 'image', url: previewUrl })}
+                className="p-2 bg-white/20 hover:bg-white/30 text-white rounded-full transition-colors"
+                aria-label="Tùy chọn tải về"
+              >
+                <SlidersIcon className="w-6 h-6" />
+              </button>
+            )}
+            {!previewTarget && generatedImage && !isEnhancing && (
+              <button
+                onClick={openMaskEditor}
+                className="p-2 bg-white/20 hover:bg-white/30 text-white rounded-full transition-colors"
+                aria-label="Sửa một vùng"
+              >
+                <MagicWandIcon className="w-6 h-6" />
+              </button>
+            )}
             <button
               onClick={closePreview}
               className="p-2 bg-white/20 hover:bg-white/30 text-white rounded-full transition-colors"
@@ -0,0 +1,131 @@
+import React, { useState, useEffect } from 'react';
+import XIcon from './icons/XIcon';
+import {
+  ExportOptions,
+  EXPORT_FORMATS,
+  EXPORT_PRESETS,
+  MAX_DIMENSION_OPTIONS,
+  isFormatSupported,
+} from '../services/imageExport';
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  options: ExportOptions;
+  onExport: (options: ExportOptions) => void;
+  /** Number of images that will be exported; more than one produces a ZIP. */
+  imageCount?: number;
+}
+
+const chipClasses = (active: boolean) =>
+  `px-3 py-1.5 rounded-full text-sm font-semibold transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${active ? 'bg-olive text-cream' : 'bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30'}`;
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ isOpen, onClose, options, onExport, imageCount = 1 }) => {
+  const [draft, setDraft] = useState<ExportOptions>(options);
+
+  useEffect(() => {
+    if (isOpen) setDraft(options);
+  }, [isOpen, options]);
+
+  if (!isOpen) return null;
+
+  const isLossy = EXPORT_FORMATS.find(f => f.value === draft.format)?.lossy ?? false;
+
+  return (
+    <div className="fixed inset-0 z-[101] bg-black bg-opacity-70 flex items-center justify-center animate-fade-in p-4" onClick={onClose}>
+      <div className="bg-cream dark:bg-dark-olive p-6 rounded-lg shadow-2xl max-w-md w-full relative" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold mb-4 text-dark-olive dark:text-cream text-center">Tùy chọn tải về</h2>
+        <button onClick={onClose} className="absolute top-3 right-3 text-dark-olive/50 hover:text-dark-olive dark:text-cream/50 dark:hover:text-cream transition-colors" aria-label="Đóng">
+          <XIcon className="w-6 h-6" />
+        </button>
+
+        <div className="space-y-5 text-dark-olive dark:text-cream">
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Định dạng</h3>
+            <div className="flex flex-wrap gap-2">
+              {EXPORT_FORMATS.map(format => (
+                <button
+                  key={format.value}
+                  onClick={() => setDraft({ ...draft, format: format.value })}
+                  disabled={!isFormatSupported(format.value)}
+                  title={isFormatSupported(format.value) ? undefined : 'Trình duyệt này chưa hỗ trợ định dạng này'}
+                  className={chipClasses(draft.format === format.value)}
+                >
+                  {format.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {isLossy && (
+            <div>
+              <label htmlFor="export-quality" className="text-sm font-semibold flex justify-between mb-2">
+                <span>Chất lượng</span>
+                <span>{Math.round(draft.quality * 100)}%</span>
+              </label>
+              <input
+                id="export-quality"
+                type="range"
+                min={10}
+                max={100}
+                step={1}
+                value={Math.round(draft.quality * 100)}
+                onChange={(e) => setDraft({ ...draft, quality: Number(e.target.value) / 100 })}
+                className="w-full accent-olive"
+              />
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Khung mạng xã hội</h3>
+            <div className="flex flex-wrap gap-2">
+              <button onClick={() => setDraft({ ...draft, presetId: null })} className={chipClasses(draft.presetId === null)}>
+                Giữ nguyên khung
+              </button>
+              {EXPORT_PRESETS.map(preset => (
+                <button
+                  key={preset.id}
+                  onClick={() => setDraft({ ...draft, presetId: preset.id })}
+                  className={chipClasses(draft.presetId === preset.id)}
+                  title={`${preset.width}×${preset.height}`}
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+            {draft.presetId && (
+              <p className="text-xs text-dark-olive/70 dark:text-cream/70 mt-2">Ảnh sẽ được cắt ở giữa cho vừa khung.</p>
+            )}
+          </div>
+
+          {!draft.presetId && (
+            <div>
+              <label htmlFor="export-max-dimension" className="block text-sm font-semibold mb-2">Cạnh dài tối đa</label>
+              <select
+                id="export-max-dimension"
+                value={draft.maxDimension ?? ''}
+                onChange={(e) => setDraft({ ...draft, maxDimension: e.target.value ? Number(e.target.value) : null })}
+                className="w-full p-2 bg-dark-olive/5 dark:bg-olive/20 border border-olive/30 rounded-lg focus:ring-2 focus:ring-olive focus:border-olive transition text-dark-olive dark:text-cream"
+              >
+                {MAX_DIMENSION_OPTIONS.map(size => (
+                  <option key={size ?? 'original'} value={size ?? ''}>{size ? `${size}px` : 'Kích thước gốc'}</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 mt-6">
+          <button onClick={onClose} className="px-5 py-2 rounded-full text-dark-olive/80 dark:text-cream/80 bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors font-semibold">
+            Hủy
+          </button>
+          <button onClick={() => onExport(draft)} className="px-6 py-2 rounded-full bg-olive hover:bg-olive/90 text-cream font-bold transition-colors">
+            {imageCount > 1 ? `Tải ${imageCount} ảnh (ZIP)` : 'Tải về'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
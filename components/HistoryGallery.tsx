@@ -0,0 +1,279 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { HistoryEntry, GenerationMode } from '../types';
+import {
+  listHistoryEntries,
+  deleteHistoryEntry,
+  clearHistory,
+  pruneHistory,
+  getStorageUsage,
+  requestPersistentStorage,
+  StorageUsage,
+} from '../services/historyService';
+import XIcon from './icons/XIcon';
+import DownloadIcon from './icons/DownloadIcon';
+import TrashIcon from './icons/TrashIcon';
+
+interface HistoryGalleryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOpenEntry: (entry: HistoryEntry) => void;
+  onDownloadEntry: (entry: HistoryEntry) => void;
+}
+
+const MODE_LABELS: Record<GenerationMode, string> = {
+  single: 'Tạo ảnh đơn',
+  batch: 'Hàng loạt',
+  stressTest: 'Biến thể',
+  textToImage: 'Từ mô tả',
+};
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+const selectClasses = "p-2 bg-dark-olive/5 dark:bg-olive/20 border border-olive/30 rounded-lg text-sm text-dark-olive dark:text-cream focus:ring-2 focus:ring-olive";
+
+const HistoryGallery: React.FC<HistoryGalleryProps> = ({ isOpen, onClose, onOpenEntry, onDownloadEntry }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [isLoadingEntries, setIsLoadingEntries] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [styleFilter, setStyleFilter] = useState('all');
+  const [modeFilter, setModeFilter] = useState<GenerationMode | 'all'>('all');
+  const [storage, setStorage] = useState<StorageUsage | null>(null);
+  const [keepCount, setKeepCount] = useState(50);
+  const [showClearConfirm, setShowClearConfirm] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setIsLoadingEntries(true);
+    setLoadError(null);
+    try {
+      const [list, usage] = await Promise.all([listHistoryEntries(), getStorageUsage()]);
+      setEntries(list);
+      setStorage(usage);
+    } catch (e) {
+      setLoadError(e instanceof Error ? e.message : 'Không thể đọc lịch sử.');
+    } finally {
+      setIsLoadingEntries(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      setShowClearConfirm(false);
+      refresh();
+    }
+  }, [isOpen, refresh]);
+
+  const imageUrls = useMemo(() => {
+    const urls = new Map<string, string>();
+    entries.forEach(entry => urls.set(entry.id, URL.createObjectURL(entry.image)));
+    return urls;
+  }, [entries]);
+
+  useEffect(() => {
+    return () => imageUrls.forEach(url => URL.revokeObjectURL(url));
+  }, [imageUrls]);
+
+  const styleOptions = useMemo(() => {
+    const options = new Map<string, string>();
+    entries.forEach(entry => {
+      if (entry.styleId) options.set(entry.styleId, entry.styleName || entry.styleId);
+    });
+    return Array.from(options.entries());
+  }, [entries]);
+
+  const filteredEntries = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return entries.filter(entry => {
+      if (modeFilter !== 'all' && entry.mode !== modeFilter) return false;
+      if (styleFilter === 'custom' && entry.styleId) return false;
+      if (styleFilter !== 'all' && styleFilter !== 'custom' && entry.styleId !== styleFilter) return false;
+      if (!query) return true;
+      return entry.prompt.toLowerCase().includes(query) || (entry.styleName ?? '').toLowerCase().includes(query);
+    });
+  }, [entries, search, styleFilter, modeFilter]);
+
+  const historyBytes = useMemo(() => entries.reduce((total, entry) => total + entry.image.size, 0), [entries]);
+
+  if (!isOpen) return null;
+
+  const handleDelete = async (id: string) => {
+    await deleteHistoryEntry(id);
+    await refresh();
+  };
+
+  const handlePrune = async () => {
+    await pruneHistory(keepCount);
+    await refresh();
+  };
+
+  const handleClearAll = async () => {
+    await clearHistory();
+    setShowClearConfirm(false);
+    await refresh();
+  };
+
+  const handlePersist = async () => {
+    await requestPersistentStorage();
+    setStorage(await getStorageUsage());
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black bg-opacity-70 flex items-center justify-center animate-fade-in p-4" onClick={onClose}>
+      <div className="bg-cream dark:bg-dark-olive p-6 rounded-lg shadow-2xl max-w-4xl w-full max-h-[90vh] flex flex-col relative" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold mb-4 text-dark-olive dark:text-cream text-center">Lịch sử tạo ảnh</h2>
+        <button onClick={onClose} className="absolute top-3 right-3 text-dark-olive/50 hover:text-dark-olive dark:text-cream/50 dark:hover:text-cream transition-colors" aria-label="Đóng lịch sử">
+          <XIcon className="w-6 h-6" />
+        </button>
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Tìm theo prompt hoặc tên style..."
+            className={`flex-grow min-w-[12rem] ${selectClasses}`}
+          />
+          <select value={styleFilter} onChange={(e) => setStyleFilter(e.target.value)} className={selectClasses} aria-label="Lọc theo style">
+            <option value="all">Tất cả style</option>
+            <option value="custom">Lệnh tùy chỉnh</option>
+            {styleOptions.map(([id, name]) => (
+              <option key={id} value={id}>{name}</option>
+            ))}
+          </select>
+          <select value={modeFilter} onChange={(e) => setModeFilter(e.target.value as GenerationMode | 'all')} className={selectClasses} aria-label="Lọc theo chế độ">
+            <option value="all">Tất cả chế độ</option>
+            {(Object.keys(MODE_LABELS) as GenerationMode[]).map(mode => (
+              <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex-grow overflow-y-auto -mx-1 px-1">
+          {isLoadingEntries && entries.length === 0 ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-olive dark:border-light-olive"></div>
+            </div>
+          ) : loadError ? (
+            <p className="text-red-500 text-center py-12">{loadError}</p>
+          ) : filteredEntries.length === 0 ? (
+            <p className="text-dark-olive/70 dark:text-cream/70 text-center py-12">
+              {entries.length === 0 ? 'Chưa có ảnh nào được lưu.' : 'Không tìm thấy ảnh phù hợp.'}
+            </p>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+              {filteredEntries.map(entry => (
+                <div key={entry.id} className="rounded-lg overflow-hidden shadow-md bg-dark-olive/5 dark:bg-olive/20 flex flex-col">
+                  <div className="relative aspect-square">
+                    <img
+                      src={imageUrls.get(entry.id)}
+                      alt={entry.styleName || 'Ảnh đã tạo'}
+                      className="w-full h-full object-cover cursor-pointer"
+                      onClick={() => onOpenEntry(entry)}
+                    />
+                    {entry.inputThumbnails.filter(Boolean).length > 0 && (
+                      <div className="absolute top-1 left-1 flex -space-x-2 pointer-events-none">
+                        {entry.inputThumbnails.filter(Boolean).slice(0, 3).map((thumb, i) => (
+                          <img key={i} src={thumb} alt="" className="w-7 h-7 rounded-full object-cover ring-2 ring-cream dark:ring-dark-olive" />
+                        ))}
+                      </div>
+                    )}
+                    {entry.enhancements.length > 0 && (
+                      <span className="absolute top-1 right-1 text-[10px] font-bold px-1.5 py-0.5 rounded bg-olive text-cream">
+                        {entry.enhancements.join(' → ')}
+                      </span>
+                    )}
+                  </div>
+                  <div className="p-2 text-xs space-y-1 flex-grow flex flex-col">
+                    <p className="font-bold truncate">{entry.styleName || 'Lệnh tùy chỉnh'}</p>
+                    <p className="text-dark-olive/70 dark:text-cream/70 line-clamp-2" title={entry.prompt}>{entry.prompt}</p>
+                    <p className="text-dark-olive/50 dark:text-cream/50">
+                      {MODE_LABELS[entry.mode]} · {new Date(entry.createdAt).toLocaleString('vi-VN')}
+                    </p>
+                    <div className="flex justify-end gap-1 pt-1 mt-auto">
+                      <button
+                        onClick={() => onDownloadEntry(entry)}
+                        className="p-1.5 rounded-full hover:bg-dark-olive/10 dark:hover:bg-olive/30 transition-colors"
+                        aria-label="Tải ảnh về"
+                      >
+                        <DownloadIcon className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(entry.id)}
+                        className="p-1.5 rounded-full text-red-500 hover:bg-red-500/10 transition-colors"
+                        aria-label="Xóa ảnh khỏi lịch sử"
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="mt-4 pt-4 border-t border-olive/20 text-sm space-y-3">
+          <div className="flex flex-wrap justify-between items-center gap-2">
+            <span className="text-dark-olive/80 dark:text-cream/80">
+              {entries.length} ảnh · {formatBytes(historyBytes)}
+              {storage && storage.quota > 0 && (
+                <> · Bộ nhớ trình duyệt: {formatBytes(storage.usage)} / {formatBytes(storage.quota)}</>
+              )}
+            </span>
+            {storage && !storage.persisted && (
+              <button onClick={handlePersist} className="text-olive dark:text-light-olive hover:underline font-semibold">
+                Giữ lịch sử lâu dài
+              </button>
+            )}
+          </div>
+          {storage && storage.quota > 0 && (
+            <div className="w-full bg-dark-olive/10 dark:bg-cream/10 rounded-full h-2">
+              <div
+                className={`h-2 rounded-full ${storage.usage / storage.quota > 0.8 ? 'bg-red-500' : 'bg-olive'}`}
+                style={{ width: `${Math.min(100, (storage.usage / storage.quota) * 100)}%` }}
+              ></div>
+            </div>
+          )}
+          {showClearConfirm ? (
+            <div className="flex flex-wrap items-center justify-end gap-2">
+              <span className="mr-auto text-dark-olive/80 dark:text-cream/80">Xóa toàn bộ lịch sử? Không thể hoàn tác.</span>
+              <button onClick={() => setShowClearConfirm(false)} className="px-4 py-1.5 rounded-full bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors font-semibold">
+                Hủy
+              </button>
+              <button onClick={handleClearAll} className="px-4 py-1.5 rounded-full bg-red-600 hover:bg-red-700 text-cream font-bold transition-colors">
+                Xóa tất cả
+              </button>
+            </div>
+          ) : (
+            <div className="flex flex-wrap items-center justify-end gap-2">
+              <label className="mr-auto flex items-center gap-2">
+                Chỉ giữ
+                <input
+                  type="number"
+                  min={0}
+                  value={keepCount}
+                  onChange={(e) => setKeepCount(Math.max(0, Number(e.target.value) || 0))}
+                  className="w-20 p-1.5 text-center bg-dark-olive/5 dark:bg-olive/20 border border-olive/30 rounded-lg"
+                />
+                ảnh mới nhất
+                <button onClick={handlePrune} disabled={entries.length <= keepCount} className="px-4 py-1.5 rounded-full bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors font-semibold disabled:opacity-50">
+                  Dọn dẹp
+                </button>
+              </label>
+              <button onClick={() => setShowClearConfirm(true)} disabled={entries.length === 0} className="px-4 py-1.5 rounded-full text-red-500 hover:bg-red-500/10 transition-colors font-semibold disabled:opacity-50">
+                Xóa tất cả
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryGallery;
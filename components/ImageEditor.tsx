@@ -0,0 +1,291 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import XIcon from './icons/XIcon';
+import RotateCcwIcon from './icons/RotateCcwIcon';
+import RotateCwIcon from './icons/RotateCwIcon';
+import FlipIcon from './icons/FlipIcon';
+import {
+  CropHandle,
+  CropRect,
+  ImageEdits,
+  Rotation,
+  CROP_ASPECTS,
+  DEFAULT_EDITS,
+  drawOriented,
+  getFlipAxis,
+  getInitialCrop,
+  getOrientedSize,
+  isUnedited,
+  moveCrop,
+  renderEditedImage,
+  resizeCrop,
+} from '../services/imageEdit';
+
+interface ImageEditorProps {
+  file: File;
+  onApply: (file: File) => void;
+  onClose: () => void;
+}
+
+type DragState =
+  | { kind: 'move'; startX: number; startY: number; startCrop: CropRect }
+  | { kind: 'resize'; handle: CropHandle; startCrop: CropRect };
+
+const STAGE_MAX_WIDTH = 560;
+const STAGE_MAX_HEIGHT_RATIO = 0.55;
+const MAX_ZOOM = 4;
+
+const HANDLES: { handle: CropHandle; className: string }[] = [
+  { handle: 'nw', className: '-top-1.5 -left-1.5 cursor-nwse-resize' },
+  { handle: 'ne', className: '-top-1.5 -right-1.5 cursor-nesw-resize' },
+  { handle: 'sw', className: '-bottom-1.5 -left-1.5 cursor-nesw-resize' },
+  { handle: 'se', className: '-bottom-1.5 -right-1.5 cursor-nwse-resize' },
+];
+
+const chipClasses = (active: boolean) =>
+  `px-3 py-1.5 rounded-full text-sm font-semibold transition-colors ${active ? 'bg-olive text-cream' : 'bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30'}`;
+
+const toolButtonClasses = "p-2 rounded-full bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors";
+
+const ImageEditor: React.FC<ImageEditorProps> = ({ file, onApply, onClose }) => {
+  const [bitmap, setBitmap] = useState<ImageBitmap | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [edits, setEdits] = useState<ImageEdits>(DEFAULT_EDITS);
+  const [aspect, setAspect] = useState<number | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [isApplying, setIsApplying] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  useEffect(() => {
+    let isCurrent = true;
+    let loaded: ImageBitmap | null = null;
+    createImageBitmap(file)
+      .then(result => {
+        loaded = result;
+        if (isCurrent) setBitmap(result);
+        else result.close();
+      })
+      .catch(() => { if (isCurrent) setLoadError(true); });
+    return () => {
+      isCurrent = false;
+      loaded?.close();
+    };
+  }, [file]);
+
+  const oriented = bitmap ? getOrientedSize(bitmap.width, bitmap.height, edits.rotation) : null;
+  const fit = oriented
+    ? Math.min(1, STAGE_MAX_WIDTH / oriented.width, (window.innerHeight * STAGE_MAX_HEIGHT_RATIO) / oriented.height)
+    : 1;
+  const displayWidth = oriented ? Math.round(oriented.width * fit * zoom) : 0;
+  const displayHeight = oriented ? Math.round(oriented.height * fit * zoom) : 0;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !bitmap || !oriented) return;
+    // Draw at screen resolution (capped at the source size) so zooming stays sharp.
+    const scale = Math.min(1, fit * zoom * (window.devicePixelRatio || 1));
+    canvas.width = Math.round(oriented.width * scale);
+    canvas.height = Math.round(oriented.height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.imageSmoothingQuality = 'high';
+    drawOriented(ctx, bitmap, edits, scale);
+  }, [bitmap, edits.rotation, edits.flipX, edits.flipY, fit, zoom]);
+
+  const getPoint = (e: React.PointerEvent) => {
+    const rect = surfaceRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const startMove = (e: React.PointerEvent) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = getPoint(e);
+    dragRef.current = { kind: 'move', startX: point.x, startY: point.y, startCrop: edits.crop };
+  };
+
+  const startResize = (handle: CropHandle) => (e: React.PointerEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { kind: 'resize', handle, startCrop: edits.crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag || !oriented) return;
+    const point = getPoint(e);
+    const crop = drag.kind === 'move'
+      ? moveCrop(drag.startCrop, point.x - drag.startX, point.y - drag.startY)
+      : resizeCrop(drag.startCrop, drag.handle, point, oriented.width, oriented.height, aspect);
+    setEdits(prev => ({ ...prev, crop }));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleAspectChange = (ratio: number | null) => {
+    setAspect(ratio);
+    if (oriented) setEdits(prev => ({ ...prev, crop: getInitialCrop(oriented.width, oriented.height, ratio) }));
+  };
+
+  const rotate = (delta: 90 | -90) => {
+    if (!bitmap) return;
+    const rotation = ((edits.rotation + delta + 360) % 360) as Rotation;
+    const next = getOrientedSize(bitmap.width, bitmap.height, rotation);
+    setEdits(prev => ({ ...prev, rotation, crop: getInitialCrop(next.width, next.height, aspect) }));
+  };
+
+  const flip = (axis: 'flipX' | 'flipY') => {
+    // Mirror the crop too, so it stays over the same part of the photo.
+    setEdits(prev => ({
+      ...prev,
+      [getFlipAxis(axis, prev.rotation)]: !prev[getFlipAxis(axis, prev.rotation)],
+      crop: axis === 'flipX'
+        ? { ...prev.crop, x: 1 - prev.crop.x - prev.crop.width }
+        : { ...prev.crop, y: 1 - prev.crop.y - prev.crop.height },
+    }));
+  };
+
+  const handleReset = () => {
+    setEdits(DEFAULT_EDITS);
+    setAspect(null);
+    setZoom(1);
+  };
+
+  const handleApply = async () => {
+    if (!bitmap) return;
+    if (isUnedited(edits)) {
+      onClose();
+      return;
+    }
+    setIsApplying(true);
+    try {
+      onApply(await renderEditedImage(file, bitmap, edits));
+    } catch (err) {
+      console.error("Failed to apply image edits:", err);
+      setLoadError(true);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const { crop } = edits;
+  const cropPixels = oriented && `${Math.round(crop.width * oriented.width)} × ${Math.round(crop.height * oriented.height)}`;
+
+  // Portaled so the fixed overlay isn't trapped by a transformed ancestor (e.g. animate-fade-in).
+  return createPortal(
+    <div className="fixed inset-0 z-[100] bg-black bg-opacity-70 flex items-center justify-center animate-fade-in p-4" onClick={onClose}>
+      <div className="bg-cream dark:bg-dark-olive p-6 rounded-lg shadow-2xl max-w-2xl w-full relative" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold mb-4 text-dark-olive dark:text-cream text-center">Chỉnh sửa ảnh</h2>
+        <button onClick={onClose} className="absolute top-3 right-3 text-dark-olive/50 hover:text-dark-olive dark:text-cream/50 dark:hover:text-cream transition-colors" aria-label="Đóng">
+          <XIcon className="w-6 h-6" />
+        </button>
+
+        <div className="bg-black/80 rounded-lg overflow-auto" style={{ maxHeight: `${STAGE_MAX_HEIGHT_RATIO * 100}vh` }}>
+          {loadError ? (
+            <p className="p-8 text-center text-cream">Trình duyệt không đọc được ảnh này. Hãy thử ảnh JPEG hoặc PNG.</p>
+          ) : !bitmap ? (
+            <p className="p-8 text-center text-cream">Đang tải ảnh...</p>
+          ) : (
+            <div
+              ref={surfaceRef}
+              className="relative mx-auto overflow-hidden select-none touch-none"
+              style={{ width: displayWidth, height: displayHeight }}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            >
+              <canvas ref={canvasRef} className="block w-full h-full" />
+              <div
+                className="absolute border-2 border-white cursor-move"
+                style={{
+                  left: `${crop.x * 100}%`,
+                  top: `${crop.y * 100}%`,
+                  width: `${crop.width * 100}%`,
+                  height: `${crop.height * 100}%`,
+                  boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.55)',
+                }}
+                onPointerDown={startMove}
+              >
+                <div className="absolute inset-0 pointer-events-none grid grid-cols-3 grid-rows-3">
+                  {Array.from({ length: 9 }, (_, i) => <div key={i} className="border border-white/30" />)}
+                </div>
+                {HANDLES.map(({ handle, className }) => (
+                  <div
+                    key={handle}
+                    className={`absolute w-3 h-3 bg-white rounded-sm ${className}`}
+                    onPointerDown={startResize(handle)}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="mt-4 space-y-4 text-dark-olive dark:text-cream">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-semibold mr-1">Khung cắt</span>
+            {CROP_ASPECTS.map(option => (
+              <button key={option.label} onClick={() => handleAspectChange(option.ratio)} disabled={!bitmap} className={chipClasses(aspect === option.ratio)}>
+                {option.label}
+              </button>
+            ))}
+            {cropPixels && <span className="text-xs text-dark-olive/70 dark:text-cream/70 ml-auto">{cropPixels}px</span>}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <button onClick={() => rotate(-90)} disabled={!bitmap} className={toolButtonClasses} aria-label="Xoay trái" title="Xoay trái">
+              <RotateCcwIcon className="w-5 h-5" />
+            </button>
+            <button onClick={() => rotate(90)} disabled={!bitmap} className={toolButtonClasses} aria-label="Xoay phải" title="Xoay phải">
+              <RotateCwIcon className="w-5 h-5" />
+            </button>
+            <button onClick={() => flip('flipX')} disabled={!bitmap} className={toolButtonClasses} aria-label="Lật ngang" title="Lật ngang">
+              <FlipIcon className="w-5 h-5" />
+            </button>
+            <button onClick={() => flip('flipY')} disabled={!bitmap} className={toolButtonClasses} aria-label="Lật dọc" title="Lật dọc">
+              <FlipIcon className="w-5 h-5 rotate-90" />
+            </button>
+            <label className="flex items-center gap-2 flex-1 min-w-[10rem] text-sm">
+              <span className="font-semibold">Thu phóng</span>
+              <input
+                type="range"
+                min={1}
+                max={MAX_ZOOM}
+                step={0.1}
+                value={zoom}
+                onChange={(e) => setZoom(Number(e.target.value))}
+                disabled={!bitmap}
+                className="flex-1 accent-olive"
+              />
+            </label>
+          </div>
+        </div>
+
+        <div className="flex justify-between gap-2 mt-6">
+          <button onClick={handleReset} disabled={!bitmap} className="px-5 py-2 rounded-full text-dark-olive/80 dark:text-cream/80 hover:bg-dark-olive/10 dark:hover:bg-olive/20 transition-colors font-semibold">
+            Đặt lại
+          </button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-5 py-2 rounded-full text-dark-olive/80 dark:text-cream/80 bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors font-semibold">
+              Hủy
+            </button>
+            <button onClick={handleApply} disabled={!bitmap || isApplying} className="px-6 py-2 rounded-full bg-olive hover:bg-olive/90 text-cream font-bold transition-colors disabled:opacity-50">
+              {isApplying ? 'Đang xử lý...' : 'Áp dụng'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body,
+  );
+};
+
+export default ImageEditor;
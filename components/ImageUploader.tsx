@@ -1,6 +1,10 @@
 import React, { useState, useRef, useEffect } from 'react';
 import UploadIcon from './icons/UploadIcon';
 import XIcon from './icons/XIcon';
+import CropIcon from './icons/CropIcon';
+import ImageEditor from './ImageEditor';
+import { GenerationMetadata } from '../types';
+import { readGenerationMetadata } from '../services/imageMetadata';
 
 interface ImageUploaderProps {
   label: string;
@@ -8,10 +12,24 @@ interface ImageUploaderProps {
   onRemove: () => void;
   initialFile: File | null;
   size?: 'normal' | 'small';
+  /** Called when a picked or dropped image carries settings from an earlier download. */
+  onMetadataFound?: (metadata: GenerationMetadata) => void;
+  /**
+   * Called instead of onImageChange when several images are picked, dropped or
+   * pasted at once. Providing it enables multiple selection in the file picker.
+   */
+  onFilesAdded?: (files: File[]) => void;
 }
 
-const ImageUploader: React.FC<ImageUploaderProps> = ({ label, onImageChange, onRemove, initialFile, size = 'normal' }) => {
+const getImageFiles = (list: FileList | null | undefined): File[] => {
+  const files: File[] = Array.from(list ?? []);
+  return files.filter(file => file.type.startsWith('image/') || /\.hei[cf]$/i.test(file.name));
+};
+
+const ImageUploader: React.FC<ImageUploaderProps> = ({ label, onImageChange, onRemove, initialFile, size = 'normal', onMetadataFound, onFilesAdded }) => {
   const [preview, setPreview] = useState<string | null>(null);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
@@ -27,8 +45,7 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ label, onImageChange, onR
   }, [initialFile]);
 
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0] || null;
+  const acceptFile = (file: File | null) => {
     if (file) {
       const reader = new FileReader();
       reader.onloadend = () => {
@@ -36,18 +53,80 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ label, onImageChange, onR
       };
       reader.readAsDataURL(file);
       onImageChange(file);
+      if (onMetadataFound) {
+        readGenerationMetadata(file).then(metadata => {
+          if (metadata) onMetadataFound(metadata);
+        });
+      }
     } else {
       setPreview(null);
       onImageChange(null);
     }
   };
 
+  const acceptFiles = (files: File[]) => {
+    if (files.length > 1 && onFilesAdded) {
+      onFilesAdded(files);
+    } else if (files.length > 0) {
+      acceptFile(files[0]);
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    acceptFiles(getImageFiles(event.target.files));
+    // Allow picking the same files again after they were removed.
+    event.target.value = "";
+  };
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    setIsDragOver(true);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragOver(false);
+    acceptFiles(getImageFiles(event.dataTransfer.files));
+  };
+
+  const handlePaste = (event: React.ClipboardEvent) => {
+    const files = getImageFiles(event.clipboardData.files);
+    if (files.length === 0) return;
+    // Handled here, so App's page-wide paste listener leaves it alone.
+    event.preventDefault();
+    acceptFiles(files);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.target === event.currentTarget && (event.key === 'Enter' || event.key === ' ')) {
+      event.preventDefault();
+      handleClick();
+    }
+  };
+
   const handleClick = () => {
     if (!preview) {
         fileInputRef.current?.click();
     }
   };
 
+  const handleEdit = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsEditorOpen(true);
+  };
+
+  /** Edited images skip the metadata check; they no longer match the settings they were made with. */
+  const handleEditApplied = (file: File) => {
+    setIsEditorOpen(false);
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      setPreview(reader.result as string);
+    };
+    reader.readAsDataURL(file);
+    onImageChange(file);
+  };
+
   const handleRemove = (e: React.MouseEvent) => {
     e.stopPropagation();
     setPreview(null);
@@ -66,18 +145,31 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ label, onImageChange, onR
     <div className="flex flex-col items-center">
       <div
         onClick={handleClick}
-        className={`relative flex justify-center items-center ${containerClasses} bg-transparent dark:bg-olive/10 border-2 border-dashed border-olive/30 rounded-lg cursor-pointer hover:border-olive transition-colors duration-300`}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsDragOver(false)}
+        onDrop={handleDrop}
+        onPaste={handlePaste}
+        onKeyDown={handleKeyDown}
+        tabIndex={0}
+        title="Bấm, kéo thả hoặc dán (Ctrl+V) ảnh vào đây"
+        className={`relative flex justify-center items-center ${containerClasses} bg-transparent dark:bg-olive/10 border-2 border-dashed ${isDragOver ? 'border-olive bg-olive/10' : 'border-olive/30'} rounded-lg cursor-pointer hover:border-olive focus:outline-none focus:border-olive focus:ring-2 focus:ring-olive/40 transition-colors duration-300`}
       >
         <input
           type="file"
           ref={fileInputRef}
           onChange={handleFileChange}
           className="hidden"
-          accept="image/*"
+          accept="image/*,.heic,.heif"
+          multiple={!!onFilesAdded}
         />
         {preview ? (
           <>
             <img src={preview} alt="Preview" className="w-full h-full object-cover rounded-lg" />
+            {initialFile && (
+              <button onClick={handleEdit} className="absolute top-1 left-1 bg-dark-olive bg-opacity-50 rounded-full p-1 text-cream hover:bg-opacity-75 transition-colors" aria-label="Cắt và xoay ảnh">
+                <CropIcon className="w-4 h-4" />
+              </button>
+            )}
             <button onClick={handleRemove} className="absolute top-1 right-1 bg-dark-olive bg-opacity-50 rounded-full p-1 text-cream hover:bg-opacity-75 transition-colors" aria-label="Remove image">
                 <XIcon className="w-4 h-4" />
             </button>
@@ -89,6 +181,9 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ label, onImageChange, onR
           </div>
         )}
       </div>
+      {isEditorOpen && initialFile && (
+        <ImageEditor file={initialFile} onApply={handleEditApplied} onClose={() => setIsEditorOpen(false)} />
+      )}
     </div>
   );
 };
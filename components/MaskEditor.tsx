@@ -0,0 +1,237 @@
+import React, { useState, useEffect, useRef } from 'react';
+import XIcon from './icons/XIcon';
+import BrushIcon from './icons/BrushIcon';
+import EraserIcon from './icons/EraserIcon';
+import UndoIcon from './icons/UndoIcon';
+import TrashIcon from './icons/TrashIcon';
+import { getMaskSize, isMaskEmpty, loadImage } from '../services/maskEdit';
+
+interface MaskEditorProps {
+  /** Image to paint over; the editor is closed when null. */
+  imageUrl: string | null;
+  onApply: (mask: HTMLCanvasElement, instruction: string) => void;
+  onClose: () => void;
+}
+
+type Tool = 'brush' | 'eraser';
+
+const MAX_UNDO_STEPS = 15;
+const MASK_COLOR = 'rgba(239, 68, 68, 1)';
+
+const toolButtonClasses = (active: boolean) =>
+  `p-2 rounded-full transition-colors disabled:opacity-40 ${active ? 'bg-olive text-cream' : 'bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30'}`;
+
+const MaskEditor: React.FC<MaskEditorProps> = ({ imageUrl, onApply, onClose }) => {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [tool, setTool] = useState<Tool>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+  const [instruction, setInstruction] = useState('');
+  const [undoStack, setUndoStack] = useState<ImageData[]>([]);
+  const [cursor, setCursor] = useState<{ x: number; y: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const maskRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    setImage(null);
+    setUndoStack([]);
+    setError(null);
+    if (!imageUrl) return;
+    let isCurrent = true;
+    loadImage(imageUrl)
+      .then(img => { if (isCurrent) setImage(img); })
+      .catch(() => { if (isCurrent) setError('Không thể tải ảnh.'); });
+    return () => { isCurrent = false; };
+  }, [imageUrl]);
+
+  useEffect(() => {
+    const mask = maskRef.current;
+    if (!mask || !image) return;
+    const size = getMaskSize(image.naturalWidth, image.naturalHeight);
+    mask.width = size.width;
+    mask.height = size.height;
+  }, [image]);
+
+  const getContext = () => maskRef.current?.getContext('2d') ?? null;
+
+  const pushUndo = () => {
+    const ctx = getContext();
+    const mask = maskRef.current;
+    if (!ctx || !mask) return;
+    const snapshot = ctx.getImageData(0, 0, mask.width, mask.height);
+    setUndoStack(prev => [...prev.slice(-(MAX_UNDO_STEPS - 1)), snapshot]);
+  };
+
+  const handleUndo = () => {
+    const ctx = getContext();
+    if (!ctx || undoStack.length === 0) return;
+    ctx.putImageData(undoStack[undoStack.length - 1], 0, 0);
+    setUndoStack(prev => prev.slice(0, -1));
+  };
+
+  const handleClear = () => {
+    const ctx = getContext();
+    const mask = maskRef.current;
+    if (!ctx || !mask) return;
+    pushUndo();
+    ctx.clearRect(0, 0, mask.width, mask.height);
+  };
+
+  useEffect(() => {
+    if (!imageUrl) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'z' && !(event.target as HTMLElement)?.closest('textarea')) {
+        event.preventDefault();
+        handleUndo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  /** Pointer position in mask pixels, plus the display-to-mask scale for the brush. */
+  const getPoint = (e: React.PointerEvent) => {
+    const mask = maskRef.current!;
+    const rect = mask.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * mask.width,
+      y: ((e.clientY - rect.top) / rect.height) * mask.height,
+      scale: mask.width / rect.width,
+    };
+  };
+
+  const drawSegment = (from: { x: number; y: number }, to: { x: number; y: number }, scale: number) => {
+    const ctx = getContext();
+    if (!ctx) return;
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = brushSize * scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pushUndo();
+    const point = getPoint(e);
+    lastPoint.current = point;
+    drawSegment(point, point, point.scale);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setCursor({ x: e.clientX - rect.left, y: e.clientY - rect.top });
+    if (!lastPoint.current) return;
+    const point = getPoint(e);
+    drawSegment(lastPoint.current, point, point.scale);
+    lastPoint.current = point;
+  };
+
+  const handlePointerUp = () => {
+    lastPoint.current = null;
+  };
+
+  const handleApply = () => {
+    const mask = maskRef.current;
+    if (!mask) return;
+    if (isMaskEmpty(mask)) {
+      setError('Hãy tô lên vùng bạn muốn sửa.');
+      return;
+    }
+    if (!instruction.trim()) {
+      setError('Hãy nhập yêu cầu chỉnh sửa cho vùng đã tô.');
+      return;
+    }
+    onApply(mask, instruction.trim());
+  };
+
+  if (!imageUrl) return null;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black bg-opacity-70 flex items-center justify-center animate-fade-in p-4" onClick={onClose}>
+      <div className="bg-cream dark:bg-dark-olive p-6 rounded-lg shadow-2xl max-w-2xl w-full relative max-h-full overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold mb-1 text-dark-olive dark:text-cream text-center">Sửa một vùng</h2>
+        <p className="text-sm text-dark-olive/70 dark:text-cream/70 mb-4 text-center">Tô lên phần muốn thay đổi, phần còn lại của ảnh được giữ nguyên.</p>
+        <button onClick={onClose} className="absolute top-3 right-3 text-dark-olive/50 hover:text-dark-olive dark:text-cream/50 dark:hover:text-cream transition-colors" aria-label="Đóng">
+          <XIcon className="w-6 h-6" />
+        </button>
+
+        <div className="flex justify-center bg-black/80 rounded-lg p-2">
+          {!image ? (
+            <p className="p-8 text-center text-cream">{error ?? 'Đang tải ảnh...'}</p>
+          ) : (
+            <div
+              className="relative select-none touch-none cursor-none"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              onPointerLeave={() => setCursor(null)}
+            >
+              <img src={imageUrl} alt="Ảnh cần sửa" className="block max-w-full max-h-[50vh] pointer-events-none" draggable={false} />
+              <canvas ref={maskRef} className="absolute inset-0 w-full h-full opacity-50 pointer-events-none" />
+              {cursor && (
+                <div
+                  className="absolute rounded-full border-2 border-white pointer-events-none"
+                  style={{ left: cursor.x - brushSize / 2, top: cursor.y - brushSize / 2, width: brushSize, height: brushSize, boxShadow: '0 0 0 1px rgba(0, 0, 0, 0.5)' }}
+                />
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="mt-4 flex flex-wrap items-center gap-3 text-dark-olive dark:text-cream">
+          <button onClick={() => setTool('brush')} className={toolButtonClasses(tool === 'brush')} aria-label="Cọ" title="Cọ">
+            <BrushIcon className="w-5 h-5" />
+          </button>
+          <button onClick={() => setTool('eraser')} className={toolButtonClasses(tool === 'eraser')} aria-label="Tẩy" title="Tẩy">
+            <EraserIcon className="w-5 h-5" />
+          </button>
+          <button onClick={handleUndo} disabled={undoStack.length === 0} className={toolButtonClasses(false)} aria-label="Hoàn tác" title="Hoàn tác (Ctrl+Z)">
+            <UndoIcon className="w-5 h-5" />
+          </button>
+          <button onClick={handleClear} disabled={!image} className={toolButtonClasses(false)} aria-label="Xóa mặt nạ" title="Xóa mặt nạ">
+            <TrashIcon className="w-5 h-5" />
+          </button>
+          <label className="flex items-center gap-2 flex-1 min-w-[10rem] text-sm">
+            <span className="font-semibold">Cỡ cọ</span>
+            <input
+              type="range"
+              min={5}
+              max={150}
+              value={brushSize}
+              onChange={(e) => setBrushSize(Number(e.target.value))}
+              className="flex-1 accent-olive"
+            />
+            <span className="w-10 text-right">{brushSize}px</span>
+          </label>
+        </div>
+
+        <textarea
+          value={instruction}
+          onChange={(e) => { setInstruction(e.target.value); setError(null); }}
+          placeholder="Ví dụ: xóa vết xước, đổi áo thành màu đỏ, thêm kính râm..."
+          className="w-full mt-4 p-3 bg-dark-olive/5 dark:bg-olive/20 border border-olive/30 rounded-lg focus:ring-2 focus:ring-olive focus:border-olive transition text-dark-olive dark:text-cream placeholder:text-dark-olive/50 dark:placeholder:text-cream/50"
+          rows={2}
+        />
+        {image && error && <p className="text-sm text-red-600 dark:text-red-400 mt-2">{error}</p>}
+
+        <div className="flex justify-end gap-2 mt-4">
+          <button onClick={onClose} className="px-5 py-2 rounded-full text-dark-olive/80 dark:text-cream/80 bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors font-semibold">
+            Hủy
+          </button>
+          <button onClick={handleApply} disabled={!image} className="px-6 py-2 rounded-full bg-olive hover:bg-olive/90 text-cream font-bold transition-colors disabled:opacity-50">
+            Sửa vùng đã tô
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MaskEditor;
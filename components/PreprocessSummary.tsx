@@ -0,0 +1,88 @@
+import React, { useState, useEffect } from 'react';
+import {
+  PreprocessOptions,
+  PreprocessedImage,
+  MAX_EDGE_OPTIONS,
+  preprocessImages,
+  getPayloadSize,
+  formatBytes,
+} from '../services/imagePreprocess';
+
+interface PreprocessSummaryProps {
+  images: (File | null)[];
+  options: PreprocessOptions;
+  onOptionsChange: (options: PreprocessOptions) => void;
+  disabled?: boolean;
+}
+
+type SummaryState =
+  | { status: 'idle' }
+  | { status: 'working' }
+  | { status: 'done'; results: PreprocessedImage[] }
+  | { status: 'error' };
+
+const PreprocessSummary: React.FC<PreprocessSummaryProps> = ({ images, options, onOptionsChange, disabled = false }) => {
+  const [summary, setSummary] = useState<SummaryState>({ status: 'idle' });
+
+  useEffect(() => {
+    const files = images.filter((img): img is File => img !== null);
+    if (files.length === 0) {
+      setSummary({ status: 'idle' });
+      return;
+    }
+    let isCurrent = true;
+    setSummary({ status: 'working' });
+    preprocessImages(files, options)
+      .then(results => { if (isCurrent) setSummary({ status: 'done', results }); })
+      .catch(() => { if (isCurrent) setSummary({ status: 'error' }); });
+    return () => { isCurrent = false; };
+  }, [images, options]);
+
+  const renderDetails = () => {
+    switch (summary.status) {
+      case 'idle':
+        return null;
+      case 'working':
+        return <span>Đang xử lý ảnh...</span>;
+      case 'error':
+        return <span className="text-red-600 dark:text-red-400">Có ảnh không đọc được (tệp bị hỏng hoặc định dạng không hỗ trợ). Hãy chuyển sang JPEG hoặc PNG.</span>;
+      case 'done': {
+        const { results } = summary;
+        const originalSize = results.reduce((total, r) => total + r.originalSize, 0);
+        const notes = [
+          results.some(r => r.rotated) && 'đã xoay theo EXIF',
+          results.some(r => r.resized) && 'đã thu nhỏ',
+          results.some(r => r.converted) && 'đã chuyển định dạng',
+          results.some(r => r.gpsRemoved) && 'đã xóa vị trí GPS',
+        ].filter(Boolean);
+        return (
+          <span>
+            Gửi đi: <strong>{formatBytes(getPayloadSize(results))}</strong> (gốc {formatBytes(originalSize)})
+            {notes.length > 0 && <> · {notes.join(', ')}</>}
+          </span>
+        );
+      }
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap justify-center items-center gap-x-4 gap-y-2 text-xs text-dark-olive/80 dark:text-cream/80">
+      <label className="flex items-center gap-2">
+        <span>Cạnh dài tối đa khi gửi</span>
+        <select
+          value={options.maxEdge ?? ''}
+          onChange={(e) => onOptionsChange({ ...options, maxEdge: e.target.value ? Number(e.target.value) : null })}
+          disabled={disabled}
+          className="p-1 bg-dark-olive/5 dark:bg-olive/20 border border-olive/30 rounded-lg focus:ring-2 focus:ring-olive focus:border-olive transition text-dark-olive dark:text-cream disabled:opacity-50"
+        >
+          {MAX_EDGE_OPTIONS.map(size => (
+            <option key={size ?? 'original'} value={size ?? ''}>{size ? `${size}px` : 'Giữ nguyên'}</option>
+          ))}
+        </select>
+      </label>
+      {renderDetails()}
+    </div>
+  );
+};
+
+export default PreprocessSummary;
@@ -0,0 +1,116 @@
+import React, { useState, useEffect } from 'react';
+
+export type CompareMode = 'off' | 'split' | 'side' | 'hold';
+
+export const COMPARE_MODES: { value: CompareMode; label: string }[] = [
+  { value: 'off', label: 'Tắt' },
+  { value: 'split', label: 'Thanh trượt' },
+  { value: 'side', label: 'Cạnh nhau' },
+  { value: 'hold', label: 'Giữ để xem' },
+];
+
+interface PreviewCompareProps {
+  mode: CompareMode;
+  resultUrl: string;
+  /** Image to compare against; without it only the result is shown. */
+  beforeUrl: string | null;
+  /** Shared zoom/pan transform, applied to both images so they stay in sync. */
+  transform: string;
+  /** Attached to the result image; the preview uses it to bound panning. */
+  imageRef: React.RefObject<HTMLImageElement>;
+}
+
+const imageClasses = "max-w-full max-h-full object-contain transition-transform duration-100 select-none";
+const layerClasses = "absolute inset-0 flex items-center justify-center";
+const labelClasses = "absolute top-4 px-2 py-1 rounded bg-black/60 text-cream text-xs font-semibold pointer-events-none";
+
+/** Keeps the compare controls from starting a pan in the preview underneath. */
+const stopPanning = {
+  onMouseDown: (e: React.MouseEvent) => e.stopPropagation(),
+  onTouchStart: (e: React.TouchEvent) => e.stopPropagation(),
+};
+
+const PreviewCompare: React.FC<PreviewCompareProps> = ({ mode, resultUrl, beforeUrl, transform, imageRef }) => {
+  const [split, setSplit] = useState(0.5);
+  const [isHolding, setIsHolding] = useState(false);
+
+  useEffect(() => {
+    setIsHolding(false);
+  }, [mode, beforeUrl]);
+
+  const resultImage = <img ref={imageRef} src={resultUrl} alt="Kết quả" className={imageClasses} style={{ transform }} draggable="false" />;
+
+  if (mode === 'off' || !beforeUrl) {
+    return resultImage;
+  }
+
+  const beforeImage = <img src={beforeUrl} alt="Ảnh gốc" className={imageClasses} style={{ transform }} draggable="false" />;
+
+  if (mode === 'side') {
+    return (
+      <div className="flex w-full h-full">
+        <div className="relative flex-1 flex items-center justify-center overflow-hidden border-r border-white/30">
+          {beforeImage}
+          <span className={`${labelClasses} left-4`}>Trước</span>
+        </div>
+        <div className="relative flex-1 flex items-center justify-center overflow-hidden">
+          {resultImage}
+          <span className={`${labelClasses} right-4`}>Sau</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (mode === 'hold') {
+    return (
+      <>
+        <div className={layerClasses}>{resultImage}</div>
+        <div className={`${layerClasses} pointer-events-none transition-opacity duration-150 ${isHolding ? 'opacity-100' : 'opacity-0'}`}>{beforeImage}</div>
+        <span className={`${labelClasses} left-4`}>{isHolding ? 'Trước' : 'Sau'}</span>
+        <button
+          {...stopPanning}
+          onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); setIsHolding(true); }}
+          onPointerUp={() => setIsHolding(false)}
+          onPointerCancel={() => setIsHolding(false)}
+          onContextMenu={(e) => e.preventDefault()}
+          className="absolute bottom-20 left-1/2 -translate-x-1/2 px-5 py-2 rounded-full bg-white/20 hover:bg-white/30 text-white font-semibold select-none touch-none transition-colors"
+        >
+          Giữ để xem ảnh gốc
+        </button>
+      </>
+    );
+  }
+
+  const updateSplit = (e: React.PointerEvent) => {
+    const rect = (e.currentTarget.parentElement as HTMLElement).getBoundingClientRect();
+    setSplit(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+  };
+
+  return (
+    <>
+      <div className={layerClasses}>{resultImage}</div>
+      <div className={`${layerClasses} pointer-events-none`} style={{ clipPath: `inset(0 ${(1 - split) * 100}% 0 0)` }}>{beforeImage}</div>
+      <span className={`${labelClasses} left-4`}>Trước</span>
+      <span className={`${labelClasses} right-4`}>Sau</span>
+      <div
+        {...stopPanning}
+        onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); updateSplit(e); }}
+        onPointerMove={(e) => { if (e.currentTarget.hasPointerCapture(e.pointerId)) updateSplit(e); }}
+        className="absolute top-0 bottom-0 w-8 -ml-4 flex justify-center cursor-ew-resize touch-none"
+        style={{ left: `${split * 100}%` }}
+        role="slider"
+        aria-label="Vị trí so sánh"
+        aria-valuenow={Math.round(split * 100)}
+        aria-valuemin={0}
+        aria-valuemax={100}
+      >
+        <div className="w-0.5 h-full bg-white shadow" />
+        <div className="absolute top-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white text-dark-olive flex items-center justify-center shadow-lg text-xs font-bold">
+          ⇆
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default PreviewCompare;
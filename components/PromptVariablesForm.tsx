@@ -0,0 +1,100 @@
+import React from 'react';
+import { PromptSweep, PromptVariable, PromptVariableValues } from '../types';
+import { getSweepableVariables } from '../services/promptTemplate';
+
+interface PromptVariablesFormProps {
+  variables: PromptVariable[];
+  values: PromptVariableValues;
+  onChange: (values: PromptVariableValues) => void;
+  /** Sweep controls are only shown when both of these are provided. */
+  sweep?: PromptSweep | null;
+  onSweepChange?: (sweep: PromptSweep | null) => void;
+  disabled?: boolean;
+}
+
+const inputClasses = "w-full p-2 bg-dark-olive/5 dark:bg-olive/20 border border-olive/30 rounded-lg focus:ring-2 focus:ring-olive focus:border-olive transition text-dark-olive dark:text-cream text-sm disabled:opacity-50";
+
+const PromptVariablesForm: React.FC<PromptVariablesFormProps> = ({ variables, values, onChange, sweep, onSweepChange, disabled }) => {
+  if (variables.length === 0) return null;
+
+  const canSweep = onSweepChange !== undefined;
+  const sweepable = getSweepableVariables(variables);
+
+  const setValue = (name: string, value: string) => {
+    onChange({ ...values, [name]: value });
+  };
+
+  const toggleSweep = (variable: PromptVariable) => {
+    if (!onSweepChange) return;
+    if (sweep?.name === variable.name) {
+      onSweepChange(null);
+    } else {
+      onSweepChange({ name: variable.name, values: (variable.options ?? []).map(option => option.value) });
+    }
+  };
+
+  const toggleSweepValue = (value: string) => {
+    if (!sweep || !onSweepChange) return;
+    const next = sweep.values.includes(value)
+      ? sweep.values.filter(v => v !== value)
+      : [...sweep.values, value];
+    onSweepChange({ ...sweep, values: next });
+  };
+
+  return (
+    <div className="space-y-3 p-4 bg-dark-olive/5 dark:bg-olive/20 rounded-lg">
+      <h3 className="text-sm font-semibold text-dark-olive/90 dark:text-cream/90">Tùy chỉnh style</h3>
+      {variables.map(variable => {
+        const isSwept = sweep?.name === variable.name;
+        return (
+          <div key={variable.name}>
+            <div className="flex items-center justify-between mb-1">
+              <label htmlFor={`prompt-var-${variable.name}`} className="text-sm font-medium">{variable.label}</label>
+              {canSweep && sweepable.includes(variable) && (
+                <label className="flex items-center gap-1 text-xs cursor-pointer">
+                  <input type="checkbox" checked={isSwept} onChange={() => toggleSweep(variable)} disabled={disabled} className="accent-olive" />
+                  <span>Chạy qua nhiều giá trị</span>
+                </label>
+              )}
+            </div>
+            {isSwept ? (
+              <div className="flex flex-wrap gap-2">
+                {variable.options?.map(option => (
+                  <label key={option.value} className={`px-3 py-1 rounded-full text-xs font-semibold cursor-pointer transition-colors ${sweep.values.includes(option.value) ? 'bg-olive text-cream' : 'bg-dark-olive/10 dark:bg-olive/20'}`}>
+                    <input type="checkbox" className="hidden" checked={sweep.values.includes(option.value)} onChange={() => toggleSweepValue(option.value)} disabled={disabled} />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+            ) : variable.type === 'select' ? (
+              <select
+                id={`prompt-var-${variable.name}`}
+                value={values[variable.name] ?? variable.default}
+                onChange={(e) => setValue(variable.name, e.target.value)}
+                disabled={disabled}
+                className={inputClasses}
+              >
+                {variable.options?.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            ) : (
+              <input
+                id={`prompt-var-${variable.name}`}
+                type={variable.type === 'number' ? 'number' : 'text'}
+                min={variable.min}
+                max={variable.max}
+                value={values[variable.name] ?? variable.default}
+                onChange={(e) => setValue(variable.name, e.target.value)}
+                disabled={disabled}
+                className={inputClasses}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PromptVariablesForm;
@@ -0,0 +1,44 @@
+import React from 'react';
+
+interface QueueSettingsProps {
+  concurrency: number;
+  requestsPerMinute: number;
+  onConcurrencyChange: (value: number) => void;
+  onRequestsPerMinuteChange: (value: number) => void;
+  disabled?: boolean;
+}
+
+const inputClasses = "w-20 p-2 text-center bg-dark-olive/5 dark:bg-olive/20 border border-olive/30 rounded-lg focus:ring-2 focus:ring-olive focus:border-olive transition text-dark-olive dark:text-cream disabled:opacity-50";
+
+const QueueSettings: React.FC<QueueSettingsProps> = ({ concurrency, requestsPerMinute, onConcurrencyChange, onRequestsPerMinuteChange, disabled = false }) => {
+  return (
+    <div className="flex flex-wrap justify-center items-end gap-4 text-sm">
+      <label className="flex flex-col items-center gap-1">
+        <span className="text-dark-olive/80 dark:text-cream/80">Chạy song song</span>
+        <input
+          type="number"
+          min={1}
+          max={10}
+          value={concurrency}
+          onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+          disabled={disabled}
+          className={inputClasses}
+        />
+      </label>
+      <label className="flex flex-col items-center gap-1">
+        <span className="text-dark-olive/80 dark:text-cream/80">Giới hạn yêu cầu/phút của Key</span>
+        <input
+          type="number"
+          min={1}
+          max={1000}
+          value={requestsPerMinute}
+          onChange={(e) => onRequestsPerMinuteChange(Number(e.target.value))}
+          disabled={disabled}
+          className={inputClasses}
+        />
+      </label>
+    </div>
+  );
+};
+
+export default QueueSettings;
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { ImageVersion, getVersionPath, hasChildren } from '../services/imageVersions';
+
+interface RefinementPanelProps {
+  versions: ImageVersion[];
+  activeId: number | null;
+  onSubmit: (instruction: string) => void;
+  disabled?: boolean;
+}
+
+const SUGGESTIONS = ['Làm nền ấm hơn', 'Xóa vật thể thừa phía sau', 'Tăng độ sáng khuôn mặt', 'Đổi sang ánh sáng hoàng hôn'];
+
+const RefinementPanel: React.FC<RefinementPanelProps> = ({ versions, activeId, onSubmit, disabled = false }) => {
+  const [instruction, setInstruction] = useState('');
+  const path = getVersionPath(versions, activeId);
+  const isBranching = activeId !== null && hasChildren(versions, activeId);
+
+  const handleSubmit = () => {
+    const text = instruction.trim();
+    if (!text || disabled) return;
+    onSubmit(text);
+    setInstruction('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  return (
+    <div className="w-full max-w-md p-4 bg-dark-olive/5 dark:bg-olive/20 rounded-lg text-left">
+      <h3 className="text-md font-semibold text-dark-olive/90 dark:text-cream/90 mb-3 text-center">Tinh chỉnh bằng lời</h3>
+
+      <div className="space-y-2 max-h-48 overflow-y-auto mb-3">
+        {path.map(version => (
+          <div key={version.id} className="text-sm">
+            {version.instruction ? (
+              <>
+                <p className="ml-auto w-fit max-w-[85%] px-3 py-1.5 rounded-2xl rounded-br-sm bg-olive text-cream">{version.instruction}</p>
+                <p className="text-xs text-dark-olive/60 dark:text-cream/60 mt-0.5">→ v{version.id} · {version.operation}</p>
+              </>
+            ) : (
+              <p className="text-xs text-dark-olive/60 dark:text-cream/60">v{version.id} · {version.operation}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {isBranching && (
+        <p className="text-xs text-yellow-700 dark:text-yellow-400 mb-2">Đang ở v{activeId}: yêu cầu tiếp theo sẽ tạo một nhánh mới.</p>
+      )}
+
+      <div className="flex flex-wrap gap-1.5 mb-2">
+        {SUGGESTIONS.map(suggestion => (
+          <button
+            key={suggestion}
+            onClick={() => setInstruction(suggestion)}
+            disabled={disabled}
+            className="px-2.5 py-1 rounded-full text-xs bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors disabled:opacity-50"
+          >
+            {suggestion}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <textarea
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Bạn muốn sửa gì tiếp theo?"
+          disabled={disabled}
+          rows={2}
+          className="flex-1 p-2 text-sm bg-cream dark:bg-dark-olive border border-olive/30 rounded-lg focus:ring-2 focus:ring-olive focus:border-olive transition text-dark-olive dark:text-cream placeholder:text-dark-olive/50 dark:placeholder:text-cream/50 disabled:opacity-50"
+        />
+        <button
+          onClick={handleSubmit}
+          disabled={disabled || !instruction.trim()}
+          className="self-end px-4 py-2 rounded-full bg-olive hover:bg-olive/90 text-cream font-bold transition-colors disabled:opacity-50"
+        >
+          Gửi
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RefinementPanel;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { GenerationMetadata } from '../types';
+
+interface RestoreSettingsModalProps {
+  metadata: GenerationMetadata | null;
+  /** Current name of the style, or undefined when it no longer exists in the library. */
+  styleName?: string;
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+const RestoreSettingsModal: React.FC<RestoreSettingsModalProps> = ({ metadata, styleName, onConfirm, onClose }) => {
+  if (!metadata) return null;
+
+  const createdAt = new Date(metadata.createdAt);
+
+  return (
+    <div className="fixed inset-0 z-[95] bg-black bg-opacity-70 flex items-center justify-center animate-fade-in p-4" onClick={onClose}>
+      <div className="bg-cream dark:bg-dark-olive p-6 rounded-lg shadow-2xl max-w-md w-full" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold mb-2 text-dark-olive dark:text-cream text-center">Khôi phục cài đặt?</h2>
+        <p className="text-sm text-dark-olive/80 dark:text-cream/80 mb-4 text-center">
+          Ảnh này được tạo bằng ứng dụng và còn lưu lại cài đặt đã dùng.
+        </p>
+        <dl className="text-sm space-y-2 mb-4">
+          <div className="flex gap-2">
+            <dt className="font-semibold shrink-0">Style:</dt>
+            <dd>{metadata.styleId ? (styleName ?? `${metadata.styleName ?? metadata.styleId} (không còn trong thư viện)`) : 'Lệnh tùy chỉnh'}</dd>
+          </div>
+          <div className="flex gap-2">
+            <dt className="font-semibold shrink-0">Model:</dt>
+            <dd className="break-all">{metadata.model}</dd>
+          </div>
+          {metadata.enhancements.length > 0 && (
+            <div className="flex gap-2">
+              <dt className="font-semibold shrink-0">Xử lý thêm:</dt>
+              <dd>{metadata.enhancements.join(' → ')}</dd>
+            </div>
+          )}
+          {!isNaN(createdAt.getTime()) && (
+            <div className="flex gap-2">
+              <dt className="font-semibold shrink-0">Thời gian:</dt>
+              <dd>{createdAt.toLocaleString('vi-VN')}</dd>
+            </div>
+          )}
+          <div>
+            <dt className="font-semibold">Prompt:</dt>
+            <dd className="mt-1 p-2 bg-dark-olive/5 dark:bg-olive/20 rounded max-h-32 overflow-y-auto text-xs whitespace-pre-wrap">{metadata.prompt}</dd>
+          </div>
+        </dl>
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="px-5 py-2 rounded-full text-dark-olive/80 dark:text-cream/80 bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors font-semibold">
+            Bỏ qua
+          </button>
+          <button onClick={onConfirm} className="px-6 py-2 rounded-full bg-olive hover:bg-olive/90 text-cream font-bold transition-colors">
+            Khôi phục
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RestoreSettingsModal;
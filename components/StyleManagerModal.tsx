@@ -0,0 +1,211 @@
+import React, { useState, useEffect } from 'react';
+import { Style } from '../types';
+import { STYLES } from '../constants';
+import { createStyleId } from '../services/styleLibrary';
+import XIcon from './icons/XIcon';
+import TrashIcon from './icons/TrashIcon';
+import PlusIcon from './icons/PlusIcon';
+import StylePackPanel from './StylePackPanel';
+
+interface StyleManagerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  customStyles: Style[];
+  onChange: (styles: Style[]) => void;
+  /** When set, the editor opens pre-filled with this prompt so a custom prompt can be saved as a style. */
+  draftPrompt?: string | null;
+}
+
+type Draft = { id: string | null; name: string; prompt: string; description: string; requiredImages: string };
+
+const emptyDraft: Draft = { id: null, name: '', prompt: '', description: '', requiredImages: '' };
+
+const smallButtonClasses = "px-3 py-1 rounded-full text-xs font-semibold bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+const inputClasses = "w-full p-3 bg-dark-olive/5 dark:bg-olive/20 border border-olive/30 rounded-lg focus:ring-2 focus:ring-olive focus:border-olive transition text-dark-olive dark:text-cream placeholder:text-dark-olive/50 dark:placeholder:text-cream/50";
+
+const StyleManagerModal: React.FC<StyleManagerModalProps> = ({ isOpen, onClose, customStyles, onChange, draftPrompt }) => {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(draftPrompt ? { ...emptyDraft, prompt: draftPrompt } : null);
+      setDraftError(null);
+      setPendingDeleteId(null);
+    }
+  }, [isOpen, draftPrompt]);
+
+  if (!isOpen) return null;
+
+  const allStyles = [...STYLES, ...customStyles];
+
+  const startCreate = () => {
+    setDraft(emptyDraft);
+    setDraftError(null);
+  };
+
+  const startEdit = (style: Style) => {
+    setDraft({
+      id: style.id,
+      name: style.name,
+      prompt: style.prompt,
+      description: style.description ?? '',
+      requiredImages: style.requiredImages?.toString() ?? '',
+    });
+    setDraftError(null);
+  };
+
+  const duplicate = (style: Style) => {
+    const name = `${style.name} (bản sao)`;
+    const copy: Style = { ...style, id: createStyleId(name, allStyles), name, isCustom: true };
+    onChange([...customStyles, copy]);
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= customStyles.length) return;
+    const next = [...customStyles];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const remove = (id: string) => {
+    onChange(customStyles.filter(style => style.id !== id));
+    setPendingDeleteId(null);
+    if (draft?.id === id) setDraft(null);
+  };
+
+  const saveDraft = () => {
+    if (!draft) return;
+    const name = draft.name.trim();
+    const prompt = draft.prompt.trim();
+    if (!name || !prompt) {
+      setDraftError("Vui lòng nhập cả tên và prompt cho style.");
+      return;
+    }
+    const details = {
+      description: draft.description.trim() || undefined,
+      requiredImages: draft.requiredImages ? Math.max(0, parseInt(draft.requiredImages, 10) || 0) : undefined,
+    };
+    if (draft.id) {
+      onChange(customStyles.map(style => style.id === draft.id ? { ...style, name, prompt, ...details } : style));
+    } else {
+      onChange([...customStyles, { id: createStyleId(name, allStyles), name, prompt, ...details, isCustom: true }]);
+    }
+    setDraft(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black bg-opacity-70 flex items-center justify-center animate-fade-in p-4" onClick={onClose}>
+      <div className="bg-cream dark:bg-dark-olive p-6 rounded-lg shadow-2xl max-w-2xl w-full max-h-[90vh] flex flex-col relative" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold mb-4 text-dark-olive dark:text-cream text-center">Quản lý style</h2>
+        <button onClick={onClose} className="absolute top-3 right-3 text-dark-olive/50 hover:text-dark-olive dark:text-cream/50 dark:hover:text-cream transition-colors" aria-label="Đóng">
+          <XIcon className="w-6 h-6" />
+        </button>
+
+        <div className="flex-grow overflow-y-auto -mx-1 px-1 space-y-6">
+          {draft ? (
+            <div className="space-y-3 p-4 bg-dark-olive/5 dark:bg-olive/20 rounded-lg animate-fade-in">
+              <h3 className="font-semibold">{draft.id ? 'Sửa style' : 'Style mới'}</h3>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Tên style"
+                className={inputClasses}
+              />
+              <textarea
+                value={draft.prompt}
+                onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+                placeholder="Prompt (câu lệnh) của style..."
+                className={inputClasses}
+                rows={6}
+              />
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                <input
+                  type="text"
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  placeholder="Mô tả ngắn (không bắt buộc)"
+                  className={`${inputClasses} sm:col-span-2`}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  max={10}
+                  value={draft.requiredImages}
+                  onChange={(e) => setDraft({ ...draft, requiredImages: e.target.value })}
+                  placeholder="Số ảnh cần"
+                  className={inputClasses}
+                />
+              </div>
+              {draftError && <p className="text-red-500 text-sm">{draftError}</p>}
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setDraft(null)} className="px-5 py-2 rounded-full text-dark-olive/80 dark:text-cream/80 bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors font-semibold">
+                  Hủy
+                </button>
+                <button onClick={saveDraft} className="px-6 py-2 rounded-full bg-olive hover:bg-olive/90 text-cream font-bold transition-colors">
+                  Lưu style
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button onClick={startCreate} className="w-full flex justify-center items-center space-x-2 p-3 rounded-lg bg-dark-olive/10 dark:bg-olive/20 hover:bg-dark-olive/20 dark:hover:bg-olive/30 transition-colors">
+              <PlusIcon className="w-5 h-5" />
+              <span>Tạo style mới</span>
+            </button>
+          )}
+
+          <StylePackPanel customStyles={customStyles} onImport={onChange} />
+
+          <div>
+            <h3 className="font-semibold mb-2">Style của bạn</h3>
+            {customStyles.length === 0 ? (
+              <p className="text-sm text-dark-olive/70 dark:text-cream/70">Bạn chưa có style riêng. Hãy tạo mới hoặc nhân bản một style có sẵn.</p>
+            ) : (
+              <ul className="space-y-2">
+                {customStyles.map((style, index) => (
+                  <li key={style.id} className="p-3 bg-dark-olive/5 dark:bg-olive/20 rounded-lg">
+                    <div className="flex items-center gap-2">
+                      <span className="font-bold flex-grow truncate">{style.name}</span>
+                      <button onClick={() => move(index, -1)} disabled={index === 0} className={smallButtonClasses} aria-label={`Đưa ${style.name} lên`}>↑</button>
+                      <button onClick={() => move(index, 1)} disabled={index === customStyles.length - 1} className={smallButtonClasses} aria-label={`Đưa ${style.name} xuống`}>↓</button>
+                      <button onClick={() => startEdit(style)} className={smallButtonClasses}>Sửa</button>
+                      <button onClick={() => duplicate(style)} className={smallButtonClasses}>Nhân bản</button>
+                      <button onClick={() => setPendingDeleteId(style.id)} className="p-1.5 rounded-full text-red-500 hover:bg-red-500/10 transition-colors" aria-label={`Xóa ${style.name}`}>
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <p className="text-xs text-dark-olive/70 dark:text-cream/70 mt-1 line-clamp-2">{style.prompt}</p>
+                    {pendingDeleteId === style.id && (
+                      <div className="flex items-center justify-end gap-2 mt-2 text-sm">
+                        <span className="mr-auto">Xóa style này?</span>
+                        <button onClick={() => setPendingDeleteId(null)} className={smallButtonClasses}>Hủy</button>
+                        <button onClick={() => remove(style.id)} className="px-3 py-1 rounded-full text-xs font-bold bg-red-600 hover:bg-red-700 text-cream transition-colors">Xóa</button>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <h3 className="font-semibold mb-2">Style có sẵn</h3>
+            <ul className="space-y-2">
+              {STYLES.map(style => (
+                <li key={style.id} className="p-3 bg-dark-olive/5 dark:bg-olive/10 rounded-lg flex items-center gap-2">
+                  <span className="font-bold flex-grow truncate">{style.name}</span>
+                  <button onClick={() => duplicate(style)} className={smallButtonClasses}>Nhân bản để sửa</button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StyleManagerModal;
@@ -0,0 +1,281 @@
+import React, { useState, useRef } from 'react';
+import { Style, StylePack } from '../types';
+import { STYLES } from '../constants';
+import {
+  createStylePack,
+  downloadStylePack,
+  serializeStylePack,
+  parseStylePack,
+  detectCollisions,
+  applyStylePackImport,
+  StylePackError,
+  ImportCandidate,
+  CollisionResolution,
+} from '../services/stylePack';
+import { createThumbnail } from '../services/historyService';
+import DownloadIcon from './icons/DownloadIcon';
+import UploadIcon from './icons/UploadIcon';
+
+interface StylePackPanelProps {
+  customStyles: Style[];
+  onImport: (styles: Style[]) => void;
+}
+
+const smallButtonClasses = "px-3 py-1 rounded-full text-xs font-semibold bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+const inputClasses = "w-full p-2 bg-dark-olive/5 dark:bg-olive/20 border border-olive/30 rounded-lg focus:ring-2 focus:ring-olive focus:border-olive transition text-dark-olive dark:text-cream placeholder:text-dark-olive/50 dark:placeholder:text-cream/50 text-sm";
+
+const COLLISION_LABELS: Record<ImportCandidate['collision'], string> = {
+  none: 'Mới',
+  custom: 'Trùng với style của bạn',
+  builtin: 'Trùng với style có sẵn',
+};
+
+const StylePackPanel: React.FC<StylePackPanelProps> = ({ customStyles, onImport }) => {
+  const [view, setView] = useState<'closed' | 'export' | 'import'>('closed');
+
+  // Export state
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [packName, setPackName] = useState('');
+  const [author, setAuthor] = useState('');
+  const [version, setVersion] = useState('1.0.0');
+  const [description, setDescription] = useState('');
+  const [thumbnail, setThumbnail] = useState<string | undefined>(undefined);
+  const [exportMessage, setExportMessage] = useState<string | null>(null);
+
+  // Import state
+  const [pasteText, setPasteText] = useState('');
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [pendingPack, setPendingPack] = useState<StylePack | null>(null);
+  const [candidates, setCandidates] = useState<ImportCandidate[]>([]);
+  const [resolutions, setResolutions] = useState<Record<string, CollisionResolution>>({});
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const openExport = () => {
+    setView(view === 'export' ? 'closed' : 'export');
+    setSelectedIds(customStyles.map(style => style.id));
+    setExportMessage(null);
+  };
+
+  const openImport = () => {
+    setView(view === 'import' ? 'closed' : 'import');
+    resetImport();
+    setImportMessage(null);
+  };
+
+  const resetImport = () => {
+    setPasteText('');
+    setImportErrors([]);
+    setPendingPack(null);
+    setCandidates([]);
+    setResolutions({});
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(ids => ids.includes(id) ? ids.filter(x => x !== id) : [...ids, id]);
+  };
+
+  const handleThumbnailChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setThumbnail(await createThumbnail(file, 256));
+    } catch {
+      setExportMessage("Không đọc được ảnh đại diện.");
+    }
+  };
+
+  const buildPack = (): StylePack | null => {
+    const styles = customStyles.filter(style => selectedIds.includes(style.id));
+    if (styles.length === 0 || !packName.trim() || !version.trim()) {
+      setExportMessage("Vui lòng chọn ít nhất một style và nhập tên, phiên bản cho style pack.");
+      return null;
+    }
+    return createStylePack(styles, {
+      name: packName.trim(),
+      version: version.trim(),
+      author: author.trim() || undefined,
+      description: description.trim() || undefined,
+      thumbnail,
+    });
+  };
+
+  const handleDownload = () => {
+    const pack = buildPack();
+    if (!pack) return;
+    downloadStylePack(pack);
+    setExportMessage(`Đã tải xuống style pack gồm ${pack.styles.length} style.`);
+  };
+
+  const handleCopy = async () => {
+    const pack = buildPack();
+    if (!pack) return;
+    try {
+      await navigator.clipboard.writeText(serializeStylePack(pack));
+      setExportMessage("Đã sao chép style pack. Bạn có thể dán để chia sẻ qua Zalo.");
+    } catch {
+      setExportMessage("Không thể sao chép vào clipboard trên trình duyệt này.");
+    }
+  };
+
+  const readPack = (text: string) => {
+    setImportMessage(null);
+    try {
+      const pack = parseStylePack(text);
+      const found = detectCollisions(pack, STYLES, customStyles);
+      setPendingPack(pack);
+      setCandidates(found);
+      setResolutions(Object.fromEntries(
+        found.filter(c => c.collision !== 'none').map(c => [c.entry.id, 'rename' as CollisionResolution])
+      ));
+      setImportErrors([]);
+    } catch (error) {
+      setPendingPack(null);
+      setImportErrors(error instanceof StylePackError ? error.issues : ["Không đọc được style pack."]);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    readPack(await file.text());
+  };
+
+  const confirmImport = () => {
+    const { styles, imported, skipped } = applyStylePackImport(candidates, resolutions, STYLES, customStyles);
+    onImport(styles);
+    resetImport();
+    setImportMessage(`Đã nhập ${imported} style${skipped > 0 ? `, bỏ qua ${skipped}` : ''}.`);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <button onClick={openExport} disabled={customStyles.length === 0} className={`${smallButtonClasses} flex items-center gap-1`}>
+          <DownloadIcon className="w-4 h-4" />
+          <span>Xuất style pack</span>
+        </button>
+        <button onClick={openImport} className={`${smallButtonClasses} flex items-center gap-1`}>
+          <UploadIcon className="w-4 h-4" />
+          <span>Nhập style pack</span>
+        </button>
+      </div>
+
+      {view === 'export' && (
+        <div className="space-y-3 p-4 bg-dark-olive/5 dark:bg-olive/20 rounded-lg animate-fade-in">
+          <h3 className="font-semibold">Xuất style pack</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <input type="text" value={packName} onChange={(e) => setPackName(e.target.value)} placeholder="Tên style pack" className={inputClasses} />
+            <input type="text" value={author} onChange={(e) => setAuthor(e.target.value)} placeholder="Tác giả" className={inputClasses} />
+            <input type="text" value={version} onChange={(e) => setVersion(e.target.value)} placeholder="Phiên bản" className={inputClasses} />
+            <label className={`${smallButtonClasses} flex items-center justify-center cursor-pointer`}>
+              {thumbnail ? 'Đổi ảnh đại diện' : 'Chọn ảnh đại diện'}
+              <input type="file" accept="image/*" className="hidden" onChange={handleThumbnailChange} />
+            </label>
+          </div>
+          {thumbnail && (
+            <div className="flex items-center gap-2">
+              <img src={thumbnail} alt="Ảnh đại diện" className="w-12 h-12 object-cover rounded" />
+              <button onClick={() => setThumbnail(undefined)} className={smallButtonClasses}>Bỏ ảnh</button>
+            </div>
+          )}
+          <textarea value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Mô tả ngắn về style pack..." className={inputClasses} rows={2} />
+          <ul className="space-y-1 max-h-40 overflow-y-auto">
+            {customStyles.map(style => (
+              <li key={style.id}>
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input type="checkbox" checked={selectedIds.includes(style.id)} onChange={() => toggleSelected(style.id)} className="accent-olive" />
+                  <span className="truncate">{style.name}</span>
+                  {style.requiredImages !== undefined && (
+                    <span className="text-xs text-dark-olive/60 dark:text-cream/60">({style.requiredImages} ảnh)</span>
+                  )}
+                </label>
+              </li>
+            ))}
+          </ul>
+          {exportMessage && <p className="text-sm text-dark-olive/80 dark:text-cream/80">{exportMessage}</p>}
+          <div className="flex justify-end gap-2">
+            <button onClick={handleCopy} className="px-5 py-2 rounded-full text-dark-olive/80 dark:text-cream/80 bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors font-semibold">
+              Sao chép JSON
+            </button>
+            <button onClick={handleDownload} className="px-6 py-2 rounded-full bg-olive hover:bg-olive/90 text-cream font-bold transition-colors">
+              Tải file
+            </button>
+          </div>
+        </div>
+      )}
+
+      {view === 'import' && (
+        <div className="space-y-3 p-4 bg-dark-olive/5 dark:bg-olive/20 rounded-lg animate-fade-in">
+          <h3 className="font-semibold">Nhập style pack</h3>
+          {!pendingPack ? (
+            <>
+              <button onClick={() => fileInputRef.current?.click()} className={smallButtonClasses}>Chọn file .json</button>
+              <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFileChange} />
+              <textarea value={pasteText} onChange={(e) => setPasteText(e.target.value)} placeholder="...hoặc dán nội dung style pack được chia sẻ vào đây" className={inputClasses} rows={4} />
+              <div className="flex justify-end">
+                <button onClick={() => readPack(pasteText)} disabled={!pasteText.trim()} className="px-6 py-2 rounded-full bg-olive hover:bg-olive/90 text-cream font-bold transition-colors disabled:opacity-50">
+                  Đọc style pack
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="flex items-start gap-3">
+                {pendingPack.metadata.thumbnail && (
+                  <img src={pendingPack.metadata.thumbnail} alt={pendingPack.metadata.name} className="w-16 h-16 object-cover rounded" />
+                )}
+                <div className="text-sm">
+                  <p className="font-bold">{pendingPack.metadata.name} <span className="font-normal text-dark-olive/60 dark:text-cream/60">v{pendingPack.metadata.version}</span></p>
+                  {pendingPack.metadata.author && <p>Tác giả: {pendingPack.metadata.author}</p>}
+                  {pendingPack.metadata.description && <p className="text-dark-olive/70 dark:text-cream/70">{pendingPack.metadata.description}</p>}
+                </div>
+              </div>
+              <ul className="space-y-2 max-h-60 overflow-y-auto">
+                {candidates.map(({ entry, collision }) => (
+                  <li key={entry.id} className="p-2 bg-cream/60 dark:bg-dark-olive/40 rounded-lg text-sm">
+                    <div className="flex items-center gap-2">
+                      <span className="font-bold flex-grow truncate">{entry.name}</span>
+                      {entry.requiredImages !== undefined && <span className="text-xs">{entry.requiredImages} ảnh</span>}
+                      <span className={`text-xs ${collision === 'none' ? 'text-olive' : 'text-orange-600 dark:text-orange-400'}`}>{COLLISION_LABELS[collision]}</span>
+                    </div>
+                    {collision !== 'none' && (
+                      <select
+                        value={resolutions[entry.id] ?? 'rename'}
+                        onChange={(e) => setResolutions(r => ({ ...r, [entry.id]: e.target.value as CollisionResolution }))}
+                        className={`${inputClasses} mt-2`}
+                      >
+                        <option value="rename">Đổi tên và giữ cả hai</option>
+                        {collision === 'custom' && <option value="overwrite">Ghi đè style hiện có</option>}
+                        <option value="skip">Bỏ qua</option>
+                      </select>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              <div className="flex justify-end gap-2">
+                <button onClick={resetImport} className="px-5 py-2 rounded-full text-dark-olive/80 dark:text-cream/80 bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors font-semibold">
+                  Hủy
+                </button>
+                <button onClick={confirmImport} className="px-6 py-2 rounded-full bg-olive hover:bg-olive/90 text-cream font-bold transition-colors">
+                  Nhập style
+                </button>
+              </div>
+            </>
+          )}
+          {importErrors.length > 0 && (
+            <ul className="text-red-500 text-sm list-disc list-inside">
+              {importErrors.map((issue, i) => <li key={i}>{issue}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {importMessage && view !== 'export' && <p className="text-sm text-olive">{importMessage}</p>}
+    </div>
+  );
+};
+
+export default StylePackPanel;
@@ -0,0 +1,281 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import XIcon from './icons/XIcon';
+import {
+  UsageAggregate, PriceTable, ModelPrice, DailyCap, DEFAULT_PRICES, USAGE_OPERATION_LABELS,
+  loadUsage, clearUsage, subscribeUsage, loadPriceTable, savePriceTable, loadDailyCap, saveDailyCap,
+  summarizeUsage, groupUsage, getDayKey, formatCost,
+} from '../services/usageTracker';
+
+interface UsageDashboardProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/** Days listed in the per-day table. */
+const DAYS_SHOWN = 14;
+
+const smallButtonClasses = "px-3 py-1 rounded-full text-xs font-semibold bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+const inputClasses = "w-full p-2 bg-dark-olive/5 dark:bg-olive/20 border border-olive/30 rounded-lg focus:ring-2 focus:ring-olive focus:border-olive transition text-dark-olive dark:text-cream placeholder:text-dark-olive/50 dark:placeholder:text-cream/50 text-sm";
+const cellClasses = "py-1.5 px-2 text-right tabular-nums";
+
+const PRICE_FIELDS: { key: keyof ModelPrice; label: string }[] = [
+  { key: 'inputPerMillion', label: 'Đầu vào / 1M token' },
+  { key: 'outputPerMillion', label: 'Đầu ra / 1M token' },
+  { key: 'perImage', label: 'Mỗi ảnh' },
+];
+
+const formatNumber = (value: number): string => value.toLocaleString('vi-VN');
+
+const parseLimit = (value: string): number | null => {
+  const limit = parseFloat(value);
+  return Number.isFinite(limit) && limit > 0 ? limit : null;
+};
+
+const CapProgress: React.FC<{ label: string; used: number; limit: number | null; format: (value: number) => string }> = ({ label, used, limit, format }) => {
+  if (limit === null) return null;
+  const percent = Math.min(100, (used / limit) * 100);
+  return (
+    <div>
+      <div className="flex justify-between text-xs mb-1">
+        <span>{label}</span>
+        <span className={percent >= 100 ? 'text-red-500 font-semibold' : ''}>{format(used)} / {format(limit)}</span>
+      </div>
+      <div className="w-full bg-dark-olive/10 dark:bg-cream/10 rounded-full h-2">
+        <div className={`h-2 rounded-full ${percent >= 100 ? 'bg-red-500' : percent >= 80 ? 'bg-yellow-500' : 'bg-olive'}`} style={{ width: `${percent}%` }}></div>
+      </div>
+    </div>
+  );
+};
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ isOpen, onClose }) => {
+  const [rows, setRows] = useState<UsageAggregate[]>(() => loadUsage());
+  const [prices, setPrices] = useState<PriceTable>(() => loadPriceTable());
+  const [cap, setCap] = useState<DailyCap>(() => loadDailyCap());
+  const [capInputs, setCapInputs] = useState({ maxRequests: '', maxCost: '' });
+  const [showClearConfirm, setShowClearConfirm] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const savedCap = loadDailyCap();
+    setRows(loadUsage());
+    setPrices(loadPriceTable());
+    setCap(savedCap);
+    setCapInputs({ maxRequests: savedCap.maxRequests?.toString() ?? '', maxCost: savedCap.maxCost?.toString() ?? '' });
+    setShowClearConfirm(false);
+    // Keep the numbers live while requests finish in the background.
+    return subscribeUsage(() => setRows(loadUsage()));
+  }, [isOpen]);
+
+  const today = getDayKey(Date.now());
+  const todayTotals = useMemo(() => summarizeUsage(rows.filter(row => row.day === today), prices), [rows, prices, today]);
+  const dailyTotals = useMemo(() => groupUsage(rows, prices, row => row.day).reverse().slice(0, DAYS_SHOWN), [rows, prices]);
+  const modelTotals = useMemo(() => groupUsage(rows, prices, row => row.model).sort((a, b) => b[1].requests - a[1].requests), [rows, prices]);
+  const operationTotals = useMemo(() => groupUsage(rows, prices, row => row.operation), [rows, prices]);
+  const allTotals = useMemo(() => summarizeUsage(rows, prices), [rows, prices]);
+
+  if (!isOpen) return null;
+
+  const models = [...new Set([...Object.keys(DEFAULT_PRICES), ...rows.map(row => row.model)])];
+
+  const handleCapChange = (field: keyof DailyCap, value: string) => {
+    const inputs = { ...capInputs, [field]: value };
+    const next = { ...cap, [field]: parseLimit(value) };
+    setCapInputs(inputs);
+    setCap(next);
+    saveDailyCap(next);
+  };
+
+  const handlePriceChange = (model: string, field: keyof ModelPrice, value: string) => {
+    const price = parseFloat(value);
+    const current = prices[model] ?? { inputPerMillion: 0, outputPerMillion: 0, perImage: 0 };
+    const next = { ...prices, [model]: { ...current, [field]: Number.isFinite(price) && price >= 0 ? price : 0 } };
+    setPrices(next);
+    savePriceTable(next);
+  };
+
+  const handleResetPrices = () => {
+    setPrices({ ...DEFAULT_PRICES });
+    savePriceTable({ ...DEFAULT_PRICES });
+  };
+
+  const handleClear = () => {
+    clearUsage();
+    setShowClearConfirm(false);
+  };
+
+  const isCapReached = (cap.maxRequests !== null && todayTotals.requests >= cap.maxRequests) || (cap.maxCost !== null && todayTotals.cost >= cap.maxCost);
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black bg-opacity-70 flex items-center justify-center animate-fade-in p-4" onClick={onClose}>
+      <div className="bg-cream dark:bg-dark-olive p-6 rounded-lg shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col relative" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold mb-1 text-dark-olive dark:text-cream text-center">Thống kê sử dụng</h2>
+        <p className="text-xs text-center text-dark-olive/70 dark:text-cream/70 mb-4">Chỉ tính các yêu cầu gửi từ trình duyệt này. Chi phí là ước tính theo bảng giá bên dưới.</p>
+        <button onClick={onClose} className="absolute top-3 right-3 text-dark-olive/50 hover:text-dark-olive dark:text-cream/50 dark:hover:text-cream transition-colors" aria-label="Đóng">
+          <XIcon className="w-6 h-6" />
+        </button>
+
+        <div className="flex-grow overflow-y-auto -mx-1 px-1 space-y-6">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-center">
+            {[
+              { label: 'Yêu cầu hôm nay', value: formatNumber(todayTotals.requests) },
+              { label: 'Ảnh nhận được', value: formatNumber(todayTotals.images) },
+              { label: 'Token', value: formatNumber(todayTotals.inputTokens + todayTotals.outputTokens) },
+              { label: 'Chi phí ước tính', value: formatCost(todayTotals.cost) },
+            ].map(stat => (
+              <div key={stat.label} className="p-3 bg-dark-olive/5 dark:bg-olive/20 rounded-lg">
+                <p className="text-lg font-bold">{stat.value}</p>
+                <p className="text-xs text-dark-olive/70 dark:text-cream/70">{stat.label}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="p-4 bg-dark-olive/5 dark:bg-olive/20 rounded-lg space-y-3">
+            <h3 className="font-semibold">Giới hạn mỗi ngày</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <label className="text-xs space-y-1">
+                <span>Số yêu cầu tối đa</span>
+                <input type="number" min={1} step={1} value={capInputs.maxRequests} onChange={(e) => handleCapChange('maxRequests', e.target.value)} placeholder="Không giới hạn" className={inputClasses} />
+              </label>
+              <label className="text-xs space-y-1">
+                <span>Chi phí tối đa (USD)</span>
+                <input type="number" min={0} step={0.1} value={capInputs.maxCost} onChange={(e) => handleCapChange('maxCost', e.target.value)} placeholder="Không giới hạn" className={inputClasses} />
+              </label>
+            </div>
+            <CapProgress label="Yêu cầu" used={todayTotals.requests} limit={cap.maxRequests} format={formatNumber} />
+            <CapProgress label="Chi phí" used={todayTotals.cost} limit={cap.maxCost} format={formatCost} />
+            {isCapReached && (
+              <p className="text-sm text-red-500 font-semibold">Đã đạt giới hạn hôm nay: các yêu cầu tạo ảnh mới sẽ bị chặn đến hết ngày.</p>
+            )}
+          </div>
+
+          <div>
+            <h3 className="font-semibold mb-2">Theo ngày</h3>
+            {dailyTotals.length === 0 ? (
+              <p className="text-sm text-dark-olive/70 dark:text-cream/70">Chưa có yêu cầu nào được ghi lại.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="text-xs text-dark-olive/70 dark:text-cream/70">
+                    <tr>
+                      <th className="py-1.5 px-2 text-left">Ngày</th>
+                      <th className={cellClasses}>Yêu cầu</th>
+                      <th className={cellClasses}>Lỗi</th>
+                      <th className={cellClasses}>Ảnh</th>
+                      <th className={cellClasses}>Token</th>
+                      <th className={cellClasses}>Chi phí</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {dailyTotals.map(([day, totals]) => (
+                      <tr key={day} className="border-t border-olive/20">
+                        <td className="py-1.5 px-2">{day === today ? 'Hôm nay' : day}</td>
+                        <td className={cellClasses}>{formatNumber(totals.requests)}</td>
+                        <td className={cellClasses}>{formatNumber(totals.failures)}</td>
+                        <td className={cellClasses}>{formatNumber(totals.images)}</td>
+                        <td className={cellClasses}>{formatNumber(totals.inputTokens + totals.outputTokens)}</td>
+                        <td className={cellClasses}>{formatCost(totals.cost)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {modelTotals.length > 0 && (
+            <div>
+              <h3 className="font-semibold mb-2">Theo mô hình</h3>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="text-xs text-dark-olive/70 dark:text-cream/70">
+                    <tr>
+                      <th className="py-1.5 px-2 text-left">Mô hình</th>
+                      <th className={cellClasses}>Yêu cầu</th>
+                      <th className={cellClasses}>Token vào / ra</th>
+                      <th className={cellClasses}>Ảnh</th>
+                      <th className={cellClasses}>Thời gian TB</th>
+                      <th className={cellClasses}>Chi phí</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {modelTotals.map(([model, totals]) => (
+                      <tr key={model} className="border-t border-olive/20">
+                        <td className="py-1.5 px-2 font-mono text-xs break-all">{model}</td>
+                        <td className={cellClasses}>{formatNumber(totals.requests)}</td>
+                        <td className={cellClasses}>{formatNumber(totals.inputTokens)} / {formatNumber(totals.outputTokens)}</td>
+                        <td className={cellClasses}>{formatNumber(totals.images)}</td>
+                        <td className={cellClasses}>{(totals.averageLatencyMs / 1000).toFixed(1)} giây</td>
+                        <td className={cellClasses}>{formatCost(totals.cost)}</td>
+                      </tr>
+                    ))}
+                    <tr className="border-t-2 border-olive/40 font-semibold">
+                      <td className="py-1.5 px-2">Tổng ({rows.length > 0 ? rows[0].day : ''} – nay)</td>
+                      <td className={cellClasses}>{formatNumber(allTotals.requests)}</td>
+                      <td className={cellClasses}>{formatNumber(allTotals.inputTokens)} / {formatNumber(allTotals.outputTokens)}</td>
+                      <td className={cellClasses}>{formatNumber(allTotals.images)}</td>
+                      <td className={cellClasses}>{(allTotals.averageLatencyMs / 1000).toFixed(1)} giây</td>
+                      <td className={cellClasses}>{formatCost(allTotals.cost)}</td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+              <div className="flex flex-wrap gap-2 mt-3">
+                {operationTotals.map(([operation, totals]) => (
+                  <span key={operation} className="px-3 py-1 rounded-full text-xs bg-dark-olive/5 dark:bg-olive/20">
+                    {USAGE_OPERATION_LABELS[operation as keyof typeof USAGE_OPERATION_LABELS] ?? operation}: {formatNumber(totals.requests)}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="p-4 bg-dark-olive/5 dark:bg-olive/20 rounded-lg">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="font-semibold">Bảng giá (USD)</h3>
+              <button onClick={handleResetPrices} className={smallButtonClasses}>Khôi phục mặc định</button>
+            </div>
+            <div className="space-y-3">
+              {models.map(model => (
+                <div key={model}>
+                  <p className="font-mono text-xs mb-1 break-all">{model}</p>
+                  <div className="grid grid-cols-3 gap-2">
+                    {PRICE_FIELDS.map(field => (
+                      <label key={field.key} className="text-xs space-y-1">
+                        <span className="text-dark-olive/70 dark:text-cream/70">{field.label}</span>
+                        <input
+                          type="number"
+                          min={0}
+                          step="any"
+                          value={prices[model]?.[field.key] ?? 0}
+                          onChange={(e) => handlePriceChange(model, field.key, e.target.value)}
+                          className={inputClasses}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-between items-center gap-2 mt-4">
+          {showClearConfirm ? (
+            <div className="flex items-center gap-2 text-sm">
+              <span>Xóa toàn bộ lịch sử sử dụng?</span>
+              <button onClick={() => setShowClearConfirm(false)} className={smallButtonClasses}>Hủy</button>
+              <button onClick={handleClear} className="px-3 py-1 rounded-full text-xs font-bold bg-red-600 hover:bg-red-700 text-cream transition-colors">Xóa</button>
+            </div>
+          ) : (
+            <button onClick={() => setShowClearConfirm(true)} disabled={rows.length === 0} className={smallButtonClasses}>Xóa dữ liệu</button>
+          )}
+          <button onClick={onClose} className="px-6 py-2 rounded-full bg-olive hover:bg-olive/90 text-cream font-bold transition-colors">
+            Đóng
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
@@ -0,0 +1,74 @@
+import React, { useState, useEffect } from 'react';
+import XIcon from './icons/XIcon';
+import DownloadIcon from './icons/DownloadIcon';
+import { ImageVersion } from '../services/imageVersions';
+
+interface VersionCompareModalProps {
+  /** The two versions to show side by side; the modal is closed when null. */
+  pair: [ImageVersion, ImageVersion] | null;
+  onClose: () => void;
+  onDownload: (version: ImageVersion) => void;
+  /** Makes a version the current result. */
+  onSelect: (id: number) => void;
+}
+
+const VersionCompareModal: React.FC<VersionCompareModalProps> = ({ pair, onClose, onDownload, onSelect }) => {
+  const [sizes, setSizes] = useState<Record<number, string>>({});
+
+  useEffect(() => {
+    setSizes({});
+  }, [pair]);
+
+  if (!pair) return null;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black bg-opacity-80 flex items-center justify-center animate-fade-in p-4" onClick={onClose}>
+      <div className="bg-cream dark:bg-dark-olive p-6 rounded-lg shadow-2xl max-w-5xl w-full relative max-h-full overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold mb-4 text-dark-olive dark:text-cream text-center">So sánh phiên bản</h2>
+        <button onClick={onClose} className="absolute top-3 right-3 text-dark-olive/50 hover:text-dark-olive dark:text-cream/50 dark:hover:text-cream transition-colors" aria-label="Đóng">
+          <XIcon className="w-6 h-6" />
+        </button>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {pair.map(version => (
+            <figure key={version.id} className="flex flex-col">
+              <div className="bg-black/80 rounded-lg flex items-center justify-center overflow-hidden">
+                <img
+                  src={version.imageUrl}
+                  alt={`Phiên bản ${version.id}`}
+                  className="max-w-full max-h-[60vh] object-contain"
+                  onLoad={(e) => {
+                    const img = e.currentTarget as HTMLImageElement;
+                    setSizes(prev => ({ ...prev, [version.id]: `${img.naturalWidth} × ${img.naturalHeight}` }));
+                  }}
+                />
+              </div>
+              <figcaption className="mt-2 flex items-start gap-2 text-dark-olive dark:text-cream">
+                <div className="flex-1 text-sm">
+                  <p className="font-semibold">v{version.id} · {version.operation}</p>
+                  {version.instruction && <p className="text-xs text-dark-olive/70 dark:text-cream/70">{version.instruction}</p>}
+                  {sizes[version.id] && <p className="text-xs text-dark-olive/70 dark:text-cream/70">{sizes[version.id]}px</p>}
+                </div>
+                <button
+                  onClick={() => { onSelect(version.id); onClose(); }}
+                  className="px-3 py-1 rounded-full text-xs font-semibold bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors"
+                >
+                  Dùng bản này
+                </button>
+                <button
+                  onClick={() => onDownload(version)}
+                  className="p-1.5 rounded-full bg-olive/80 hover:bg-olive text-cream transition-colors"
+                  aria-label={`Tải phiên bản ${version.id}`}
+                >
+                  <DownloadIcon className="w-4 h-4" />
+                </button>
+              </figcaption>
+            </figure>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VersionCompareModal;
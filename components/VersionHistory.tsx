@@ -0,0 +1,121 @@
+import React, { useState, useEffect, useRef } from 'react';
+import UndoIcon from './icons/UndoIcon';
+import RedoIcon from './icons/RedoIcon';
+import DownloadIcon from './icons/DownloadIcon';
+import { ImageVersion, getVersionPath } from '../services/imageVersions';
+
+interface VersionHistoryProps {
+  versions: ImageVersion[];
+  activeId: number | null;
+  onSelect: (id: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onDownload: (version: ImageVersion) => void;
+  onCompare: (first: ImageVersion, second: ImageVersion) => void;
+  disabled?: boolean;
+}
+
+const iconButtonClasses = "p-1.5 rounded-full bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+const VersionHistory: React.FC<VersionHistoryProps> = ({
+  versions,
+  activeId,
+  onSelect,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+  onDownload,
+  onCompare,
+  disabled = false,
+}) => {
+  const [compareSelection, setCompareSelection] = useState<number[] | null>(null);
+  const timelineRef = useRef<HTMLDivElement>(null);
+  const path = getVersionPath(versions, activeId);
+
+  useEffect(() => {
+    // Keep the newest version in view as the timeline grows.
+    timelineRef.current?.scrollTo({ left: timelineRef.current.scrollWidth, behavior: 'smooth' });
+  }, [versions.length]);
+
+  const handleThumbnailClick = (version: ImageVersion) => {
+    if (!compareSelection) {
+      onSelect(version.id);
+      return;
+    }
+    if (compareSelection.includes(version.id)) {
+      setCompareSelection(compareSelection.filter(id => id !== version.id));
+      return;
+    }
+    const selection = [...compareSelection, version.id];
+    if (selection.length < 2) {
+      setCompareSelection(selection);
+      return;
+    }
+    const [first, second] = selection
+      .sort((a, b) => a - b)
+      .map(id => versions.find(v => v.id === id)!);
+    setCompareSelection(null);
+    onCompare(first, second);
+  };
+
+  return (
+    <div className="w-full max-w-md p-4 bg-dark-olive/5 dark:bg-olive/20 rounded-lg text-left">
+      <div className="flex items-center gap-2 mb-3">
+        <h3 className="text-md font-semibold text-dark-olive/90 dark:text-cream/90 flex-1">Các phiên bản</h3>
+        <button onClick={onUndo} disabled={disabled || !canUndo} className={iconButtonClasses} aria-label="Hoàn tác" title="Hoàn tác (Ctrl+Z)">
+          <UndoIcon className="w-4 h-4" />
+        </button>
+        <button onClick={onRedo} disabled={disabled || !canRedo} className={iconButtonClasses} aria-label="Làm lại" title="Làm lại (Ctrl+Y)">
+          <RedoIcon className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => setCompareSelection(compareSelection ? null : [])}
+          disabled={disabled || versions.length < 2}
+          className={`px-3 py-1 rounded-full text-xs font-semibold transition-colors disabled:opacity-40 ${compareSelection ? 'bg-olive text-cream' : 'bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30'}`}
+        >
+          {compareSelection ? 'Hủy so sánh' : 'So sánh'}
+        </button>
+      </div>
+      {compareSelection && (
+        <p className="text-xs text-dark-olive/70 dark:text-cream/70 mb-2">Chọn hai phiên bản để so sánh ({compareSelection.length}/2).</p>
+      )}
+
+      <div ref={timelineRef} className="flex gap-2 overflow-x-auto pb-2">
+        {versions.map(version => {
+          const isActive = version.id === activeId;
+          const isOnPath = path.some(v => v.id === version.id);
+          const isSelected = compareSelection?.includes(version.id) ?? false;
+          const branchesOff = version.parentId !== null && version.parentId !== version.id - 1;
+          return (
+            <div key={version.id} className="relative shrink-0 w-20 group">
+              <button
+                onClick={() => handleThumbnailClick(version)}
+                disabled={disabled}
+                title={version.instruction ? `${version.operation}: ${version.instruction}` : version.operation}
+                className={`block w-20 rounded-md overflow-hidden transition-all disabled:cursor-not-allowed ${isSelected ? 'ring-2 ring-yellow-500' : isActive ? 'ring-2 ring-olive' : isOnPath ? 'ring-1 ring-olive/50' : 'opacity-60 hover:opacity-100'}`}
+              >
+                <img src={version.imageUrl} alt={`Phiên bản ${version.id}`} className="w-20 h-20 object-cover" />
+                <span className="absolute top-0 left-0 bg-black/60 text-cream text-[10px] px-1 rounded-br-md">
+                  v{version.id}{branchesOff && ` ← v${version.parentId}`}
+                </span>
+              </button>
+              <button
+                onClick={() => onDownload(version)}
+                className="absolute top-1 right-1 p-1 rounded-full bg-black/50 text-cream opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                aria-label={`Tải phiên bản ${version.id}`}
+              >
+                <DownloadIcon className="w-3 h-3" />
+              </button>
+              <p className="mt-1 text-[10px] leading-tight text-dark-olive/70 dark:text-cream/70 line-clamp-2">{version.operation}</p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistory;
@@ -0,0 +1,21 @@
+import React from 'react';
+
+const EraserIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    width="24"
+    height="24"
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+    {...props}
+  >
+    <path d="M20 20H7L3 16a1 1 0 0 1 0-1.41l10-10a2 2 0 0 1 2.83 0l4.24 4.24a2 2 0 0 1 0 2.83L11 20" />
+    <line x1="6" y1="11" x2="13" y2="18" />
+  </svg>
+);
+
+export default EraserIcon;
@@ -0,0 +1,22 @@
+import React from 'react';
+
+const FlipIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    width="24"
+    height="24"
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+    {...props}
+  >
+    <line x1="12" y1="2" x2="12" y2="22" />
+    <path d="M8 6L3 18h5z" />
+    <path d="M16 6l5 12h-5z" />
+  </svg>
+);
+
+export default FlipIcon;
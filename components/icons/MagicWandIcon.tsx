@@ -0,0 +1,27 @@
+import React from 'react';
+
+const MagicWandIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    width="24"
+    height="24"
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+    {...props}
+  >
+    <path d="M15 4V2" />
+    <path d="M15 16v-2" />
+    <path d="M8 9h2" />
+    <path d="M20 9h2" />
+    <path d="M17.8 11.8L19 13" />
+    <path d="M17.8 6.2L19 5" />
+    <path d="M3 21l9-9" />
+    <path d="M12.2 6.2L11 5" />
+  </svg>
+);
+
+export default MagicWandIcon;
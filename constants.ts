@@ -1,20 +1,65 @@
-import { Style } from './types';
+import { Style, ImagenAspectRatio } from './types';
 
 export const STYLES: Style[] = [
   {
     id: 'polaroid',
     name: 'Polaroid',
-    prompt: "Create a Polaroid-style photo of a couple. The photo should have a nostalgic, slightly blurred look with a direct flash effect as if taken in a dimly lit room. Do not alter their faces. The background should be a simple white curtain. The man is playfully poking the woman's cheek, and she is smiling with her eyes closed. Both are expressing genuine joy and affection."
+    prompt: "Create a Polaroid-style photo of a couple. The photo should have a nostalgic, slightly blurred look with a direct flash effect as if taken in a dimly lit room. Do not alter their faces. The background should be {{background}}. {{pose}} Both are expressing genuine joy and affection.",
+    inputs: {
+      slots: [{ label: 'Người A' }, { label: 'Người B' }],
+    },
+    variables: [
+      {
+        name: 'pose',
+        label: 'Tư thế',
+        type: 'select',
+        default: "The man is playfully poking the woman's cheek, and she is smiling with her eyes closed.",
+        options: [
+          { value: "The man is playfully poking the woman's cheek, and she is smiling with her eyes closed.", label: 'Chọc má' },
+          { value: 'They are hugging each other tightly, cheek to cheek, laughing.', label: 'Ôm nhau' },
+          { value: "The woman is kissing the man's cheek while he grins at the camera.", label: 'Hôn má' },
+          { value: 'They are making a heart shape together with their hands.', label: 'Bắn tim' },
+        ],
+      },
+      {
+        name: 'background',
+        label: 'Phông nền',
+        type: 'select',
+        default: 'a simple white curtain',
+        options: [
+          { value: 'a simple white curtain', label: 'Rèm trắng' },
+          { value: 'a red velvet curtain', label: 'Rèm nhung đỏ' },
+          { value: 'a cozy bedroom wall with fairy lights', label: 'Phòng ngủ đèn nháy' },
+        ],
+      },
+    ]
   },
   {
     id: '3d-hot-trend',
     name: '3D Hot Trend',
-    prompt: "Use the nano-banana model to create a 1/7 scale commercialized figure of the character in the illustration, in a realistic style and environment. Place the figure on a computer desk, using a circular transparent acrylic base without any text. On the computer screen, display the ZBrush modeling process of the figure. Next to the computer screen, place a BANDAI-style toy packaging box printed with the original artwork."
+    prompt: "Use the nano-banana model to create a {{scale}} scale commercialized figure of the character in the illustration, in a realistic style and environment. Place the figure on a computer desk, using a circular transparent acrylic base without any text. On the computer screen, display the ZBrush modeling process of the figure. Next to the computer screen, place a BANDAI-style toy packaging box printed with the original artwork.",
+    variables: [
+      {
+        name: 'scale',
+        label: 'Tỉ lệ mô hình',
+        type: 'select',
+        default: '1/7',
+        options: [
+          { value: '1/4', label: '1/4' },
+          { value: '1/6', label: '1/6' },
+          { value: '1/7', label: '1/7' },
+          { value: '1/12', label: '1/12' },
+        ],
+      },
+    ],
   },
   {
     id: 'photo-restoration',
     name: 'Phục chế ảnh',
-    prompt: "Use the provided photo as the reference image. Restore and inpaint only the damaged/missing areas while preserving the original face, pose and expression. Remove all stains, peeling paper, scratches, cracks and dirt; reconstruct missing facial features and clothing realistically and consistently with the reference. Restore natural, realistic colorization (warm neutral skin tones, natural black/dark-brown hair) while keeping a subtle vintage film look if necessary. Preserve original lighting, shadows and grain; reconstruct fine details (eyes, eyelashes, hair strands, lips, collar seam, texture of fabric). Keep identity and proportions exactly — do NOT change age, expression, face shape or add accessories (no glasses, jewelry, modern props). Recreate a plain neutral background matching the original tone.\nFinal output: photorealistic, high-detail restoration suitable for printing. Output resolution: 3840×2160 (4K) — if that is not available, 1920×1080 (Full HD). Use the image as the primary guide and only fill masked damaged areas."
+    prompt: "Use the provided photo as the reference image. Restore and inpaint only the damaged/missing areas while preserving the original face, pose and expression. Remove all stains, peeling paper, scratches, cracks and dirt; reconstruct missing facial features and clothing realistically and consistently with the reference. Restore natural, realistic colorization (warm neutral skin tones, natural black/dark-brown hair) while keeping a subtle vintage film look if necessary. Preserve original lighting, shadows and grain; reconstruct fine details (eyes, eyelashes, hair strands, lips, collar seam, texture of fabric). Keep identity and proportions exactly — do NOT change age, expression, face shape or add accessories (no glasses, jewelry, modern props). Recreate a plain neutral background matching the original tone.\nFinal output: photorealistic, high-detail restoration suitable for printing. Output resolution: 3840×2160 (4K) — if that is not available, 1920×1080 (Full HD). Use the image as the primary guide and only fill masked damaged areas.",
+    inputs: {
+      slots: [{ label: 'Ảnh cần phục chế' }],
+    }
   },
   {
     id: 'anime-portrait',
@@ -24,7 +69,20 @@ export const STYLES: Style[] = [
   {
     id: 'cyberpunk-glow',
     name: 'Tỏa sáng Cyberpunk',
-    prompt: "Reimagine the subject of the photo in a cyberpunk world. Integrate futuristic elements like neon lights, holographic interfaces, and cybernetic enhancements subtly onto their person and clothing. The background should be a dark, rainy city street illuminated by vibrant neon signs. Enhance the lighting to create dramatic contrasts with glowing highlights and deep shadows, giving the image a Blade Runner-esque atmosphere. Keep the original face recognizable."
+    prompt: "Reimagine the subject of the photo in a cyberpunk world. Integrate futuristic elements like neon lights, holographic interfaces, and cybernetic enhancements subtly onto their person and clothing. The background should be {{setting}} illuminated by vibrant neon signs. Enhance the lighting to create dramatic contrasts with glowing highlights and deep shadows, giving the image a Blade Runner-esque atmosphere. Keep the original face recognizable.",
+    variables: [
+      {
+        name: 'setting',
+        label: 'Bối cảnh',
+        type: 'select',
+        default: 'a dark, rainy city street',
+        options: [
+          { value: 'a dark, rainy city street', label: 'Phố đêm mưa' },
+          { value: 'a crowded night market', label: 'Chợ đêm đông đúc' },
+          { value: 'a rooftop overlooking a megacity', label: 'Sân thượng nhìn xuống siêu đô thị' },
+        ],
+      },
+    ],
   },
   {
     id: 'vintage-film',
@@ -38,6 +96,16 @@ export const STYLES: Style[] = [
   }
 ];
 
+export const ASPECT_RATIOS: { value: ImagenAspectRatio; label: string }[] = [
+  { value: '1:1', label: 'Vuông 1:1' },
+  { value: '3:4', label: 'Dọc 3:4' },
+  { value: '4:3', label: 'Ngang 4:3' },
+  { value: '9:16', label: 'Story 9:16' },
+  { value: '16:9', label: 'Màn rộng 16:9' },
+];
+
+export const MAX_TEXT_TO_IMAGE_COUNT = 4;
+
 export const AFFILIATE_LINK = 'https://s.shopee.vn/1BD1Zka4mm';
 export const ZALO_LINK = 'https://zalo.me/g/uktqiz531';
 export const TIKTOK_LINK = 'https://www.tiktok.com/@googlegeminiveo3?_t=ZS-8znn3m7wBrl&_r=1';
\ No newline at end of file
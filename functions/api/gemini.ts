@@ -1,3 +0,0 @@
-// This file is no longer used and is deprecated as of v2.1.
-// API calls are now made directly from the client-side (see services/geminiService.ts).
-// This file can be safely deleted from your project.
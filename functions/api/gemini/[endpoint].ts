@@ -0,0 +1,8 @@
+import { handleProxyRequest, ProxyEnv } from "../../../server/geminiProxy";
+
+// Cloudflare Pages Function for /api/gemini/:endpoint.
+// Set GEMINI_API_KEY as an encrypted secret (and optionally PROXY_RATE_LIMIT)
+// in the Pages project settings, then build with USE_GEMINI_PROXY=true.
+export const onRequest = ({ request, env }: { request: Request; env: ProxyEnv }): Promise<Response> => {
+    return handleProxyRequest(request, env, request.headers.get('CF-Connecting-IP') ?? 'unknown');
+};
@@ -0,0 +1,235 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import { IMAGE_MODEL, TEXT_TO_IMAGE_MODEL, TEXT_MODEL, ProxyEndpoint, ProxyImage, ProxyRequestBodies, PROXY_IMAGE_MIME_TYPES } from "../services/geminiModels";
+import type { ImagenAspectRatio } from "../types";
+import { buildVariationsRequest, MAX_PROMPT_VARIATIONS } from "../services/promptVariations";
+
+// --- Gemini proxy: keeps the API key on the server ---
+//
+// Shared by the Cloudflare Pages Function (functions/api/gemini/[endpoint].ts)
+// and the Vite dev server (server/viteDevProxy.ts). Requests are plain Web
+// Request/Response objects so the same code runs on Workers and on Node.
+
+export interface ProxyEnv {
+    GEMINI_API_KEY?: string;
+    /** Requests per minute allowed from one IP address; defaults to 20. */
+    PROXY_RATE_LIMIT?: string;
+}
+
+/** The server decides the model for each endpoint; clients can't pick another one. */
+const ENDPOINT_MODELS: Record<ProxyEndpoint, string> = {
+    generate: IMAGE_MODEL,
+    enhance: IMAGE_MODEL,
+    'text-to-image': TEXT_TO_IMAGE_MODEL,
+    variations: TEXT_MODEL,
+};
+
+const DEFAULT_RATE_LIMIT = 20;
+const RATE_WINDOW_MS = 60_000;
+const MAX_BODY_BYTES = 30 * 1024 * 1024;
+const MAX_IMAGES_PER_REQUEST = 4;
+const MAX_INPUT_IMAGES = 16;
+const MAX_PROMPT_LENGTH = 10_000;
+const IMAGEN_ASPECT_RATIOS: ImagenAspectRatio[] = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}): Response => {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers },
+    });
+};
+
+const isProxyEndpoint = (value: string): value is ProxyEndpoint => {
+    return Object.prototype.hasOwnProperty.call(ENDPOINT_MODELS, value);
+};
+
+// --- Per-IP rate limiting ---
+
+/**
+ * Sliding one-minute window per IP. It lives in memory, so on Cloudflare it is
+ * per isolate: a best-effort guard against one client draining the key, not a
+ * global quota.
+ */
+const recentRequests = new Map<string, number[]>();
+
+/** Records a request and returns null, or the seconds to wait when over the limit. */
+const checkRateLimit = (clientIp: string, limit: number, now = Date.now()): number | null => {
+    const recent = (recentRequests.get(clientIp) ?? []).filter(time => now - time < RATE_WINDOW_MS);
+    if (recent.length >= limit) {
+        recentRequests.set(clientIp, recent);
+        return Math.max(1, Math.ceil((RATE_WINDOW_MS - (now - recent[0])) / 1000));
+    }
+    recent.push(now);
+    recentRequests.set(clientIp, recent);
+
+    if (recentRequests.size > 10_000) {
+        for (const [ip, times] of recentRequests) {
+            if (now - times[times.length - 1] >= RATE_WINDOW_MS) recentRequests.delete(ip);
+        }
+    }
+    return null;
+};
+
+const parseRateLimit = (value: string | undefined): number => {
+    const limit = Number.parseInt(value ?? '', 10);
+    return Number.isFinite(limit) && limit > 0 ? limit : DEFAULT_RATE_LIMIT;
+};
+
+// --- Request validation ---
+//
+// Each endpoint accepts only the fields it needs and builds the Google request
+// itself, so the key can't be used for anything but this app's requests.
+
+class InvalidRequestError extends Error {}
+
+const readPrompt = (body: Record<string, unknown>): string => {
+    const prompt = body.prompt;
+    if (typeof prompt !== 'string' || !prompt.trim() || prompt.length > MAX_PROMPT_LENGTH) {
+        throw new InvalidRequestError(`prompt must be a non-empty string of at most ${MAX_PROMPT_LENGTH} characters.`);
+    }
+    return prompt;
+};
+
+const readImages = (body: Record<string, unknown>): ProxyImage[] => {
+    const images = body.images;
+    if (!Array.isArray(images) || images.length === 0 || images.length > MAX_INPUT_IMAGES) {
+        throw new InvalidRequestError(`images must hold 1 to ${MAX_INPUT_IMAGES} images.`);
+    }
+    return images.map((image: Partial<ProxyImage> | null) => {
+        if (typeof image?.data !== 'string' || typeof image.mimeType !== 'string' || !PROXY_IMAGE_MIME_TYPES.includes(image.mimeType)) {
+            throw new InvalidRequestError(`Each image needs base64 data and one of these types: ${PROXY_IMAGE_MIME_TYPES.join(', ')}.`);
+        }
+        return { data: image.data, mimeType: image.mimeType };
+    });
+};
+
+const readCount = (value: unknown, max: number): number => {
+    return Math.min(max, Math.max(1, Math.floor(Number(value)) || 1));
+};
+
+const parseBody = <E extends ProxyEndpoint>(endpoint: E, body: Record<string, unknown>): ProxyRequestBodies[E] => {
+    switch (endpoint) {
+        case 'generate':
+        case 'enhance':
+            return { prompt: readPrompt(body), images: readImages(body) } as ProxyRequestBodies[E];
+        case 'text-to-image':
+            if (body.aspectRatio !== undefined && !IMAGEN_ASPECT_RATIOS.includes(body.aspectRatio as ImagenAspectRatio)) {
+                throw new InvalidRequestError(`aspectRatio must be one of ${IMAGEN_ASPECT_RATIOS.join(', ')}.`);
+            }
+            return {
+                prompt: readPrompt(body),
+                numberOfImages: readCount(body.numberOfImages, MAX_IMAGES_PER_REQUEST),
+                aspectRatio: (body.aspectRatio as ImagenAspectRatio | undefined) ?? '1:1',
+            } as ProxyRequestBodies[E];
+        default:
+            return { prompt: readPrompt(body), count: readCount(body.count, MAX_PROMPT_VARIATIONS) } as ProxyRequestBodies[E];
+    }
+};
+
+/**
+ * Reads at most MAX_BODY_BYTES of the body, whatever Content-Length claims, so
+ * a chunked or mislabelled request can't make the proxy buffer more.
+ * Returns null when the body is longer.
+ */
+const readBoundedBody = async (request: Request): Promise<string | null> => {
+    if (!request.body) return '';
+    const reader = request.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        length += value.byteLength;
+        if (length > MAX_BODY_BYTES) {
+            await reader.cancel();
+            return null;
+        }
+        chunks.push(value);
+    }
+    const bytes = new Uint8Array(length);
+    let offset = 0;
+    chunks.forEach(chunk => {
+        bytes.set(chunk, offset);
+        offset += chunk.byteLength;
+    });
+    return new TextDecoder().decode(bytes);
+};
+
+// --- Request handling ---
+
+export const handleProxyRequest = async (request: Request, env: ProxyEnv, clientIp: string): Promise<Response> => {
+    if (request.method !== 'POST') {
+        return json(405, { error: 'Method not allowed.' }, { Allow: 'POST' });
+    }
+
+    const endpoint = new URL(request.url).pathname.split('/').filter(Boolean).pop() ?? '';
+    if (!isProxyEndpoint(endpoint)) {
+        return json(404, { error: `Unknown endpoint: ${endpoint}` });
+    }
+
+    const apiKey = env.GEMINI_API_KEY?.trim();
+    if (!apiKey) {
+        return json(500, { error: 'PROXY_NOT_CONFIGURED' });
+    }
+
+    const retryAfter = checkRateLimit(clientIp, parseRateLimit(env.PROXY_RATE_LIMIT));
+    if (retryAfter !== null) {
+        return json(429, { error: `RATE_LIMITED: Please retry in ${retryAfter}s.` }, { 'Retry-After': String(retryAfter) });
+    }
+
+    const declaredLength = request.headers.get('Content-Length');
+    if (declaredLength === null || !/^\d+$/.test(declaredLength)) {
+        return json(411, { error: 'INVALID_ARGUMENT: A valid Content-Length is required.' });
+    }
+    if (Number(declaredLength) > MAX_BODY_BYTES) {
+        return json(413, { error: 'INVALID_ARGUMENT: Request body is too large.' });
+    }
+    const rawBody = await readBoundedBody(request);
+    if (rawBody === null) {
+        return json(413, { error: 'INVALID_ARGUMENT: Request body is too large.' });
+    }
+
+    let body: ProxyRequestBodies[typeof endpoint];
+    try {
+        const parsed = JSON.parse(rawBody);
+        if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+            throw new InvalidRequestError('Request body must be a JSON object.');
+        }
+        body = parseBody(endpoint, parsed);
+    } catch (error) {
+        const message = error instanceof InvalidRequestError ? error.message : 'Request body must be JSON.';
+        return json(400, { error: `INVALID_ARGUMENT: ${message}` });
+    }
+
+    const ai = new GoogleGenAI({ apiKey });
+    const model = ENDPOINT_MODELS[endpoint];
+    try {
+        if (endpoint === 'text-to-image') {
+            const { prompt, numberOfImages, aspectRatio } = body as ProxyRequestBodies['text-to-image'];
+            const response = await ai.models.generateImages({
+                model,
+                prompt,
+                config: { numberOfImages, aspectRatio, outputMimeType: 'image/png' },
+            });
+            return json(200, { generatedImages: response.generatedImages ?? [] });
+        }
+
+        const response = endpoint === 'variations'
+            ? await ai.models.generateContent({ model, ...buildVariationsRequest(body.prompt, (body as ProxyRequestBodies['variations']).count) })
+            : await ai.models.generateContent({
+                model,
+                contents: {
+                    parts: [
+                        ...(body as ProxyRequestBodies['generate']).images.map(inlineData => ({ inlineData })),
+                        { text: body.prompt },
+                    ],
+                },
+                config: { responseModalities: [Modality.IMAGE, Modality.TEXT] },
+            });
+        return json(200, { candidates: response.candidates ?? [], text: response.text, usageMetadata: response.usageMetadata });
+    } catch (error) {
+        // Pass Google's message through so the client's retry and error translation still apply.
+        const status = (error as { status?: number } | null)?.status;
+        const message = error instanceof Error ? error.message : String(error);
+        return json(typeof status === 'number' && status >= 400 ? status : 502, { error: message });
+    }
+};
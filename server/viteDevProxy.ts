@@ -0,0 +1,49 @@
+import { Readable } from "stream";
+import type { IncomingMessage, ServerResponse } from "http";
+import type { Plugin } from "vite";
+import { PROXY_BASE_URL } from "../services/geminiModels";
+import { handleProxyRequest, ProxyEnv } from "./geminiProxy";
+
+// --- Local stand-in for the Pages Function ---
+//
+// Serves /api/gemini/* from `npm run dev` and `npm run preview` with the same
+// handler as production, using GEMINI_API_KEY from .env.local.
+
+/** The body is streamed, so the handler's size limit applies while it is read rather than after. */
+const toRequest = (req: IncomingMessage & { originalUrl?: string }): Request => {
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(req.headers)) {
+        if (Array.isArray(value)) value.forEach(item => headers.append(name, item));
+        else if (value !== undefined) headers.set(name, value);
+    }
+    const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+    return new Request(`http://${req.headers.host ?? 'localhost'}${req.originalUrl ?? req.url ?? '/'}`, {
+        method: req.method,
+        headers,
+        body: hasBody ? Readable.toWeb(req) as ReadableStream : undefined,
+        duplex: 'half',
+    } as RequestInit);
+};
+
+const handle = async (env: ProxyEnv, req: IncomingMessage, res: ServerResponse) => {
+    try {
+        const response = await handleProxyRequest(toRequest(req), env, req.socket.remoteAddress ?? 'unknown');
+        res.statusCode = response.status;
+        response.headers.forEach((value, name) => res.setHeader(name, value));
+        res.end(Buffer.from(await response.arrayBuffer()));
+    } catch (error) {
+        res.statusCode = 500;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }));
+    }
+};
+
+export const geminiDevProxy = (env: ProxyEnv): Plugin => ({
+    name: 'gemini-dev-proxy',
+    configureServer(server) {
+        server.middlewares.use(PROXY_BASE_URL, (req, res) => handle(env, req, res));
+    },
+    configurePreviewServer(server) {
+        server.middlewares.use(PROXY_BASE_URL, (req, res) => handle(env, req, res));
+    },
+});
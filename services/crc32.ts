@@ -0,0 +1,22 @@
+// --- CRC-32 (IEEE 802.3), shared by the ZIP writer and PNG chunk encoder ---
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+/** CRC of `data`, optionally continuing from a previous call's result. */
+export const crc32 = (data: Uint8Array, previous: number = 0): number => {
+    let crc = previous ^ 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
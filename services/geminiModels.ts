@@ -0,0 +1,36 @@
+// --- Models and proxy routes ---
+//
+// Shared by the browser client (services/geminiService.ts) and the proxy
+// (server/), so nothing here may touch the DOM or browser storage.
+
+export const IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
+export const TEXT_TO_IMAGE_MODEL = 'imagen-4.0-generate-001';
+export const TEXT_MODEL = 'gemini-2.5-flash';
+
+/**
+ * Served by functions/api/gemini/[endpoint].ts when deployed and by the Vite
+ * dev server locally (server/viteDevProxy.ts). The proxy holds the API key.
+ */
+export const PROXY_BASE_URL = '/api/gemini';
+
+export type ProxyEndpoint = 'generate' | 'enhance' | 'text-to-image' | 'variations';
+
+/** Image sent to the proxy: base64 without the data URL prefix. */
+export interface ProxyImage {
+    data: string;
+    mimeType: string;
+}
+
+/**
+ * What the client sends to each proxy endpoint. The proxy builds the rest of
+ * the request itself, so only these fields ever reach Google.
+ */
+export interface ProxyRequestBodies {
+    generate: { prompt: string; images: ProxyImage[] };
+    enhance: { prompt: string; images: ProxyImage[] };
+    'text-to-image': { prompt: string; numberOfImages: number; aspectRatio: string };
+    variations: { prompt: string; count: number };
+}
+
+/** Input image types the proxy forwards. */
+export const PROXY_IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
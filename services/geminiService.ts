@@ -1,4 +1,9 @@
-import { GoogleGenAI, Modality, Type, GenerateContentResponse } from "@google/genai";
+import { GoogleGenAI, Modality, GenerateContentResponse, GenerateContentParameters, GenerateImagesParameters, GenerateImagesResponse } from "@google/genai";
+import { ImagenAspectRatio } from "../types";
+import { EnhanceQuality } from "./imageUpscale";
+import { UsageOperation, UsageRecord, recordUsage, getDailyCapViolation, reserveUsage, releaseUsage } from "./usageTracker";
+import { IMAGE_MODEL, TEXT_TO_IMAGE_MODEL, TEXT_MODEL, PROXY_BASE_URL, ProxyEndpoint, ProxyImage, ProxyRequestBodies } from "./geminiModels";
+import { buildVariationsRequest } from "./promptVariations";
 
 // --- Helper Functions to prepare data for the model ---
 
@@ -41,8 +46,356 @@ const getAi = (apiKey: string | null): GoogleGenAI => {
     return new GoogleGenAI({ apiKey: key });
 };
 
+// --- Transport: direct to Google, or through the server proxy ---
 
-// --- Public Service Functions (Refactored to call Gemini API directly) ---
+const PROXY_STORAGE_KEY = 'useGeminiProxy';
+
+/** Build-time default from USE_GEMINI_PROXY, overridable per browser in the settings. */
+export const isProxyEnabled = (): boolean => {
+    try {
+        const saved = localStorage.getItem(PROXY_STORAGE_KEY);
+        if (saved !== null) return saved === 'true';
+    } catch {
+        // Storage unavailable, fall back to the build default.
+    }
+    return process.env.USE_GEMINI_PROXY === 'true';
+};
+
+export const setProxyEnabled = (enabled: boolean): void => {
+    localStorage.setItem(PROXY_STORAGE_KEY, String(enabled));
+};
+
+/** Notified once per request sent directly with a key, e.g. to count usage per key. */
+let keyUsageListener: ((apiKey: string) => void) | null = null;
+
+export const setKeyUsageListener = (listener: ((apiKey: string) => void) | null): void => {
+    keyUsageListener = listener;
+};
+
+const getAiForRequest = (apiKey: string | null): GoogleGenAI => {
+    const ai = getAi(apiKey);
+    keyUsageListener?.(apiKey!.trim());
+    return ai;
+};
+
+type ContentResult = Pick<GenerateContentResponse, 'candidates' | 'text' | 'usageMetadata'>;
+type ImagesResult = Pick<GenerateImagesResponse, 'generatedImages'>;
+
+const postToProxy = async <T, E extends ProxyEndpoint = ProxyEndpoint>(endpoint: E, body: ProxyRequestBodies[E], signal?: AbortSignal): Promise<T> => {
+    const response = await fetch(`${PROXY_BASE_URL}/${endpoint}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+    });
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+        // Keep the status so withRetry treats proxy 429/5xx like direct API errors.
+        const error = new Error(data?.error || `Lỗi ${response.status}`) as Error & { status?: number };
+        error.status = response.status;
+        throw error;
+    }
+    return data as T;
+};
+
+/** Proxy endpoint each operation is sent to. */
+const OPERATION_ENDPOINTS: Record<UsageOperation, ProxyEndpoint> = {
+    generate: 'generate',
+    enhance: 'enhance',
+    'edit-region': 'generate',
+    refine: 'generate',
+    'text-to-image': 'text-to-image',
+    variations: 'variations',
+};
+
+/**
+ * Typical tokens per generateContent request, reserved against the daily cap
+ * until the response reports the real count. A Gemini image costs about
+ * 1290 tokens in either direction.
+ */
+const EXPECTED_TOKENS: Record<UsageOperation, Pick<UsageRecord, 'inputTokens' | 'outputTokens'>> = {
+    generate: { inputTokens: 1500, outputTokens: 1300 },
+    enhance: { inputTokens: 1500, outputTokens: 1300 },
+    'edit-region': { inputTokens: 2800, outputTokens: 1300 },
+    refine: { inputTokens: 1500, outputTokens: 1300 },
+    'text-to-image': { inputTokens: 0, outputTokens: 0 },
+    variations: { inputTokens: 300, outputTokens: 1000 },
+};
+
+/** The proxy's image endpoints take only the prompt and the images, and put the prompt last. */
+const toProxyImageBody = (imageParts: { inlineData: ProxyImage }[], prompt: string): ProxyRequestBodies['generate'] => ({
+    prompt,
+    images: imageParts.map(part => part.inlineData),
+});
+
+/**
+ * Sends a generateContent request directly with the user's key, or to the
+ * proxy endpoint when it is enabled. The proxy builds the request itself from
+ * `proxyBody`, so clients can't use its key for anything else.
+ */
+const generateContent = (
+    operation: UsageOperation,
+    apiKey: string | null,
+    params: GenerateContentParameters,
+    proxyBody: ProxyRequestBodies['generate' | 'variations'],
+): Promise<ContentResult> => {
+    return trackUsage(operation, params.model, { ...EXPECTED_TOKENS[operation], images: 0 }, () => {
+        if (!isProxyEnabled()) {
+            return getAiForRequest(apiKey).models.generateContent(params);
+        }
+        return postToProxy<ContentResult>(OPERATION_ENDPOINTS[operation], proxyBody, params.config?.abortSignal);
+    }, response => ({
+        inputTokens: response.usageMetadata?.promptTokenCount ?? 0,
+        outputTokens: response.usageMetadata?.candidatesTokenCount ?? 0,
+        images: response.candidates?.[0]?.content?.parts?.filter(part => part.inlineData).length ?? 0,
+    }));
+};
+
+const generateImages = (apiKey: string | null, params: GenerateImagesParameters): Promise<ImagesResult> => {
+    const expected = { inputTokens: 0, outputTokens: 0, images: params.config?.numberOfImages ?? 1 };
+    return trackUsage('text-to-image', params.model, expected, () => {
+        if (!isProxyEnabled()) {
+            return getAiForRequest(apiKey).models.generateImages(params);
+        }
+        const { abortSignal, numberOfImages = 1, aspectRatio = '1:1' } = params.config ?? {};
+        return postToProxy<ImagesResult>('text-to-image', { prompt: params.prompt, numberOfImages, aspectRatio }, abortSignal);
+    }, response => ({
+        inputTokens: 0,
+        outputTokens: 0,
+        images: response.generatedImages?.filter(generated => generated.image?.imageBytes).length ?? 0,
+    }));
+};
+
+// --- Usage tracking ---
+
+/**
+ * Sends one attempt and records it in the local usage log (services/usageTracker.ts).
+ * `expected` is held against today's cap while the attempt is in flight, and
+ * nothing is sent if it would go over. Attempts that never reached the API,
+ * because of a missing key or a cancel, aren't recorded.
+ */
+const trackUsage = async <T>(
+    operation: UsageOperation,
+    model: string,
+    expected: Pick<UsageRecord, 'inputTokens' | 'outputTokens' | 'images'>,
+    send: () => Promise<T>,
+    measure: (result: T) => Pick<UsageRecord, 'inputTokens' | 'outputTokens' | 'images'>,
+): Promise<T> => {
+    const violation = getDailyCapViolation({ model, ...expected });
+    if (violation) {
+        throw new Error(`DAILY_CAP_REACHED: ${violation}`);
+    }
+    const reservation = reserveUsage({ model, ...expected });
+    const startedAt = Date.now();
+    try {
+        const result = await send();
+        recordUsage({ timestamp: startedAt, model, operation, success: true, latencyMs: Date.now() - startedAt, ...measure(result) });
+        return result;
+    } catch (error) {
+        if (!isCancelledError(error) && getErrorMessage(error) !== 'NO_API_KEY') {
+            recordUsage({ timestamp: startedAt, model, operation, success: false, latencyMs: Date.now() - startedAt, inputTokens: 0, outputTokens: 0, images: 0 });
+        }
+        throw error;
+    } finally {
+        releaseUsage(reservation);
+    }
+};
+
+// --- Cancellation ---
+
+/** Options shared by every request so callers can abort in-flight work. */
+export interface RequestOptions {
+    signal?: AbortSignal;
+    /**
+     * Give up on the first RESOURCE_EXHAUSTED instead of backing off, so the
+     * caller can switch to another key right away.
+     */
+    failFastOnQuota?: boolean;
+    /** Awaited before every retry, so retries wait for the job queue's rate limit like new jobs do. */
+    acquireRateLimit?: () => Promise<void>;
+}
+
+/** Returns true when an error came from the caller aborting the request. */
+export const isCancelledError = (error: unknown): boolean => {
+    if (error instanceof DOMException && error.name === 'AbortError') return true;
+    return error instanceof Error && (error.message === 'CANCELLED' || error.name === 'AbortError');
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) {
+        throw new Error('CANCELLED');
+    }
+};
+
+// --- Retry Handling ---
+
+const MAX_RETRIES = 4;
+const BASE_RETRY_DELAY_MS = 1500;
+const MAX_RETRY_DELAY_MS = 60000;
+
+const getErrorMessage = (error: unknown): string => {
+    return error instanceof Error ? error.message : String(error);
+};
+
+/**
+ * Errors that will fail the same way no matter how often we retry:
+ * safety blocks, bad keys, zero or daily quotas and model refusals.
+ * Mirrors the permanent cases in translateApiError.
+ */
+const isPermanentError = (error: unknown): boolean => {
+    const message = getErrorMessage(error);
+    const messageLower = message.toLowerCase();
+    return message.includes("SAFETY") ||
+        message.includes("NO_API_KEY") ||
+        message.includes("DAILY_CAP_REACHED") ||
+        message.includes("MODEL_ERROR:") ||
+        message.includes("API key not valid") ||
+        message.includes("PERMISSION_DENIED") ||
+        message.includes("INVALID_ARGUMENT") ||
+        (messageLower.includes("exceeded your current quota") && messageLower.includes("limit: 0")) ||
+        /per ?day/i.test(message);
+};
+
+/** gRPC-style status names the API reports for failures worth retrying. */
+const TRANSIENT_STATUS_NAMES = ['RESOURCE_EXHAUSTED', 'UNAVAILABLE', 'INTERNAL', 'DEADLINE_EXCEEDED'];
+
+/** The structured status of an API or proxy error: an HTTP code, or a status name like "UNAVAILABLE". */
+const getErrorStatus = (error: unknown): number | string | null => {
+    const { status, code } = (error ?? {}) as { status?: unknown; code?: unknown };
+    if (typeof status === 'number' || typeof status === 'string') return status;
+    if (typeof code === 'number') return code;
+    return null;
+};
+
+/**
+ * Decides on the structured status when the error has one. Only errors without
+ * one, such as network failures, fall back to matching the message text, where
+ * an HTTP code has to appear as a code rather than as any number.
+ */
+const isTransientError = (error: unknown): boolean => {
+    const status = getErrorStatus(error);
+    if (typeof status === 'number') {
+        return status === 408 || status === 429 || status >= 500;
+    }
+    if (status !== null) {
+        return TRANSIENT_STATUS_NAMES.includes(status);
+    }
+    const message = getErrorMessage(error);
+    const messageLower = message.toLowerCase();
+    return /\b(?:code|status|http)["':\s]*(?:408|429|5\d\d)\b/i.test(message) ||
+        TRANSIENT_STATUS_NAMES.some(name => message.includes(name)) ||
+        message.includes("Failed to fetch") ||
+        messageLower.includes("networkerror") ||
+        messageLower.includes("overloaded");
+};
+
+/** The key ran out of quota (per minute or per day), as opposed to a proxy or network limit. */
+export const isQuotaExhaustedError = (error: unknown): boolean => {
+    const message = getErrorMessage(error);
+    return message.includes("RESOURCE_EXHAUSTED") ||
+        message.toLowerCase().includes("exceeded your current quota") ||
+        (!message.includes("RATE_LIMITED") && (error as { status?: number } | null)?.status === 429);
+};
+
+/**
+ * Extracts the server-suggested wait from an API error, either the
+ * `RetryInfo.retryDelay` field ("27s") or the "Please retry in 27.3s" hint.
+ */
+const getServerRetryDelayMs = (error: unknown): number | null => {
+    const message = getErrorMessage(error);
+    const match = message.match(/"retryDelay"\s*:\s*"([\d.]+)s"/) ?? message.match(/retry in ([\d.]+)\s*s/i);
+    if (!match) return null;
+    const seconds = parseFloat(match[1]);
+    return Number.isFinite(seconds) ? seconds * 1000 : null;
+};
+
+const getRetryDelayMs = (error: unknown, attempt: number): number => {
+    const serverDelay = getServerRetryDelayMs(error);
+    if (serverDelay !== null) {
+        // Honor the server's hint and add a little jitter so parallel jobs don't retry in lockstep.
+        return Math.min(MAX_RETRY_DELAY_MS, serverDelay + Math.random() * 1000);
+    }
+    const exponential = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
+    return exponential / 2 + Math.random() * (exponential / 2);
+};
+
+/**
+ * Seconds to hold off new requests after a quota error that outlasted the
+ * retries: the server's suggested wait, or the longest backoff withRetry uses.
+ * Null for any other error.
+ */
+export const getQuotaCooldownSeconds = (error: unknown): number | null => {
+    if (!isQuotaExhaustedError(error)) return null;
+    return Math.ceil((getServerRetryDelayMs(error) ?? MAX_RETRY_DELAY_MS) / 1000);
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new Error('CANCELLED'));
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs an API operation, retrying transient failures (429/RESOURCE_EXHAUSTED,
+ * 5xx, network errors) with jittered exponential backoff. Permanent errors are
+ * rethrown immediately, and aborting the signal stops both the request and any
+ * pending backoff with a CANCELLED error.
+ */
+const withRetry = async <T>(
+    operation: () => Promise<T>,
+    signal?: AbortSignal,
+    failFastOnQuota = false,
+    acquireRateLimit?: () => Promise<void>,
+): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        throwIfAborted(signal);
+        try {
+            return await operation();
+        } catch (error) {
+            if (signal?.aborted || isCancelledError(error)) {
+                throw new Error('CANCELLED');
+            }
+            if (attempt >= MAX_RETRIES || isPermanentError(error) || !isTransientError(error) || (failFastOnQuota && isQuotaExhaustedError(error))) {
+                throw error;
+            }
+            await sleep(getRetryDelayMs(error, attempt), signal);
+            await acquireRateLimit?.();
+        }
+    }
+};
+
+
+// --- Response Parsing ---
+
+/**
+ * Returns the first image of an image-model response as a data URL. Throws
+ * SAFETY when the response was blocked, and MODEL_ERROR with the model's text
+ * when it answered without an image.
+ */
+const getImageFromResponse = (response: ContentResult): string => {
+    const firstCandidate = response.candidates?.[0];
+    if (firstCandidate?.finishReason === 'SAFETY') {
+        throw new Error('SAFETY');
+    }
+
+    for (const part of firstCandidate?.content?.parts ?? []) {
+        if (part.inlineData) {
+            return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+        }
+    }
+
+    const textResponse = response.text || 'Không nhận được phản hồi hợp lệ từ mô hình.';
+    throw new Error(`MODEL_ERROR: ${textResponse}`);
+};
+
+
+// --- Public Service Functions (direct to the Gemini API, or via the proxy) ---
 
 export const validateApiKey = async (apiKey: string): Promise<{ success: boolean; error?: string }> => {
     const trimmedApiKey = apiKey.trim();
@@ -52,7 +405,10 @@ export const validateApiKey = async (apiKey: string): Promise<{ success: boolean
     
     try {
         // Validate by fetching model details, a simple, low-cost GET request.
-        const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash?key=${trimmedApiKey}`);
+        // The key goes in a header so it doesn't end up in URLs, logs or browser history.
+        const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${TEXT_MODEL}`, {
+            headers: { 'x-goog-api-key': trimmedApiKey },
+        });
         
         if (!response.ok) {
             const errorData = await response.json();
@@ -66,8 +422,7 @@ export const validateApiKey = async (apiKey: string): Promise<{ success: boolean
     }
 };
 
-export const generateTrendImage = async (images: File[], prompt: string, userApiKey: string | null): Promise<string> => {
-    const ai = getAi(userApiKey);
+export const generateTrendImage = async (images: File[], prompt: string, userApiKey: string | null, { signal, failFastOnQuota, acquireRateLimit }: RequestOptions = {}): Promise<string> => {
 
     const imageParts = await Promise.all(images.map(async (file) => ({
         inlineData: {
@@ -76,36 +431,22 @@ export const generateTrendImage = async (images: File[], prompt: string, userApi
         },
     })));
 
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
+    const response = await withRetry(() => generateContent('generate', userApiKey, {
+        model: IMAGE_MODEL,
         contents: {
             parts: [...imageParts, { text: prompt }],
         },
         config: {
             responseModalities: [Modality.IMAGE, Modality.TEXT],
+            abortSignal: signal,
         },
-    });
-    
-    if (response.candidates?.[0]?.finishReason === 'SAFETY') {
-        throw new Error('SAFETY');
-    }
+    }, toProxyImageBody(imageParts, prompt)), signal, failFastOnQuota, acquireRateLimit);
 
-    const firstCandidate = response.candidates?.[0];
-    if (firstCandidate?.content?.parts) {
-        for (const part of firstCandidate.content.parts) {
-            if (part.inlineData) {
-                return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-            }
-        }
-    }
-    
-    const textResponse = response.text || 'Không nhận được phản hồi hợp lệ từ mô hình.';
-    throw new Error(`MODEL_ERROR: ${textResponse}`);
+    return getImageFromResponse(response);
 };
 
 
-export const enhanceImage = async (imageDataUrl: string, quality: 'HD' | '2K' | '4K', userApiKey: string | null): Promise<string> => {
-    const ai = getAi(userApiKey);
+export const enhanceImage = async (imageDataUrl: string, quality: EnhanceQuality, userApiKey: string | null, { signal, failFastOnQuota, acquireRateLimit }: RequestOptions = {}): Promise<string> => {
     const imagePart = {
         inlineData: {
             data: dataUrlToBase64(imageDataUrl),
@@ -113,78 +454,147 @@ export const enhanceImage = async (imageDataUrl: string, quality: 'HD' | '2K' |
         },
     };
   
-    const promptText = `Hoạt động như một công cụ phục hồi và nâng cấp ảnh chuyên nghiệp. Nâng cấp hình ảnh này lên độ phân giải ${quality} bằng các thuật toán siêu phân giải. Làm sắc nét các chi tiết, loại bỏ nhiễu và các tạo tác, đồng thời cải thiện độ rõ nét tổng thể mà không làm thay đổi bố cục hoặc chủ thể ban đầu. Hình ảnh cuối cùng phải rõ ràng và chi tiết hơn đáng kể.`;
+    const promptText = `Hoạt động như một công cụ phục hồi và nâng cấp ảnh chuyên nghiệp. Nâng cấp hình ảnh này lên độ phân giải ${quality} bằng các thuật toán siêu phân giải. Làm sắc nét các chi tiết, loại bỏ nhiễu và các tạo tác, đồng thời cải thiện độ rõ nét tổng thể mà không làm thay đổi bố cục, tỷ lệ khung hình hoặc chủ thể ban đầu. Hình ảnh cuối cùng phải rõ ràng và chi tiết hơn đáng kể.`;
 
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
+    const response = await withRetry(() => generateContent('enhance', userApiKey, {
+        model: IMAGE_MODEL,
         contents: {
             parts: [imagePart, { text: promptText }],
         },
         config: {
             responseModalities: [Modality.IMAGE, Modality.TEXT],
+            abortSignal: signal,
         },
-    });
-    
-    if (response.candidates?.[0]?.finishReason === 'SAFETY') {
-        throw new Error('SAFETY');
-    }
+    }, toProxyImageBody([imagePart], promptText)), signal, failFastOnQuota, acquireRateLimit);
 
-    const firstCandidate = response.candidates?.[0];
-    if (firstCandidate?.content?.parts) {
-        for (const part of firstCandidate.content.parts) {
-            if (part.inlineData) {
-                return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-            }
-        }
-    }
+    return getImageFromResponse(response);
+};
 
-    const textResponse = response.text || 'Không nhận được phản hồi hợp lệ từ mô hình.';
-    throw new Error(`MODEL_ERROR: ${textResponse}`);
+
+export const editImageRegion = async (
+    imageDataUrl: string,
+    maskDataUrl: string,
+    instruction: string,
+    userApiKey: string | null,
+    { signal, failFastOnQuota, acquireRateLimit }: RequestOptions = {}
+): Promise<string> => {
+    const imagePart = {
+        inlineData: {
+            data: dataUrlToBase64(imageDataUrl),
+            mimeType: getMimeTypeFromDataUrl(imageDataUrl),
+        },
+    };
+    const maskPart = {
+        inlineData: {
+            data: dataUrlToBase64(maskDataUrl),
+            mimeType: getMimeTypeFromDataUrl(maskDataUrl),
+        },
+    };
+
+    const promptText = `Ảnh thứ nhất là ảnh cần chỉnh sửa. Ảnh thứ hai là mặt nạ (mask) cùng kích thước: vùng màu trắng là vùng được phép chỉnh sửa, vùng màu đen phải giữ nguyên tuyệt đối. Chỉ chỉnh sửa bên trong vùng trắng theo yêu cầu sau: "${instruction}". Giữ nguyên bố cục, ánh sáng, màu sắc và mọi chi tiết bên ngoài vùng mask; phần được chỉnh sửa phải hòa hợp tự nhiên với xung quanh. Trả về toàn bộ ảnh đã chỉnh sửa với cùng kích thước và khung hình.`;
+
+    const response = await withRetry(() => generateContent('edit-region', userApiKey, {
+        model: IMAGE_MODEL,
+        contents: {
+            parts: [imagePart, maskPart, { text: promptText }],
+        },
+        config: {
+            responseModalities: [Modality.IMAGE, Modality.TEXT],
+            abortSignal: signal,
+        },
+    }, toProxyImageBody([imagePart, maskPart], promptText)), signal, failFastOnQuota, acquireRateLimit);
+
+    return getImageFromResponse(response);
 };
 
 
-export const generateImageFromText = async (prompt: string, userApiKey: string | null): Promise<string> => {
-    const ai = getAi(userApiKey);
+/**
+ * One turn of a refinement conversation. The model sees the current version,
+ * the original reference photos (so faces and details don't drift turn after
+ * turn) and the earlier instructions as context for the new one.
+ */
+export const refineImage = async (
+    currentImageDataUrl: string,
+    referenceImages: File[],
+    instruction: string,
+    previousInstructions: string[],
+    userApiKey: string | null,
+    { signal, failFastOnQuota, acquireRateLimit }: RequestOptions = {}
+): Promise<string> => {
+    const currentPart = {
+        inlineData: {
+            data: dataUrlToBase64(currentImageDataUrl),
+            mimeType: getMimeTypeFromDataUrl(currentImageDataUrl),
+        },
+    };
+    const referenceParts = await Promise.all(referenceImages.map(async (file) => ({
+        inlineData: {
+            data: await fileToBase64(file),
+            mimeType: file.type,
+        },
+    })));
+
+    const historyText = previousInstructions.length > 0
+        ? `Các yêu cầu đã thực hiện trước đó: ${previousInstructions.map((text, i) => `${i + 1}. ${text}`).join(' ')}. `
+        : '';
+    const promptText = `Ảnh đầu tiên là phiên bản hiện tại cần chỉnh sửa. ${referenceImages.length > 0 ? `${referenceImages.length} ảnh tiếp theo là ảnh tham chiếu gốc của người dùng: hãy giữ đúng khuôn mặt, vóc dáng và đặc điểm nhận dạng theo các ảnh này. ` : ''}${historyText}Hãy chỉnh sửa phiên bản hiện tại theo yêu cầu mới: "${instruction}". Chỉ thay đổi những gì được yêu cầu, giữ nguyên bố cục, phong cách và mọi chi tiết khác.`;
+
+    const response = await withRetry(() => generateContent('refine', userApiKey, {
+        model: IMAGE_MODEL,
+        contents: {
+            parts: [currentPart, ...referenceParts, { text: promptText }],
+        },
+        config: {
+            responseModalities: [Modality.IMAGE, Modality.TEXT],
+            abortSignal: signal,
+        },
+    }, toProxyImageBody([currentPart, ...referenceParts], promptText)), signal, failFastOnQuota, acquireRateLimit);
+
+    return getImageFromResponse(response);
+};
 
-    const response = await ai.models.generateImages({
-        model: 'imagen-4.0-generate-001',
+
+export const generateImageFromText = async (
+    prompt: string,
+    userApiKey: string | null,
+    options: { numberOfImages?: number; aspectRatio?: ImagenAspectRatio } & RequestOptions = {}
+): Promise<string[]> => {
+
+    const response = await withRetry(() => generateImages(userApiKey, {
+        model: TEXT_TO_IMAGE_MODEL,
         prompt: prompt,
         config: {
-          numberOfImages: 1,
+          numberOfImages: options.numberOfImages ?? 1,
+          aspectRatio: options.aspectRatio ?? '1:1',
           outputMimeType: 'image/png',
+          abortSignal: options.signal,
         }
-    });
+    }), options.signal, options.failFastOnQuota, options.acquireRateLimit);
 
-    const base64ImageBytes = response.generatedImages?.[0]?.image?.imageBytes;
+    const images = (response.generatedImages ?? [])
+        .map(generated => generated.image?.imageBytes)
+        .filter((bytes): bytes is string => !!bytes)
+        .map(bytes => `data:image/png;base64,${bytes}`);
+
+    if (images.length > 0) {
+      return images;
+    }
 
-    if (base64ImageBytes) {
-      return `data:image/png;base64,${base64ImageBytes}`;
+    const filteredReason = response.generatedImages?.[0]?.raiFilteredReason;
+    if (filteredReason) {
+      throw new Error(`SAFETY: ${filteredReason}`);
     }
 
     throw new Error('MODEL_ERROR: Không nhận được ảnh từ mô hình.');
 };
 
-export const generatePromptVariations = async (basePrompt: string, count: number, userApiKey: string | null): Promise<string[]> => {
-    const ai = getAi(userApiKey);
-    
-    const systemInstruction = `You are a creative assistant specializing in generating diverse and interesting variations of image generation prompts. The user will provide a base prompt and a number. Your task is to rewrite the prompt that many times, introducing unique elements like different art styles, lighting, composition, or context. Ensure the core subject of the original prompt is maintained. The output must be a JSON array of strings, with each string being a distinct prompt variation. Do not include the original prompt in the output. The array must contain exactly the number of variations requested.`;
-    const userContent = `Base Prompt: "${basePrompt}"\nNumber of variations: ${count}`;
-
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: userContent,
-        config: {
-            systemInstruction: systemInstruction,
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
-                items: {
-                    type: Type.STRING,
-                    description: "A unique variation of the original image generation prompt."
-                }
-            },
-        },
-    });
+export const generatePromptVariations = async (basePrompt: string, count: number, userApiKey: string | null, { signal, failFastOnQuota, acquireRateLimit }: RequestOptions = {}): Promise<string[]> => {
+    const { contents, config } = buildVariationsRequest(basePrompt, count);
+    const response = await withRetry(() => generateContent('variations', userApiKey, {
+        model: TEXT_MODEL,
+        contents,
+        config: { ...config, abortSignal: signal },
+    }, { prompt: basePrompt, count }), signal, failFastOnQuota, acquireRateLimit);
 
     try {
         const jsonString = response.text.trim();
@@ -0,0 +1,182 @@
+import { HistoryEntry } from '../types';
+
+// --- IndexedDB-backed generation history ---
+
+const DB_NAME = 'tao-anh-trend';
+const DB_VERSION = 1;
+const STORE_NAME = 'history';
+
+/** Oldest entries beyond this count are pruned automatically after each save. */
+export const MAX_HISTORY_ENTRIES = 300;
+
+const THUMBNAIL_MAX_EDGE = 160;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB không khả dụng trên trình duyệt này.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(STORE_NAME)) {
+                    const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                    store.createIndex('createdAt', 'createdAt');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const runRequest = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    return openDb().then(db => new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, mode);
+        const request = action(transaction.objectStore(STORE_NAME));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error ?? request.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+    }));
+};
+
+const isQuotaError = (error: unknown): boolean => {
+    return error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22);
+};
+
+const createId = (): string => {
+    return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+};
+
+// --- Image helpers ---
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+    const res = await fetch(dataUrl);
+    return res.blob();
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+    return new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+};
+
+/** Downscales an image to a small JPEG data URL suitable for storing alongside an entry. */
+export const createThumbnail = async (source: Blob, maxEdge: number = THUMBNAIL_MAX_EDGE): Promise<string> => {
+    const bitmap = await createImageBitmap(source);
+    const scale = Math.min(1, maxEdge / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', 0.7);
+};
+
+// --- Public API ---
+
+export type NewHistoryEntry = Omit<HistoryEntry, 'id' | 'createdAt' | 'image' | 'inputThumbnails'> & {
+    imageDataUrl: string;
+    inputImages?: Blob[];
+};
+
+export const listHistoryEntries = async (): Promise<HistoryEntry[]> => {
+    const entries = await runRequest<HistoryEntry[]>('readonly', store => store.getAll());
+    return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteHistoryEntry = (id: string): Promise<undefined> => {
+    return runRequest('readwrite', store => store.delete(id));
+};
+
+export const clearHistory = (): Promise<undefined> => {
+    return runRequest('readwrite', store => store.clear());
+};
+
+export const countHistoryEntries = (): Promise<number> => {
+    return runRequest('readonly', store => store.count());
+};
+
+/** Deletes the oldest entries until at most `keep` remain. Returns how many were removed. */
+export const pruneHistory = async (keep: number): Promise<number> => {
+    const db = await openDb();
+    return new Promise<number>((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        let removed = 0;
+        const countRequest = store.count();
+        countRequest.onsuccess = () => {
+            let excess = countRequest.result - Math.max(0, keep);
+            if (excess <= 0) return;
+            // The createdAt index iterates oldest first.
+            const cursorRequest = store.index('createdAt').openCursor();
+            cursorRequest.onsuccess = () => {
+                const cursor = cursorRequest.result;
+                if (!cursor || excess <= 0) return;
+                cursor.delete();
+                removed++;
+                excess--;
+                cursor.continue();
+            };
+        };
+        transaction.oncomplete = () => resolve(removed);
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
+
+/**
+ * Saves a generated image to history. When the browser's storage quota is
+ * exhausted the oldest tenth of the history is dropped and the save retried once.
+ */
+export const addHistoryEntry = async ({ imageDataUrl, inputImages = [], ...meta }: NewHistoryEntry): Promise<HistoryEntry> => {
+    const entry: HistoryEntry = {
+        ...meta,
+        id: createId(),
+        createdAt: Date.now(),
+        image: await dataUrlToBlob(imageDataUrl),
+        inputThumbnails: await Promise.all(inputImages.map(img => createThumbnail(img).catch(() => ''))),
+    };
+
+    try {
+        await runRequest('readwrite', store => store.put(entry));
+    } catch (error) {
+        if (!isQuotaError(error)) throw error;
+        await pruneHistory(Math.floor((await countHistoryEntries()) * 0.9));
+        await runRequest('readwrite', store => store.put(entry));
+    }
+
+    await pruneHistory(MAX_HISTORY_ENTRIES);
+    return entry;
+};
+
+export interface StorageUsage {
+    usage: number;
+    quota: number;
+    persisted: boolean;
+}
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+    return { usage, quota, persisted };
+};
+
+/** Asks the browser not to evict the history under storage pressure. */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+    if (!navigator.storage?.persist) return false;
+    return navigator.storage.persist();
+};
@@ -0,0 +1,176 @@
+// --- Crop, rotate and flip for uploaded photos ---
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+/** Crop rectangle in 0–1 units of the rotated and flipped image. */
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface ImageEdits {
+    rotation: Rotation;
+    /** Mirror the source photo before it is rotated; see `getFlipAxis` for the flip buttons. */
+    flipX: boolean;
+    flipY: boolean;
+    crop: CropRect;
+}
+
+export type CropHandle = 'nw' | 'ne' | 'sw' | 'se';
+
+export const CROP_ASPECTS: { label: string; ratio: number | null }[] = [
+    { label: 'Tự do', ratio: null },
+    { label: '1:1', ratio: 1 },
+    { label: '3:4', ratio: 3 / 4 },
+    { label: '4:3', ratio: 4 / 3 },
+    { label: '9:16', ratio: 9 / 16 },
+    { label: '16:9', ratio: 16 / 9 },
+];
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+export const DEFAULT_EDITS: ImageEdits = { rotation: 0, flipX: false, flipY: false, crop: FULL_CROP };
+
+/** Smallest crop edge in source pixels, so a stray click can't collapse the selection. */
+const MIN_CROP_PIXELS = 16;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const getOrientedSize = (width: number, height: number, rotation: Rotation): { width: number; height: number } => {
+    return rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+};
+
+/**
+ * The flip to toggle for a flip button: a horizontal flip of what the user sees
+ * mirrors the source vertically when it is turned sideways.
+ */
+export const getFlipAxis = (visibleAxis: 'flipX' | 'flipY', rotation: Rotation): 'flipX' | 'flipY' => {
+    if (rotation % 180 === 0) return visibleAxis;
+    return visibleAxis === 'flipX' ? 'flipY' : 'flipX';
+};
+
+/**
+ * Draws `source` flipped and then rotated so it fills a canvas of the oriented
+ * size times `scale`. Flipping first keeps the rotate buttons turning the way
+ * they say whatever flips are set.
+ */
+export const drawOriented = (
+    ctx: CanvasRenderingContext2D,
+    source: ImageBitmap,
+    edits: Pick<ImageEdits, 'rotation' | 'flipX' | 'flipY'>,
+    scale: number,
+): void => {
+    const oriented = getOrientedSize(source.width, source.height, edits.rotation);
+    ctx.save();
+    ctx.translate((oriented.width * scale) / 2, (oriented.height * scale) / 2);
+    ctx.rotate((edits.rotation * Math.PI) / 180);
+    ctx.scale(edits.flipX ? -1 : 1, edits.flipY ? -1 : 1);
+    ctx.drawImage(source, (-source.width * scale) / 2, (-source.height * scale) / 2, source.width * scale, source.height * scale);
+    ctx.restore();
+};
+
+/** Largest centered crop with the given pixel aspect ratio, or the whole image for free crop. */
+export const getInitialCrop = (imageWidth: number, imageHeight: number, ratio: number | null): CropRect => {
+    if (!ratio) return FULL_CROP;
+    const imageRatio = imageWidth / imageHeight;
+    if (imageRatio > ratio) {
+        const width = ratio / imageRatio;
+        return { x: (1 - width) / 2, y: 0, width, height: 1 };
+    }
+    const height = imageRatio / ratio;
+    return { x: 0, y: (1 - height) / 2, width: 1, height };
+};
+
+export const moveCrop = (start: CropRect, dx: number, dy: number): CropRect => ({
+    ...start,
+    x: clamp(start.x + dx, 0, 1 - start.width),
+    y: clamp(start.y + dy, 0, 1 - start.height),
+});
+
+/**
+ * Resizes the crop by dragging `handle` to `point`, keeping the opposite corner
+ * fixed. With a ratio the rectangle keeps its aspect and shrinks to stay inside
+ * the image.
+ */
+export const resizeCrop = (
+    start: CropRect,
+    handle: CropHandle,
+    point: { x: number; y: number },
+    imageWidth: number,
+    imageHeight: number,
+    ratio: number | null,
+): CropRect => {
+    const anchorX = handle.includes('w') ? start.x + start.width : start.x;
+    const anchorY = handle.includes('n') ? start.y + start.height : start.y;
+    const directionX = handle.includes('w') ? -1 : 1;
+    const directionY = handle.includes('n') ? -1 : 1;
+
+    const availableWidth = (directionX > 0 ? 1 - anchorX : anchorX) * imageWidth;
+    const availableHeight = (directionY > 0 ? 1 - anchorY : anchorY) * imageHeight;
+    const minWidth = Math.min(MIN_CROP_PIXELS, availableWidth);
+    const minHeight = Math.min(MIN_CROP_PIXELS, availableHeight);
+    let width = clamp((point.x - anchorX) * directionX * imageWidth, minWidth, availableWidth);
+    let height = clamp((point.y - anchorY) * directionY * imageHeight, minHeight, availableHeight);
+
+    if (ratio) {
+        if (width / height > ratio) {
+            width = height * ratio;
+        } else {
+            height = width / ratio;
+        }
+        if (width > availableWidth) {
+            width = availableWidth;
+            height = width / ratio;
+        }
+        if (height > availableHeight) {
+            height = availableHeight;
+            width = height * ratio;
+        }
+    }
+
+    const normalizedWidth = width / imageWidth;
+    const normalizedHeight = height / imageHeight;
+    return {
+        x: directionX > 0 ? anchorX : anchorX - normalizedWidth,
+        y: directionY > 0 ? anchorY : anchorY - normalizedHeight,
+        width: normalizedWidth,
+        height: normalizedHeight,
+    };
+};
+
+export const isUnedited = (edits: ImageEdits): boolean => {
+    const { crop } = edits;
+    return edits.rotation === 0 && !edits.flipX && !edits.flipY &&
+        crop.x === 0 && crop.y === 0 && crop.width === 1 && crop.height === 1;
+};
+
+const ENCODABLE_TYPES = new Set(['image/jpeg', 'image/png', 'image/webp']);
+
+/**
+ * Renders the edits at full resolution into a new File that keeps the original
+ * name and, where the browser can encode it, the original type.
+ */
+export const renderEditedImage = async (file: File, source: ImageBitmap, edits: ImageEdits): Promise<File> => {
+    const oriented = getOrientedSize(source.width, source.height, edits.rotation);
+    const cropX = Math.round(edits.crop.x * oriented.width);
+    const cropY = Math.round(edits.crop.y * oriented.height);
+    const cropWidth = Math.max(1, Math.round(edits.crop.width * oriented.width));
+    const cropHeight = Math.max(1, Math.round(edits.crop.height * oriented.height));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = cropWidth;
+    canvas.height = cropHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Không thể chỉnh sửa ảnh.');
+    ctx.translate(-cropX, -cropY);
+    drawOriented(ctx, source, edits, 1);
+
+    const type = ENCODABLE_TYPES.has(file.type) ? file.type : 'image/jpeg';
+    const blob = await new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob(result => result ? resolve(result) : reject(new Error('Không thể chỉnh sửa ảnh.')), type, 0.95);
+    });
+    const name = type === file.type ? file.name : `${file.name.replace(/\.[^.]+$/, '') || 'image'}.jpg`;
+    return new File([blob], name, { type: blob.type, lastModified: Date.now() });
+};
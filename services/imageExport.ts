@@ -0,0 +1,140 @@
+// --- Download format conversion, resizing and social media presets ---
+
+export type ExportFormat = 'original' | 'image/png' | 'image/jpeg' | 'image/webp' | 'image/avif';
+
+export interface ExportPreset {
+    id: string;
+    label: string;
+    width: number;
+    height: number;
+}
+
+export const EXPORT_PRESETS: ExportPreset[] = [
+    { id: 'tiktok', label: 'TikTok 9:16', width: 1080, height: 1920 },
+    { id: 'zalo-cover', label: 'Ảnh bìa Zalo', width: 1920, height: 1080 },
+    { id: 'square', label: 'Vuông 1:1', width: 1080, height: 1080 },
+];
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; lossy: boolean }[] = [
+    { value: 'original', label: 'Gốc', lossy: false },
+    { value: 'image/png', label: 'PNG', lossy: false },
+    { value: 'image/jpeg', label: 'JPEG', lossy: true },
+    { value: 'image/webp', label: 'WebP', lossy: true },
+    { value: 'image/avif', label: 'AVIF', lossy: true },
+];
+
+export const MAX_DIMENSION_OPTIONS: (number | null)[] = [null, 4096, 2048, 1440, 1080, 720];
+
+export interface ExportOptions {
+    format: ExportFormat;
+    /** 0–1, used by lossy formats only. */
+    quality: number;
+    /** Longest edge in pixels; null keeps the original size. Ignored when a preset is set. */
+    maxDimension: number | null;
+    /** Preset id; the image is center-cropped to the preset's exact size. */
+    presetId: string | null;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+    format: 'original',
+    quality: 0.92,
+    maxDimension: null,
+    presetId: null,
+};
+
+const STORAGE_KEY = 'exportOptions';
+
+export const loadExportOptions = (): ExportOptions => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return DEFAULT_EXPORT_OPTIONS;
+        const parsed = JSON.parse(raw) as Partial<ExportOptions>;
+        return {
+            format: EXPORT_FORMATS.some(f => f.value === parsed.format) ? parsed.format! : DEFAULT_EXPORT_OPTIONS.format,
+            quality: typeof parsed.quality === 'number' ? Math.min(1, Math.max(0.1, parsed.quality)) : DEFAULT_EXPORT_OPTIONS.quality,
+            maxDimension: typeof parsed.maxDimension === 'number' ? parsed.maxDimension : null,
+            presetId: EXPORT_PRESETS.some(p => p.id === parsed.presetId) ? parsed.presetId! : null,
+        };
+    } catch {
+        return DEFAULT_EXPORT_OPTIONS;
+    }
+};
+
+export const saveExportOptions = (options: ExportOptions): void => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+};
+
+export const isDefaultExport = (options: ExportOptions): boolean => {
+    return options.format === 'original' && options.maxDimension === null && options.presetId === null;
+};
+
+const supportCache = new Map<string, boolean>();
+
+/** Browsers silently fall back to PNG for encoders they lack, so probe by checking the output type. */
+export const isFormatSupported = (format: ExportFormat): boolean => {
+    if (format === 'original' || format === 'image/png') return true;
+    if (!supportCache.has(format)) {
+        const canvas = document.createElement('canvas');
+        canvas.width = canvas.height = 1;
+        supportCache.set(format, canvas.toDataURL(format).startsWith(`data:${format}`));
+    }
+    return supportCache.get(format)!;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> => {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Không thể chuyển đổi ảnh.')), type, quality);
+    });
+};
+
+/**
+ * Converts and resizes an image according to `options`. The returned Blob's
+ * `type` is the format actually produced, which may be PNG when the browser
+ * cannot encode the requested one.
+ */
+export const exportImage = async (source: Blob, options: ExportOptions): Promise<Blob> => {
+    if (isDefaultExport(options)) return source;
+
+    const bitmap = await createImageBitmap(source);
+    const preset = EXPORT_PRESETS.find(p => p.id === options.presetId);
+    let sx = 0, sy = 0, sw = bitmap.width, sh = bitmap.height;
+    let width = bitmap.width, height = bitmap.height;
+
+    if (preset) {
+        // Cover: crop the source to the preset's aspect ratio around the center.
+        const targetRatio = preset.width / preset.height;
+        if (sw / sh > targetRatio) {
+            sw = Math.round(sh * targetRatio);
+            sx = Math.round((bitmap.width - sw) / 2);
+        } else {
+            sh = Math.round(sw / targetRatio);
+            sy = Math.round((bitmap.height - sh) / 2);
+        }
+        width = preset.width;
+        height = preset.height;
+    } else if (options.maxDimension && Math.max(width, height) > options.maxDimension) {
+        const scale = options.maxDimension / Math.max(width, height);
+        width = Math.round(width * scale);
+        height = Math.round(height * scale);
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        bitmap.close();
+        throw new Error('Không thể chuyển đổi ảnh.');
+    }
+    const type = options.format === 'original' ? (source.type || 'image/png') : options.format;
+    if (type === 'image/jpeg') {
+        // JPEG has no alpha channel; flatten onto white instead of black.
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, width, height);
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, sx, sy, sw, sh, 0, 0, width, height);
+    bitmap.close();
+
+    return canvasToBlob(canvas, isFormatSupported(type as ExportFormat) ? type : 'image/png', options.quality);
+};
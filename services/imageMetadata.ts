@@ -0,0 +1,423 @@
+import { GenerationMetadata } from '../types';
+import { crc32 } from './crc32';
+
+// --- Generation metadata embedded in image files ---
+//
+// PNG gets tEXt/iTXt chunks, JPEG gets EXIF + XMP APP1 segments and WebP gets
+// EXIF + XMP RIFF chunks. The full settings are stored as JSON: in an iTXt chunk
+// for PNG and in the tat:Generation XMP attribute for JPEG/WebP.
+
+const METADATA_VERSION = 1;
+
+const METADATA_KEYWORD = 'tao-anh-trend';
+const SOFTWARE_NAME = 'Tao Anh Trend';
+const XMP_NAMESPACE = 'http://ns.tao-anh-trend.app/1.0/';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const MAX_JPEG_SEGMENT = 0xffff - 2;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+    const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out;
+};
+
+const latin1 = (text: string): Uint8Array => {
+    return Uint8Array.from(text, ch => ch.charCodeAt(0) & 0xff);
+};
+
+const readAscii = (bytes: Uint8Array, offset: number, length: number): string => {
+    return String.fromCharCode(...bytes.subarray(offset, offset + length));
+};
+
+const startsWith = (bytes: Uint8Array, prefix: number[]): boolean => {
+    return prefix.every((value, i) => bytes[i] === value);
+};
+
+type ImageFormat = 'png' | 'jpeg' | 'webp';
+
+const detectFormat = (bytes: Uint8Array): ImageFormat | null => {
+    if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+    if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'jpeg';
+    if (readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WEBP') return 'webp';
+    return null;
+};
+
+const isGenerationMetadata = (value: unknown): value is GenerationMetadata => {
+    const candidate = value as GenerationMetadata | null;
+    return !!candidate &&
+        candidate.app === METADATA_KEYWORD &&
+        typeof candidate.prompt === 'string' &&
+        typeof candidate.model === 'string' &&
+        Array.isArray(candidate.enhancements);
+};
+
+const parseMetadataJson = (json: string): GenerationMetadata | null => {
+    try {
+        const parsed = JSON.parse(json);
+        return isGenerationMetadata(parsed) ? parsed : null;
+    } catch {
+        return null;
+    }
+};
+
+// --- XMP ---
+
+const escapeXml = (text: string): string => {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+};
+
+const unescapeXml = (text: string): string => {
+    return text
+        .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&amp;/g, '&');
+};
+
+const buildXmp = (meta: GenerationMetadata): string => {
+    return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmlns:tat="${XMP_NAMESPACE}"
+    xmp:CreatorTool="${SOFTWARE_NAME}"
+    xmp:CreateDate="${escapeXml(meta.createdAt)}"
+    tat:Generation="${escapeXml(JSON.stringify(meta))}">
+   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(meta.prompt)}</rdf:li></rdf:Alt></dc:description>
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+};
+
+const parseXmp = (xmp: string): GenerationMetadata | null => {
+    const match = xmp.match(/tat:Generation="([^"]*)"/);
+    return match ? parseMetadataJson(unescapeXml(match[1])) : null;
+};
+
+// --- EXIF ---
+
+const formatExifDate = (iso: string): string => {
+    const date = new Date(iso);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}:${pad(date.getMonth() + 1)}:${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+/** Little-endian TIFF structure with ImageDescription, Software and DateTime in IFD0. */
+const buildExif = (meta: GenerationMetadata): Uint8Array => {
+    const fields: [number, Uint8Array][] = [
+        [0x010e, concatBytes([encoder.encode(meta.prompt), new Uint8Array([0])])],
+        [0x0131, concatBytes([latin1(SOFTWARE_NAME), new Uint8Array([0])])],
+        [0x0132, concatBytes([latin1(formatExifDate(meta.createdAt)), new Uint8Array([0])])],
+    ];
+    const ifdSize = 2 + fields.length * 12 + 4;
+    let valueOffset = 8 + ifdSize;
+    const values: Uint8Array[] = [];
+    const ifd = new DataView(new ArrayBuffer(ifdSize));
+    ifd.setUint16(0, fields.length, true);
+    fields.forEach(([tag, value], i) => {
+        const entry = 2 + i * 12;
+        ifd.setUint16(entry, tag, true);
+        ifd.setUint16(entry + 2, 2, true); // ASCII
+        ifd.setUint32(entry + 4, value.length, true);
+        if (value.length <= 4) {
+            new Uint8Array(ifd.buffer).set(value, entry + 8);
+        } else {
+            ifd.setUint32(entry + 8, valueOffset, true);
+            values.push(value);
+            valueOffset += value.length + (value.length % 2);
+            if (value.length % 2) values.push(new Uint8Array(1));
+        }
+    });
+    ifd.setUint32(ifdSize - 4, 0, true);
+    const header = new Uint8Array([0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00]);
+    return concatBytes([header, new Uint8Array(ifd.buffer), ...values]);
+};
+
+// --- PNG ---
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+    const typeBytes = latin1(type);
+    const out = new Uint8Array(12 + data.length);
+    const view = new DataView(out.buffer);
+    view.setUint32(0, data.length);
+    out.set(typeBytes, 4);
+    out.set(data, 8);
+    view.setUint32(8 + data.length, crc32(data, crc32(typeBytes)));
+    return out;
+};
+
+const textChunk = (keyword: string, text: string): Uint8Array => {
+    return pngChunk('tEXt', concatBytes([latin1(keyword), new Uint8Array([0]), latin1(text)]));
+};
+
+const internationalTextChunk = (keyword: string, text: string): Uint8Array => {
+    // keyword \0, compression flag 0, method 0, empty language tag \0, empty translated keyword \0
+    return pngChunk('iTXt', concatBytes([latin1(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text)]));
+};
+
+interface PngChunkInfo {
+    type: string;
+    start: number;
+    end: number;
+    data: Uint8Array;
+}
+
+const listPngChunks = (bytes: Uint8Array): PngChunkInfo[] => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const chunks: PngChunkInfo[] = [];
+    let offset = 8;
+    while (offset + 12 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const end = offset + 12 + length;
+        if (end > bytes.length) break;
+        chunks.push({ type: readAscii(bytes, offset + 4, 4), start: offset, end, data: bytes.subarray(offset + 8, offset + 8 + length) });
+        offset = end;
+    }
+    return chunks;
+};
+
+const getChunkKeyword = (data: Uint8Array): string => {
+    const nul = data.indexOf(0);
+    return readAscii(data, 0, nul < 0 ? data.length : nul);
+};
+
+const OWN_PNG_KEYWORDS = new Set([METADATA_KEYWORD, 'Description', 'Software', 'Creation Time']);
+
+const embedPng = (bytes: Uint8Array, meta: GenerationMetadata): Uint8Array => {
+    const chunks = listPngChunks(bytes);
+    const ihdr = chunks[0];
+    if (!ihdr || ihdr.type !== 'IHDR') return bytes;
+    // Drop text chunks from a previous embed so re-downloads do not accumulate duplicates.
+    const kept = chunks.slice(1).filter(chunk =>
+        !((chunk.type === 'tEXt' || chunk.type === 'iTXt') && OWN_PNG_KEYWORDS.has(getChunkKeyword(chunk.data)))
+    );
+    return concatBytes([
+        bytes.subarray(0, ihdr.end),
+        textChunk('Software', SOFTWARE_NAME),
+        textChunk('Creation Time', meta.createdAt),
+        internationalTextChunk('Description', meta.prompt),
+        internationalTextChunk(METADATA_KEYWORD, JSON.stringify(meta)),
+        ...kept.map(chunk => bytes.subarray(chunk.start, chunk.end)),
+    ]);
+};
+
+const readPng = (bytes: Uint8Array): GenerationMetadata | null => {
+    for (const chunk of listPngChunks(bytes)) {
+        if (chunk.type !== 'iTXt' || getChunkKeyword(chunk.data) !== METADATA_KEYWORD) continue;
+        const keywordEnd = chunk.data.indexOf(0);
+        if (chunk.data[keywordEnd + 1] !== 0) continue; // compressed text is never written by us
+        const languageEnd = chunk.data.indexOf(0, keywordEnd + 3);
+        const translatedEnd = chunk.data.indexOf(0, languageEnd + 1);
+        return parseMetadataJson(decoder.decode(chunk.data.subarray(translatedEnd + 1)));
+    }
+    return null;
+};
+
+// --- JPEG ---
+
+const jpegSegment = (marker: number, payload: Uint8Array): Uint8Array => {
+    const out = new Uint8Array(4 + payload.length);
+    out[0] = 0xff;
+    out[1] = marker;
+    new DataView(out.buffer).setUint16(2, payload.length + 2);
+    out.set(payload, 4);
+    return out;
+};
+
+const embedJpeg = (bytes: Uint8Array, meta: GenerationMetadata): Uint8Array => {
+    // Walk the header segments, dropping earlier EXIF/XMP so re-downloads do not accumulate copies.
+    const head: Uint8Array[] = [];
+    let insertIndex = 0;
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        if (marker === 0xda || marker === 0xd9) break;
+        const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+        const isExif = marker === 0xe1 && readAscii(bytes, offset + 4, 6) === 'Exif\0\0';
+        const isXmp = marker === 0xe1 && readAscii(bytes, offset + 4, XMP_HEADER.length) === XMP_HEADER;
+        if (!isExif && !isXmp) {
+            head.push(bytes.subarray(offset, end));
+            // New segments go after a leading JFIF APP0, which must stay first.
+            if (marker === 0xe0 && head.length === 1) insertIndex = 1;
+        }
+        offset = end;
+    }
+
+    const segments: Uint8Array[] = [];
+    const exif = concatBytes([latin1('Exif\0\0'), buildExif(meta)]);
+    if (exif.length <= MAX_JPEG_SEGMENT) segments.push(jpegSegment(0xe1, exif));
+    const xmp = concatBytes([latin1(XMP_HEADER), encoder.encode(buildXmp(meta))]);
+    if (xmp.length <= MAX_JPEG_SEGMENT) segments.push(jpegSegment(0xe1, xmp));
+    head.splice(insertIndex, 0, ...segments);
+    return concatBytes([bytes.subarray(0, 2), ...head, bytes.subarray(offset)]);
+};
+
+const readJpeg = (bytes: Uint8Array): GenerationMetadata | null => {
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        if (marker === 0xda || marker === 0xd9) break; // image data starts
+        const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+        if (marker === 0xe1 && readAscii(bytes, offset + 4, XMP_HEADER.length) === XMP_HEADER) {
+            const xmp = decoder.decode(bytes.subarray(offset + 4 + XMP_HEADER.length, offset + 2 + length));
+            const meta = parseXmp(xmp);
+            if (meta) return meta;
+        }
+        offset += 2 + length;
+    }
+    return null;
+};
+
+// --- WebP ---
+
+interface RiffChunk {
+    type: string;
+    data: Uint8Array;
+}
+
+const listRiffChunks = (bytes: Uint8Array): RiffChunk[] => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const chunks: RiffChunk[] = [];
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+        const size = view.getUint32(offset + 4, true);
+        chunks.push({ type: readAscii(bytes, offset, 4), data: bytes.subarray(offset + 8, offset + 8 + size) });
+        offset += 8 + size + (size % 2);
+    }
+    return chunks;
+};
+
+const riffChunk = (type: string, data: Uint8Array): Uint8Array => {
+    const padded = data.length % 2;
+    const out = new Uint8Array(8 + data.length + padded);
+    out.set(latin1(type), 0);
+    new DataView(out.buffer).setUint32(4, data.length, true);
+    out.set(data, 8);
+    return out;
+};
+
+const VP8X_ALPHA = 0x10;
+const VP8X_EXIF = 0x08;
+const VP8X_XMP = 0x04;
+
+/** Canvas size and alpha flag from a simple (non-extended) WebP bitstream. */
+const readWebpCanvas = (chunk: RiffChunk): { width: number; height: number; alpha: boolean } | null => {
+    const d = chunk.data;
+    if (chunk.type === 'VP8 ' && d.length >= 10) {
+        return { width: ((d[7] << 8) | d[6]) & 0x3fff, height: ((d[9] << 8) | d[8]) & 0x3fff, alpha: false };
+    }
+    if (chunk.type === 'VP8L' && d.length >= 5 && d[0] === 0x2f) {
+        const bits = d[1] | (d[2] << 8) | (d[3] << 16) | (d[4] << 24);
+        return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1, alpha: ((bits >>> 28) & 1) === 1 };
+    }
+    return null;
+};
+
+const buildVp8x = (flags: number, width: number, height: number): Uint8Array => {
+    const data = new Uint8Array(10);
+    data[0] = flags;
+    const w = width - 1;
+    const h = height - 1;
+    data.set([w & 0xff, (w >> 8) & 0xff, (w >> 16) & 0xff, h & 0xff, (h >> 8) & 0xff, (h >> 16) & 0xff], 4);
+    return data;
+};
+
+const embedWebp = (bytes: Uint8Array, meta: GenerationMetadata): Uint8Array => {
+    const chunks = listRiffChunks(bytes).filter(chunk => chunk.type !== 'EXIF' && chunk.type !== 'XMP ');
+    const first = chunks[0];
+    if (!first) return bytes;
+
+    let header: Uint8Array;
+    let rest: RiffChunk[];
+    if (first.type === 'VP8X') {
+        const data = new Uint8Array(first.data);
+        data[0] |= VP8X_EXIF | VP8X_XMP;
+        header = riffChunk('VP8X', data);
+        rest = chunks.slice(1);
+    } else {
+        const canvas = readWebpCanvas(first);
+        if (!canvas) return bytes;
+        const flags = VP8X_EXIF | VP8X_XMP | (canvas.alpha ? VP8X_ALPHA : 0);
+        header = riffChunk('VP8X', buildVp8x(flags, canvas.width, canvas.height));
+        rest = chunks;
+    }
+
+    const body = concatBytes([
+        latin1('WEBP'),
+        header,
+        ...rest.map(chunk => riffChunk(chunk.type, chunk.data)),
+        riffChunk('EXIF', buildExif(meta)),
+        riffChunk('XMP ', encoder.encode(buildXmp(meta))),
+    ]);
+    const riffHeader = new Uint8Array(8);
+    riffHeader.set(latin1('RIFF'), 0);
+    new DataView(riffHeader.buffer).setUint32(4, body.length, true);
+    return concatBytes([riffHeader, body]);
+};
+
+const readWebp = (bytes: Uint8Array): GenerationMetadata | null => {
+    const xmp = listRiffChunks(bytes).find(chunk => chunk.type === 'XMP ');
+    return xmp ? parseXmp(decoder.decode(xmp.data)) : null;
+};
+
+// --- Public API ---
+
+export const createGenerationMetadata = (
+    { mode, styleId, styleName, prompt, model, enhancements, createdAt = Date.now() }:
+        Omit<GenerationMetadata, 'app' | 'version' | 'createdAt'> & { createdAt?: number }
+): GenerationMetadata => ({
+    app: METADATA_KEYWORD,
+    version: METADATA_VERSION,
+    mode,
+    styleId,
+    styleName,
+    prompt,
+    model,
+    enhancements,
+    createdAt: new Date(createdAt).toISOString(),
+});
+
+/** Returns a copy of the image with the settings embedded. Unknown formats are returned unchanged. */
+export const embedGenerationMetadata = async (image: Blob, meta: GenerationMetadata): Promise<Blob> => {
+    const bytes = new Uint8Array(await image.arrayBuffer());
+    const format = detectFormat(bytes);
+    if (!format) return image;
+    const output = format === 'png' ? embedPng(bytes, meta)
+        : format === 'jpeg' ? embedJpeg(bytes, meta)
+        : embedWebp(bytes, meta);
+    return new Blob([output], { type: image.type || `image/${format}` });
+};
+
+/** Reads settings embedded by `embedGenerationMetadata`, or null when the file has none. */
+export const readGenerationMetadata = async (file: Blob): Promise<GenerationMetadata | null> => {
+    try {
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        switch (detectFormat(bytes)) {
+            case 'png': return readPng(bytes);
+            case 'jpeg': return readJpeg(bytes);
+            case 'webp': return readWebp(bytes);
+            default: return null;
+        }
+    } catch (error) {
+        console.error("Failed to read image metadata:", error);
+        return null;
+    }
+};
@@ -0,0 +1,303 @@
+// --- Upload preprocessing: orientation, downscaling, format conversion and privacy ---
+
+export interface PreprocessOptions {
+    /** Longest edge in pixels sent to the model; null keeps the original size. */
+    maxEdge: number | null;
+    /** 0–1, JPEG quality used when an image has to be re-encoded. */
+    quality: number;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+    maxEdge: 2048,
+    quality: 0.9,
+};
+
+export const MAX_EDGE_OPTIONS: (number | null)[] = [null, 3072, 2048, 1536, 1024];
+
+const STORAGE_KEY = 'preprocessOptions';
+
+export const loadPreprocessOptions = (): PreprocessOptions => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return DEFAULT_PREPROCESS_OPTIONS;
+        const parsed = JSON.parse(raw) as Partial<PreprocessOptions>;
+        return {
+            maxEdge: parsed.maxEdge === null || MAX_EDGE_OPTIONS.includes(parsed.maxEdge ?? -1) ? parsed.maxEdge ?? null : DEFAULT_PREPROCESS_OPTIONS.maxEdge,
+            quality: typeof parsed.quality === 'number' ? Math.min(1, Math.max(0.5, parsed.quality)) : DEFAULT_PREPROCESS_OPTIONS.quality,
+        };
+    } catch {
+        return DEFAULT_PREPROCESS_OPTIONS;
+    }
+};
+
+export const savePreprocessOptions = (options: PreprocessOptions): void => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+};
+
+export interface PreprocessedImage {
+    /** The file to send; the original File when nothing needed changing. */
+    file: File;
+    originalSize: number;
+    originalType: string;
+    width: number;
+    height: number;
+    /** EXIF orientation (2–8) that was baked into the pixels. */
+    rotated: boolean;
+    resized: boolean;
+    /** The source format is not accepted by the model and was re-encoded. */
+    converted: boolean;
+    gpsRemoved: boolean;
+}
+
+/** Formats the model accepts as-is; anything else (HEIC, GIF, BMP…) is re-encoded. */
+const SUPPORTED_TYPES = new Set(['image/jpeg', 'image/png', 'image/webp']);
+
+// --- EXIF ---
+
+interface ExifInfo {
+    orientation: number;
+    hasGps: boolean;
+}
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_GPS_IFD = 0x8825;
+
+const readTiff = (bytes: Uint8Array, start: number): ExifInfo => {
+    const info: ExifInfo = { orientation: 1, hasGps: false };
+    if (start + 8 > bytes.length) return info;
+    const view = new DataView(bytes.buffer, bytes.byteOffset + start, bytes.length - start);
+    const little = view.getUint16(0) === 0x4949;
+    if (view.getUint16(2, little) !== 42) return info;
+    const ifd = view.getUint32(4, little);
+    if (ifd + 2 > view.byteLength) return info;
+    const count = view.getUint16(ifd, little);
+    for (let i = 0; i < count; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > view.byteLength) break;
+        const tag = view.getUint16(entry, little);
+        if (tag === TAG_ORIENTATION) {
+            info.orientation = view.getUint16(entry + 8, little);
+        } else if (tag === TAG_GPS_IFD) {
+            info.hasGps = view.getUint32(entry + 8, little) !== 0;
+        }
+    }
+    return info;
+};
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0, 0]; // "Exif\0\0"
+
+const hasPrefix = (bytes: Uint8Array, offset: number, prefix: number[]): boolean => {
+    return prefix.every((byte, i) => bytes[offset + i] === byte);
+};
+
+const ascii = (bytes: Uint8Array, offset: number, length: number): string => {
+    return String.fromCharCode(...bytes.subarray(offset, offset + length));
+};
+
+/** Offset of the TIFF header inside a JPEG, PNG or WebP file, or -1 when there is no EXIF block. */
+const findTiffOffset = (bytes: Uint8Array): number => {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+        let offset = 2;
+        while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+            const marker = bytes[offset + 1];
+            if (marker === 0xda || marker === 0xd9) break;
+            const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+            if (marker === 0xe1 && hasPrefix(bytes, offset + 4, EXIF_HEADER)) {
+                return offset + 4 + EXIF_HEADER.length;
+            }
+            offset += 2 + length;
+        }
+        return -1;
+    }
+    if (hasPrefix(bytes, 0, [0x89, 0x50, 0x4e, 0x47])) {
+        const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+        let offset = 8;
+        while (offset + 8 <= bytes.length) {
+            const length = view.getUint32(offset);
+            const type = ascii(bytes, offset + 4, 4);
+            if (type === 'eXIf') return offset + 8;
+            if (type === 'IDAT' || type === 'IEND') break;
+            offset += 12 + length;
+        }
+        return -1;
+    }
+    if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') {
+        const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+        let offset = 12;
+        while (offset + 8 <= bytes.length) {
+            const size = view.getUint32(offset + 4, true);
+            if (ascii(bytes, offset, 4) === 'EXIF') {
+                // Some encoders keep the JPEG-style "Exif\0\0" prefix inside the chunk.
+                return hasPrefix(bytes, offset + 8, EXIF_HEADER) ? offset + 8 + EXIF_HEADER.length : offset + 8;
+            }
+            offset += 8 + size + (size % 2);
+        }
+    }
+    return -1;
+};
+
+const readExifInfo = (bytes: Uint8Array): ExifInfo => {
+    const offset = findTiffOffset(bytes);
+    return offset < 0 ? { orientation: 1, hasGps: false } : readTiff(bytes, offset);
+};
+
+// --- Decoding ---
+
+const isHeic = (file: File, bytes: Uint8Array): boolean => {
+    if (/^image\/hei[cf]/.test(file.type) || /\.hei[cf]$/i.test(file.name)) return true;
+    return ascii(bytes, 4, 4) === 'ftyp' && ['heic', 'heix', 'hevc', 'heim', 'heis', 'mif1', 'msf1'].includes(ascii(bytes, 8, 4));
+};
+
+/** Falls back to an <img> element, which decodes HEIC in Safari where createImageBitmap may not. */
+const decodeWithImageElement = (file: Blob): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(file);
+        const img = new Image();
+        img.onload = () => {
+            URL.revokeObjectURL(url);
+            resolve(img);
+        };
+        img.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error('UNSUPPORTED_IMAGE'));
+        };
+        img.src = url;
+    });
+};
+
+/**
+ * Converts HEIC to JPEG with heic2any (libheif compiled to WebAssembly). It is
+ * large, so it's only loaded when the browser can't decode HEIC itself, which
+ * is everywhere except Safari.
+ */
+const convertHeic = async (file: Blob): Promise<Blob> => {
+    try {
+        const { default: heic2any } = await import('heic2any');
+        const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.95 });
+        return Array.isArray(converted) ? converted[0] : converted;
+    } catch (error) {
+        console.error('HEIC conversion failed:', error);
+        throw new Error('UNSUPPORTED_IMAGE');
+    }
+};
+
+type DecodedImage = { source: CanvasImageSource; width: number; height: number; release: () => void };
+
+/** Decodes with EXIF orientation applied, as browsers do by default for both paths. */
+const decodeNatively = async (file: Blob): Promise<DecodedImage> => {
+    try {
+        const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+        return { source: bitmap, width: bitmap.width, height: bitmap.height, release: () => bitmap.close() };
+    } catch {
+        const img = await decodeWithImageElement(file);
+        return { source: img, width: img.naturalWidth, height: img.naturalHeight, release: () => {} };
+    }
+};
+
+const decodeImage = async (file: File, heic: boolean): Promise<DecodedImage> => {
+    try {
+        return await decodeNatively(file);
+    } catch (error) {
+        if (!heic) throw error;
+        // libheif applies the HEIC rotation itself, so the JPEG comes out upright.
+        return decodeNatively(await convertHeic(file));
+    }
+};
+
+const renameWithExtension = (name: string, type: string): string => {
+    const base = name.replace(/\.[^.]+$/, '') || 'image';
+    return `${base}.${type === 'image/png' ? 'png' : 'jpg'}`;
+};
+
+const encodeCanvas = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> => {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('UNSUPPORTED_IMAGE')), type, quality);
+    });
+};
+
+// --- Public API ---
+
+/**
+ * Prepares an uploaded photo for the model. The file is re-encoded only when it
+ * needs rotating, downscaling, converting or has a GPS position; re-encoding
+ * through a canvas drops all EXIF data. PNGs stay PNG to keep transparency,
+ * everything else becomes JPEG. HEIC is decoded natively where possible and
+ * converted with heic2any elsewhere. Throws UNSUPPORTED_IMAGE when the file
+ * can't be decoded at all.
+ */
+export const preprocessImage = async (file: File, options: PreprocessOptions): Promise<PreprocessedImage> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const heic = isHeic(file, bytes);
+    const exif = heic ? { orientation: 1, hasGps: false } : readExifInfo(bytes);
+    const decoded = await decodeImage(file, heic);
+
+    const scale = options.maxEdge ? Math.min(1, options.maxEdge / Math.max(decoded.width, decoded.height)) : 1;
+    const width = Math.round(decoded.width * scale);
+    const height = Math.round(decoded.height * scale);
+    const rotated = exif.orientation > 1 && exif.orientation <= 8;
+    // HEIC keeps its metadata in boxes we don't parse, so always treat it as possibly located.
+    const gpsRemoved = exif.hasGps || heic;
+    const converted = heic || !SUPPORTED_TYPES.has(file.type);
+    const resized = scale < 1;
+
+    const result = { originalSize: file.size, originalType: file.type, width, height, rotated, resized, converted, gpsRemoved };
+    if (!rotated && !resized && !converted && !gpsRemoved) {
+        decoded.release();
+        return { ...result, file };
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        decoded.release();
+        throw new Error('UNSUPPORTED_IMAGE');
+    }
+    const type = file.type === 'image/png' ? 'image/png' : 'image/jpeg';
+    if (type === 'image/jpeg') {
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, width, height);
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(decoded.source, 0, 0, width, height);
+    decoded.release();
+
+    const blob = await encodeCanvas(canvas, type, options.quality);
+    const output = new File([blob], renameWithExtension(file.name, type), { type, lastModified: file.lastModified });
+    return { ...result, file: output };
+};
+
+const cache = new WeakMap<File, Map<string, Promise<PreprocessedImage>>>();
+
+/** Cached per file and options, so showing the payload size and sending share one pass. */
+export const getPreprocessedImage = (file: File, options: PreprocessOptions): Promise<PreprocessedImage> => {
+    const key = `${options.maxEdge}:${options.quality}`;
+    let entries = cache.get(file);
+    if (!entries) {
+        entries = new Map();
+        cache.set(file, entries);
+    }
+    let pending = entries.get(key);
+    if (!pending) {
+        pending = preprocessImage(file, options);
+        entries.set(key, pending);
+        pending.catch(() => entries!.delete(key));
+    }
+    return pending;
+};
+
+export const preprocessImages = (files: File[], options: PreprocessOptions): Promise<PreprocessedImage[]> => {
+    return Promise.all(files.map(file => getPreprocessedImage(file, options)));
+};
+
+/** Bytes on the wire once the images are base64-encoded into the request body. */
+export const getPayloadSize = (images: { file: File }[]): number => {
+    return images.reduce((total, image) => total + Math.ceil(image.file.size / 3) * 4, 0);
+};
+
+export const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
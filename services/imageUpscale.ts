@@ -0,0 +1,236 @@
+import { loadImage } from './maskEdit';
+
+// --- Exact-resolution upscaling for "Nâng cấp HD/2K/4K" ---
+
+export type EnhanceQuality = 'HD' | '2K' | '4K';
+
+/** Longest edge, in pixels, of each enhancement target. */
+export const UPSCALE_TARGETS: Record<EnhanceQuality, number> = {
+    HD: 1920,
+    '2K': 2560,
+    '4K': 3840,
+};
+
+/**
+ * 'ai' restores details with the image model and then resizes its answer to
+ * the exact target; 'local' only resizes, without calling the API.
+ */
+export type EnhanceMethod = 'ai' | 'local';
+
+const STORAGE_KEY = 'enhanceMethod';
+
+export const loadEnhanceMethod = (): EnhanceMethod => {
+    try {
+        return localStorage.getItem(STORAGE_KEY) === 'local' ? 'local' : 'ai';
+    } catch {
+        return 'ai';
+    }
+};
+
+export const saveEnhanceMethod = (method: EnhanceMethod): void => {
+    localStorage.setItem(STORAGE_KEY, method);
+};
+
+export interface ImageSize {
+    width: number;
+    height: number;
+}
+
+export const getImageSize = async (url: string): Promise<ImageSize> => {
+    const img = await loadImage(url);
+    return { width: img.naturalWidth, height: img.naturalHeight };
+};
+
+export const formatResolution = ({ width, height }: ImageSize): string => `${width} × ${height}`;
+
+/** Whether `quality` would enlarge an image of `size`; targets at or below its size are not offered. */
+export const isUpscaleTarget = (size: ImageSize, quality: EnhanceQuality): boolean => {
+    return UPSCALE_TARGETS[quality] > Math.max(size.width, size.height);
+};
+
+/**
+ * Scales `size` so its longest edge is exactly the target's, keeping the aspect
+ * ratio. Images already at least that large are returned as they are, never shrunk.
+ */
+export const getTargetSize = (size: ImageSize, quality: EnhanceQuality): ImageSize => {
+    if (!isUpscaleTarget(size, quality)) return size;
+    const longEdge = UPSCALE_TARGETS[quality];
+    const scale = longEdge / Math.max(size.width, size.height);
+    return size.width >= size.height
+        ? { width: longEdge, height: Math.max(1, Math.round(size.height * scale)) }
+        : { width: Math.max(1, Math.round(size.width * scale)), height: longEdge };
+};
+
+/** What an enhancement actually produced, shown next to the result. */
+export interface EnhancementReport {
+    quality: EnhanceQuality;
+    method: EnhanceMethod;
+    input: ImageSize;
+    /** Size the model returned; null for local-only upscales. */
+    model: ImageSize | null;
+    output: ImageSize;
+}
+
+export const isSameSize = (a: ImageSize, b: ImageSize): boolean => a.width === b.width && a.height === b.height;
+
+// --- Lanczos resampling ---
+
+const LOBES = 3;
+
+const lanczos = (x: number): number => {
+    if (x === 0) return 1;
+    if (x <= -LOBES || x >= LOBES) return 0;
+    const px = Math.PI * x;
+    return (LOBES * Math.sin(px) * Math.sin(px / LOBES)) / (px * px);
+};
+
+interface Contributions {
+    /** Source indices, `taps` per destination pixel; edges are clamped. */
+    indices: Int32Array;
+    /** Normalised weights matching `indices`. */
+    weights: Float32Array;
+    taps: number;
+}
+
+/** Precomputes the 1-D filter for resizing `srcSize` pixels to `dstSize`. */
+const computeContributions = (srcSize: number, dstSize: number): Contributions => {
+    const scale = dstSize / srcSize;
+    // When shrinking, the kernel is stretched so every source pixel still contributes.
+    const filterScale = Math.max(1, 1 / scale);
+    const support = LOBES * filterScale;
+    const taps = Math.ceil(support) * 2 + 1;
+    const indices = new Int32Array(dstSize * taps);
+    const weights = new Float32Array(dstSize * taps);
+
+    for (let i = 0; i < dstSize; i++) {
+        const center = (i + 0.5) / scale - 0.5;
+        const first = Math.floor(center - support) + 1;
+        let total = 0;
+        for (let t = 0; t < taps; t++) {
+            const j = first + t;
+            const weight = lanczos((j - center) / filterScale);
+            indices[i * taps + t] = Math.min(srcSize - 1, Math.max(0, j));
+            weights[i * taps + t] = weight;
+            total += weight;
+        }
+        if (total !== 0) {
+            for (let t = 0; t < taps; t++) weights[i * taps + t] /= total;
+        }
+    }
+    return { indices, weights, taps };
+};
+
+/** Lets the page repaint and handle input, then stops with CANCELLED if the signal was aborted meanwhile. */
+const yieldToBrowser = (signal?: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        setTimeout(() => (signal?.aborted ? reject(new Error('CANCELLED')) : resolve()), 0);
+    });
+};
+
+/** Longest stretch of work, in milliseconds, before the resize hands the main thread back. */
+const SLICE_MS = 12;
+
+/** Returns a function to call between rows; it yields once the current slice has used up its time. */
+const createSlicer = (signal?: AbortSignal) => {
+    let sliceStart = performance.now();
+    return async () => {
+        if (performance.now() - sliceStart < SLICE_MS) return;
+        await yieldToBrowser(signal);
+        sliceStart = performance.now();
+    };
+};
+
+/**
+ * Separable Lanczos-3 resize of RGBA pixels. Colour is weighted by alpha so
+ * transparent edges don't bleed dark fringes into the result. Both passes run
+ * in short slices, so the page stays responsive and cancelling stops mid-pass.
+ */
+const lanczosResize = async (source: ImageData, width: number, height: number, signal?: AbortSignal): Promise<ImageData> => {
+    const src = source.data;
+    const srcWidth = source.width;
+    const srcHeight = source.height;
+    const nextSlice = createSlicer(signal);
+
+    const horizontal = computeContributions(srcWidth, width);
+    const rows = new Float32Array(width * srcHeight * 4);
+    for (let y = 0; y < srcHeight; y++) {
+        await nextSlice();
+        const rowOffset = y * srcWidth;
+        for (let x = 0; x < width; x++) {
+            let r = 0, g = 0, b = 0, a = 0;
+            for (let t = 0; t < horizontal.taps; t++) {
+                const k = x * horizontal.taps + t;
+                const weight = horizontal.weights[k];
+                if (weight === 0) continue;
+                const p = (rowOffset + horizontal.indices[k]) * 4;
+                const alpha = src[p + 3] * weight;
+                r += src[p] * alpha;
+                g += src[p + 1] * alpha;
+                b += src[p + 2] * alpha;
+                a += alpha;
+            }
+            const q = (y * width + x) * 4;
+            rows[q] = r;
+            rows[q + 1] = g;
+            rows[q + 2] = b;
+            rows[q + 3] = a;
+        }
+    }
+
+    await yieldToBrowser(signal);
+
+    const vertical = computeContributions(srcHeight, height);
+    const output = new ImageData(width, height);
+    const dst = output.data;
+    for (let y = 0; y < height; y++) {
+        await nextSlice();
+        for (let x = 0; x < width; x++) {
+            let r = 0, g = 0, b = 0, a = 0;
+            for (let t = 0; t < vertical.taps; t++) {
+                const k = y * vertical.taps + t;
+                const weight = vertical.weights[k];
+                if (weight === 0) continue;
+                const p = (vertical.indices[k] * width + x) * 4;
+                r += rows[p] * weight;
+                g += rows[p + 1] * weight;
+                b += rows[p + 2] * weight;
+                a += rows[p + 3] * weight;
+            }
+            const q = (y * width + x) * 4;
+            // Uint8ClampedArray rounds and clamps the lobes' over/undershoot for us.
+            dst[q + 3] = a;
+            if (a > 0) {
+                dst[q] = r / a;
+                dst[q + 1] = g / a;
+                dst[q + 2] = b / a;
+            }
+        }
+    }
+    return output;
+};
+
+/**
+ * Resizes an image to exactly `target` pixels with Lanczos resampling.
+ * The result is deterministic for a given input, unlike the model's output size.
+ * PNGs stay PNG; everything else is encoded as high-quality JPEG.
+ */
+export const resizeImage = async (imageUrl: string, target: ImageSize, { signal }: { signal?: AbortSignal } = {}): Promise<string> => {
+    const img = await loadImage(imageUrl);
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Không thể phóng to ảnh.');
+    ctx.drawImage(img, 0, 0);
+    const source = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+    await yieldToBrowser(signal);
+    const resized = await lanczosResize(source, target.width, target.height, signal);
+    await yieldToBrowser(signal);
+
+    canvas.width = target.width;
+    canvas.height = target.height;
+    ctx.putImageData(resized, 0, 0);
+    const type = imageUrl.startsWith('data:image/png') ? 'image/png' : 'image/jpeg';
+    return canvas.toDataURL(type, 0.95);
+};
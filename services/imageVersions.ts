@@ -0,0 +1,55 @@
+// --- Version tree for iterative edits of one result ---
+
+export interface ImageVersion {
+    /** 1-based, in creation order; shown to users as "v1", "v2"... */
+    id: number;
+    parentId: number | null;
+    imageUrl: string;
+    /** Short description of the step that produced this version, e.g. "Tạo ảnh" or "Nâng cấp HD". */
+    operation: string;
+    /** Free-text instruction for refinements and region edits. */
+    instruction?: string;
+    createdAt: number;
+}
+
+export const createVersionTree = (imageUrl: string, operation: string): ImageVersion[] => [
+    { id: 1, parentId: null, imageUrl, operation, createdAt: Date.now() },
+];
+
+/** Appends a child of `parentId`; a parent that already has children starts a new branch. */
+export const addVersion = (
+    versions: ImageVersion[],
+    parentId: number | null,
+    imageUrl: string,
+    operation: string,
+    instruction?: string,
+): { versions: ImageVersion[]; id: number } => {
+    const id = versions.reduce((max, version) => Math.max(max, version.id), 0) + 1;
+    return {
+        versions: [...versions, { id, parentId, imageUrl, operation, instruction, createdAt: Date.now() }],
+        id,
+    };
+};
+
+export const findVersion = (versions: ImageVersion[], id: number | null): ImageVersion | undefined => {
+    return id === null ? undefined : versions.find(version => version.id === id);
+};
+
+export const findVersionByUrl = (versions: ImageVersion[], imageUrl: string): ImageVersion | undefined => {
+    return versions.find(version => version.imageUrl === imageUrl);
+};
+
+/** Versions from the root down to `id`, i.e. the edits that led to it. */
+export const getVersionPath = (versions: ImageVersion[], id: number | null): ImageVersion[] => {
+    const path: ImageVersion[] = [];
+    let current = findVersion(versions, id);
+    while (current) {
+        path.unshift(current);
+        current = findVersion(versions, current.parentId);
+    }
+    return path;
+};
+
+export const hasChildren = (versions: ImageVersion[], id: number): boolean => {
+    return versions.some(version => version.parentId === id);
+};
@@ -0,0 +1,163 @@
+// --- Bounded-concurrency job queue with token-bucket rate limiting ---
+//
+// Shared by batch and stress test modes. Jobs are started as soon as a worker
+// slot and a rate-limit token are both available, so a run only waits as long
+// as the key's requests-per-minute budget actually requires.
+
+export type JobStatus = 'queued' | 'running' | 'success' | 'error' | 'cancelled';
+
+export interface JobEvent<T> {
+    jobId: number;
+    status: JobStatus;
+    result?: T;
+    error?: unknown;
+}
+
+export interface JobQueueOptions<T> {
+    /** Maximum number of jobs running at the same time. */
+    concurrency: number;
+    /** Requests per minute allowed by the API key; refills the token bucket. */
+    requestsPerMinute: number;
+    /** Called whenever a job changes status. */
+    onEvent?: (event: JobEvent<T>) => void;
+}
+
+/**
+ * A job receives the queue's abort signal so it can stop when the queue is
+ * cancelled. The queue takes a token before starting the job; a job that sends
+ * more requests (e.g. retries) awaits `acquireToken` before each extra one.
+ */
+export type JobTask<T> = (signal: AbortSignal, acquireToken: () => Promise<void>) => Promise<T>;
+
+export interface JobQueue<T> {
+    add: (jobId: number, task: JobTask<T>) => void;
+    pause: () => void;
+    resume: () => void;
+    cancel: () => void;
+    /** Resolves once every added job has finished, failed or been cancelled. */
+    onIdle: () => Promise<void>;
+    isPaused: () => boolean;
+}
+
+export const DEFAULT_CONCURRENCY = 2;
+export const DEFAULT_REQUESTS_PER_MINUTE = 60;
+
+export const createJobQueue = <T>({ concurrency, requestsPerMinute, onEvent }: JobQueueOptions<T>): JobQueue<T> => {
+    const maxConcurrent = Math.max(1, Math.floor(concurrency));
+    const refillPerMs = Math.max(1, requestsPerMinute) / 60000;
+    // Allow a burst as large as the worker pool, never more than a minute's budget.
+    const bucketCapacity = Math.max(1, Math.min(maxConcurrent, requestsPerMinute));
+
+    const pending: { jobId: number; task: JobTask<T> }[] = [];
+    const controller = new AbortController();
+    let tokens = bucketCapacity;
+    let lastRefill = Date.now();
+    let running = 0;
+    let paused = false;
+    let cancelled = false;
+    let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+    let idleWaiters: (() => void)[] = [];
+    // Running jobs waiting for a token; served before new jobs start, and even while paused.
+    const tokenWaiters: { resolve: () => void; reject: (error: Error) => void }[] = [];
+
+    const emit = (event: JobEvent<T>) => onEvent?.(event);
+
+    const refill = () => {
+        const now = Date.now();
+        tokens = Math.min(bucketCapacity, tokens + (now - lastRefill) * refillPerMs);
+        lastRefill = now;
+    };
+
+    const settleIdle = () => {
+        if (running === 0 && (pending.length === 0 || cancelled)) {
+            const waiters = idleWaiters;
+            idleWaiters = [];
+            waiters.forEach(resolve => resolve());
+        }
+    };
+
+    const scheduleWake = (delayMs: number) => {
+        if (wakeTimer !== null) return;
+        wakeTimer = setTimeout(() => {
+            wakeTimer = null;
+            pump();
+        }, Math.ceil(delayMs));
+    };
+
+    const runJob = async (jobId: number, task: JobTask<T>) => {
+        running++;
+        emit({ jobId, status: 'running' });
+        try {
+            const result = await task(controller.signal, acquireToken);
+            emit({ jobId, status: 'success', result });
+        } catch (error) {
+            emit({ jobId, status: cancelled ? 'cancelled' : 'error', error });
+        } finally {
+            running--;
+            pump();
+        }
+    };
+
+    const acquireToken = (): Promise<void> => {
+        if (cancelled) return Promise.reject(new Error('CANCELLED'));
+        return new Promise<void>((resolve, reject) => {
+            tokenWaiters.push({ resolve, reject });
+            pump();
+        });
+    };
+
+    const pump = () => {
+        while (!cancelled && (tokenWaiters.length > 0 || (!paused && running < maxConcurrent && pending.length > 0))) {
+            refill();
+            if (tokens < 1) {
+                scheduleWake((1 - tokens) / refillPerMs);
+                return;
+            }
+            tokens -= 1;
+            if (tokenWaiters.length > 0) {
+                tokenWaiters.shift()!.resolve();
+                continue;
+            }
+            const next = pending.shift()!;
+            void runJob(next.jobId, next.task);
+        }
+        settleIdle();
+    };
+
+    return {
+        add: (jobId, task) => {
+            if (cancelled) {
+                emit({ jobId, status: 'cancelled' });
+                return;
+            }
+            pending.push({ jobId, task });
+            emit({ jobId, status: 'queued' });
+            pump();
+        },
+        pause: () => {
+            paused = true;
+        },
+        resume: () => {
+            if (!paused) return;
+            paused = false;
+            pump();
+        },
+        cancel: () => {
+            if (cancelled) return;
+            cancelled = true;
+            if (wakeTimer !== null) {
+                clearTimeout(wakeTimer);
+                wakeTimer = null;
+            }
+            pending.splice(0).forEach(({ jobId }) => emit({ jobId, status: 'cancelled' }));
+            tokenWaiters.splice(0).forEach(({ reject }) => reject(new Error('CANCELLED')));
+            controller.abort();
+            settleIdle();
+        },
+        onIdle: () => new Promise<void>(resolve => {
+            idleWaiters.push(resolve);
+            settleIdle();
+        }),
+        isPaused: () => paused,
+    };
+};
@@ -0,0 +1,135 @@
+// --- Named API key profiles ---
+//
+// Names and keys are secret and go through the vault (services/keyVault.ts).
+// Validation status and usage counters are not, so they're kept in plain
+// localStorage and can be updated on every request without the passphrase.
+
+export type KeyStatus = 'unknown' | 'valid' | 'invalid' | 'exhausted';
+
+export interface KeyProfile {
+    id: string;
+    name: string;
+    apiKey: string;
+    status: KeyStatus;
+    /** Google's message from the last failed check, if any. */
+    statusMessage?: string;
+    checkedAt: number | null;
+    /** Requests sent with this key from this browser. */
+    usageCount: number;
+    /** Set when the key ran out of quota; it is skipped by rotation until then. */
+    exhaustedUntil: number | null;
+}
+
+type ProfileStats = Pick<KeyProfile, 'status' | 'statusMessage' | 'checkedAt' | 'usageCount' | 'exhaustedUntil'>;
+
+const STATS_STORAGE_KEY = 'keyProfileStats';
+const ACTIVE_STORAGE_KEY = 'activeKeyProfile';
+
+/** How long a key that hit RESOURCE_EXHAUSTED is left alone before rotation tries it again. */
+export const EXHAUSTED_COOLDOWN_MS = 15 * 60 * 1000;
+
+export const KEY_STATUS_LABELS: Record<KeyStatus, string> = {
+    unknown: 'Chưa kiểm tra',
+    valid: 'Hợp lệ',
+    invalid: 'Không hợp lệ',
+    exhausted: 'Hết hạn ngạch',
+};
+
+const createId = (): string => `key-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createProfile = (name: string, apiKey: string, stats: Partial<ProfileStats> = {}): KeyProfile => ({
+    id: createId(),
+    name,
+    apiKey,
+    status: 'unknown',
+    checkedAt: null,
+    usageCount: 0,
+    exhaustedUntil: null,
+    ...stats,
+});
+
+/** "AIza…x7Qc": enough to tell keys apart without showing them. */
+export const maskApiKey = (apiKey: string): string => {
+    return apiKey.length <= 8 ? '••••' : `${apiKey.slice(0, 4)}…${apiKey.slice(-4)}`;
+};
+
+// --- Vault payload ---
+
+export const serializeProfiles = (profiles: KeyProfile[]): string => {
+    return JSON.stringify(profiles.map(({ id, name, apiKey }) => ({ id, name, apiKey })));
+};
+
+/**
+ * Restores profiles from the decrypted vault, merged with their stored stats.
+ * Vaults saved before profiles existed hold a single bare key.
+ */
+export const parseProfiles = (plaintext: string): KeyProfile[] => {
+    const stats = loadProfileStats();
+    let entries: { id: string; name: string; apiKey: string }[];
+    try {
+        const parsed = JSON.parse(plaintext);
+        entries = Array.isArray(parsed) ? parsed.filter(entry => entry && typeof entry.apiKey === 'string') : [];
+    } catch {
+        return plaintext.trim() ? [createProfile('Key chính', plaintext.trim())] : [];
+    }
+    return entries.map(({ id, name, apiKey }) => ({
+        ...createProfile(String(name || 'Key'), apiKey),
+        id: String(id),
+        ...stats[id],
+    }));
+};
+
+// --- Stats and active profile ---
+
+const loadProfileStats = (): Record<string, ProfileStats> => {
+    try {
+        return JSON.parse(localStorage.getItem(STATS_STORAGE_KEY) ?? '{}') ?? {};
+    } catch {
+        return {};
+    }
+};
+
+export const saveProfileStats = (profiles: KeyProfile[]): void => {
+    const stats: Record<string, ProfileStats> = {};
+    profiles.forEach(({ id, status, statusMessage, checkedAt, usageCount, exhaustedUntil }) => {
+        stats[id] = { status, statusMessage, checkedAt, usageCount, exhaustedUntil };
+    });
+    localStorage.setItem(STATS_STORAGE_KEY, JSON.stringify(stats));
+};
+
+export const clearProfileStats = (): void => {
+    localStorage.removeItem(STATS_STORAGE_KEY);
+    localStorage.removeItem(ACTIVE_STORAGE_KEY);
+};
+
+export const loadActiveProfileId = (): string | null => {
+    try {
+        return localStorage.getItem(ACTIVE_STORAGE_KEY);
+    } catch {
+        return null;
+    }
+};
+
+export const saveActiveProfileId = (id: string | null): void => {
+    if (id) localStorage.setItem(ACTIVE_STORAGE_KEY, id);
+    else localStorage.removeItem(ACTIVE_STORAGE_KEY);
+};
+
+// --- Rotation ---
+
+export const isProfileHealthy = (profile: KeyProfile, now = Date.now()): boolean => {
+    if (profile.status === 'invalid') return false;
+    return profile.exhaustedUntil === null || profile.exhaustedUntil <= now;
+};
+
+/** The next healthy profile after `currentId` in list order, wrapping around; never `currentId` itself. */
+export const findNextHealthyProfile = (profiles: KeyProfile[], currentId: string | null, skipIds: Set<string> = new Set()): KeyProfile | null => {
+    const start = profiles.findIndex(profile => profile.id === currentId);
+    for (let offset = 1; offset <= profiles.length; offset++) {
+        const candidate = profiles[(start + offset) % profiles.length];
+        if (candidate.id !== currentId && !skipIds.has(candidate.id) && isProfileHealthy(candidate)) {
+            return candidate;
+        }
+    }
+    return null;
+};
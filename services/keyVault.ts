@@ -0,0 +1,140 @@
+// --- Encrypted API key storage ---
+//
+// The key is encrypted with AES-GCM under a key derived from the user's
+// passphrase with PBKDF2, so localStorage only ever holds ciphertext. The
+// passphrase itself is never stored; the decrypted key lives in memory only.
+
+const STORAGE_KEY = 'encryptedApiKey';
+/** Where older versions kept the key in plain text. */
+const LEGACY_STORAGE_KEY = 'userApiKey';
+const LOCK_MINUTES_KEY = 'apiKeyLockMinutes';
+
+const PBKDF2_ITERATIONS = 310_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export const MIN_PASSPHRASE_LENGTH = 6;
+
+export interface EncryptedSecret {
+    version: 1;
+    iterations: number;
+    salt: string;
+    iv: string;
+    ciphertext: string;
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+    return btoa(binary);
+};
+
+const fromBase64 = (base64: string): Uint8Array => {
+    return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt'],
+    );
+};
+
+/**
+ * A derived, non-extractable AES key kept in memory while the vault is
+ * unlocked, so the key list can be re-saved without asking for the passphrase.
+ */
+export interface VaultKey {
+    key: CryptoKey;
+    salt: string;
+    iterations: number;
+}
+
+export const createVaultKey = async (passphrase: string): Promise<VaultKey> => {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    return { key: await deriveKey(passphrase, salt, PBKDF2_ITERATIONS), salt: toBase64(salt), iterations: PBKDF2_ITERATIONS };
+};
+
+export const sealSecret = async (plaintext: string, vaultKey: VaultKey): Promise<EncryptedSecret> => {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, vaultKey.key, new TextEncoder().encode(plaintext));
+    return {
+        version: 1,
+        iterations: vaultKey.iterations,
+        salt: vaultKey.salt,
+        iv: toBase64(iv),
+        ciphertext: toBase64(new Uint8Array(ciphertext)),
+    };
+};
+
+/** Throws WRONG_PASSPHRASE when GCM authentication fails. */
+export const openSecret = async (secret: EncryptedSecret, passphrase: string): Promise<{ plaintext: string; vaultKey: VaultKey }> => {
+    const vaultKey = { key: await deriveKey(passphrase, fromBase64(secret.salt), secret.iterations), salt: secret.salt, iterations: secret.iterations };
+    try {
+        const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(secret.iv) }, vaultKey.key, fromBase64(secret.ciphertext));
+        return { plaintext: new TextDecoder().decode(plaintext), vaultKey };
+    } catch {
+        throw new Error('WRONG_PASSPHRASE');
+    }
+};
+
+// --- Persistence ---
+
+export const loadEncryptedKey = (): EncryptedSecret | null => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return null;
+        const parsed = JSON.parse(raw) as Partial<EncryptedSecret>;
+        if (parsed.version !== 1 || !parsed.salt || !parsed.iv || !parsed.ciphertext || typeof parsed.iterations !== 'number') {
+            return null;
+        }
+        return parsed as EncryptedSecret;
+    } catch {
+        return null;
+    }
+};
+
+export const saveEncryptedKey = (secret: EncryptedSecret): void => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(secret));
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+};
+
+export const clearStoredKey = (): void => {
+    localStorage.removeItem(STORAGE_KEY);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+};
+
+/**
+ * Reads a plain-text key left by older versions. It stays in storage until
+ * `saveEncryptedKey` or `clearStoredKey` replaces it, so closing the tab before
+ * choosing a passphrase doesn't lose the key.
+ */
+export const loadLegacyKey = (): string | null => {
+    try {
+        return localStorage.getItem(LEGACY_STORAGE_KEY)?.trim() || null;
+    } catch {
+        return null;
+    }
+};
+
+// --- Inactivity lock ---
+
+export const LOCK_MINUTE_OPTIONS = [5, 15, 30, 60];
+const DEFAULT_LOCK_MINUTES = 15;
+
+export const loadLockMinutes = (): number => {
+    try {
+        const minutes = Number(localStorage.getItem(LOCK_MINUTES_KEY));
+        return LOCK_MINUTE_OPTIONS.includes(minutes) ? minutes : DEFAULT_LOCK_MINUTES;
+    } catch {
+        return DEFAULT_LOCK_MINUTES;
+    }
+};
+
+export const saveLockMinutes = (minutes: number): void => {
+    localStorage.setItem(LOCK_MINUTES_KEY, String(minutes));
+};
@@ -0,0 +1,83 @@
+// --- Masks for region edits ---
+
+/** Working masks are painted at this longest edge at most; they're scaled up on export. */
+export const MAX_MASK_EDGE = 1024;
+
+const createCanvas = (width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Không thể xử lý mặt nạ.');
+    return { canvas, ctx };
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Không thể tải ảnh.'));
+        img.src = src;
+    });
+};
+
+/** Size of the working mask for an image, keeping its aspect ratio. */
+export const getMaskSize = (width: number, height: number): { width: number; height: number } => {
+    const scale = Math.min(1, MAX_MASK_EDGE / Math.max(width, height));
+    return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+/** True when any pixel of the mask has been painted. */
+export const isMaskEmpty = (mask: HTMLCanvasElement): boolean => {
+    const ctx = mask.getContext('2d');
+    if (!ctx) return true;
+    const { data } = ctx.getImageData(0, 0, mask.width, mask.height);
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] > 0) return false;
+    }
+    return true;
+};
+
+/**
+ * Turns a painted mask (any colour, painted where alpha > 0) into the
+ * black-and-white PNG the model expects: white is editable, black is kept.
+ */
+export const createMaskPng = (mask: HTMLCanvasElement, width: number, height: number): string => {
+    const white = createCanvas(width, height);
+    white.ctx.drawImage(mask, 0, 0, width, height);
+    white.ctx.globalCompositeOperation = 'source-in';
+    white.ctx.fillStyle = '#ffffff';
+    white.ctx.fillRect(0, 0, width, height);
+
+    const output = createCanvas(width, height);
+    output.ctx.fillStyle = '#000000';
+    output.ctx.fillRect(0, 0, width, height);
+    output.ctx.drawImage(white.canvas, 0, 0);
+    return output.canvas.toDataURL('image/png');
+};
+
+/**
+ * Keeps the model's changes inside the mask only. The model may redraw the
+ * whole frame slightly differently, so its output is blended over the original
+ * through a feathered copy of the mask and everything outside stays untouched.
+ */
+export const compositeMaskedEdit = async (originalUrl: string, editedUrl: string, mask: HTMLCanvasElement): Promise<string> => {
+    const [original, edited] = await Promise.all([loadImage(originalUrl), loadImage(editedUrl)]);
+    const width = original.naturalWidth;
+    const height = original.naturalHeight;
+    const feather = Math.max(2, Math.round(Math.max(width, height) / 300));
+
+    const alpha = createCanvas(width, height);
+    alpha.ctx.filter = `blur(${feather}px)`;
+    alpha.ctx.drawImage(mask, 0, 0, width, height);
+
+    const patch = createCanvas(width, height);
+    patch.ctx.drawImage(edited, 0, 0, width, height);
+    patch.ctx.globalCompositeOperation = 'destination-in';
+    patch.ctx.drawImage(alpha.canvas, 0, 0);
+
+    const output = createCanvas(width, height);
+    output.ctx.drawImage(original, 0, 0);
+    output.ctx.drawImage(patch.canvas, 0, 0);
+    return output.canvas.toDataURL('image/png');
+};
@@ -0,0 +1,118 @@
+import { PromptSweep, PromptVariable, PromptVariableValues, Style } from '../types';
+
+// --- Prompt templates with {{name}} placeholders ---
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z][\w-]*)\s*\}\}/g;
+
+/** Names of every placeholder in the template, in order of first appearance. */
+export const extractPlaceholders = (template: string): string[] => {
+    const names = new Set<string>();
+    for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+        names.add(match[1]);
+    }
+    return [...names];
+};
+
+export const getDefaultValues = (variables: PromptVariable[] = []): PromptVariableValues => {
+    return Object.fromEntries(variables.map(variable => [variable.name, variable.default]));
+};
+
+/** Coerces a value to what the variable allows, falling back to its default. */
+export const normalizeValue = (variable: PromptVariable, value: string | undefined): string => {
+    if (value === undefined) return variable.default;
+    switch (variable.type) {
+        case 'select':
+            return variable.options?.some(option => option.value === value) ? value : variable.default;
+        case 'number': {
+            const num = Number(value);
+            if (value.trim() === '' || !Number.isFinite(num)) return variable.default;
+            const min = variable.min ?? -Infinity;
+            const max = variable.max ?? Infinity;
+            return String(Math.max(min, Math.min(max, num)));
+        }
+        default:
+            return value.trim() || variable.default;
+    }
+};
+
+/**
+ * Fills the template's placeholders from `values`. Placeholders without a matching
+ * variable are left untouched so literal braces in custom prompts survive.
+ */
+export const renderPrompt = (template: string, variables: PromptVariable[] = [], values: PromptVariableValues = {}): string => {
+    const byName = new Map(variables.map(variable => [variable.name, variable]));
+    return template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+        const variable = byName.get(name);
+        return variable ? normalizeValue(variable, values[name]) : placeholder;
+    });
+};
+
+export const renderStylePrompt = (style: Style, values: PromptVariableValues = {}): string => {
+    return renderPrompt(style.prompt, style.variables, values);
+};
+
+/** Label for a variable's value, as shown in captions and the form. */
+export const getValueLabel = (variable: PromptVariable, value: string): string => {
+    return variable.options?.find(option => option.value === value)?.label ?? value;
+};
+
+/** Variables that can be swept: those with a fixed list of allowed values. */
+export const getSweepableVariables = (variables: PromptVariable[] = []): PromptVariable[] => {
+    return variables.filter(variable => (variable.options?.length ?? 0) > 1);
+};
+
+export interface SweptPrompt {
+    prompt: string;
+    /** Short description of the swept value, e.g. "Phông nền: Rèm trắng". */
+    caption?: string;
+}
+
+/**
+ * Expands a style into one prompt per sweep value. Without an active sweep the
+ * result is the single prompt rendered from `values`.
+ */
+export const expandSweep = (style: Style, values: PromptVariableValues, sweep: PromptSweep | null): SweptPrompt[] => {
+    const variable = sweep && style.variables?.find(v => v.name === sweep.name);
+    if (!sweep || !variable || sweep.values.length === 0) {
+        return [{ prompt: renderStylePrompt(style, values) }];
+    }
+    return sweep.values.map(value => ({
+        prompt: renderStylePrompt(style, { ...values, [variable.name]: value }),
+        caption: `${variable.label}: ${getValueLabel(variable, value)}`,
+    }));
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Recovers the variable values that render `style` into `prompt`, or null when
+ * the prompt did not come from this style's template.
+ */
+export const matchTemplateValues = (style: Style, prompt: string): PromptVariableValues | null => {
+    const variables = style.variables ?? [];
+    const names: string[] = [];
+    let pattern = '';
+    let last = 0;
+    for (const match of style.prompt.matchAll(PLACEHOLDER_PATTERN)) {
+        const index = match.index ?? 0;
+        pattern += escapeRegExp(style.prompt.slice(last, index));
+        if (variables.some(variable => variable.name === match[1])) {
+            names.push(match[1]);
+            pattern += '([\\s\\S]*?)';
+        } else {
+            pattern += escapeRegExp(match[0]);
+        }
+        last = index + match[0].length;
+    }
+    pattern += escapeRegExp(style.prompt.slice(last));
+
+    const result = new RegExp(`^${pattern}$`).exec(prompt);
+    if (!result) return null;
+    const values: PromptVariableValues = {};
+    for (let i = 0; i < names.length; i++) {
+        const value = result[i + 1];
+        if (values[names[i]] !== undefined && values[names[i]] !== value) return null;
+        values[names[i]] = value;
+    }
+    return { ...getDefaultValues(variables), ...values };
+};
@@ -0,0 +1,25 @@
+import { Type } from "@google/genai";
+
+// --- Prompt variations request ---
+//
+// Built the same way by the browser client and by the proxy, which accepts only
+// the base prompt and count so its key can't be used for other text requests.
+
+export const MAX_PROMPT_VARIATIONS = 60;
+
+const SYSTEM_INSTRUCTION = `You are a creative assistant specializing in generating diverse and interesting variations of image generation prompts. The user will provide a base prompt and a number. Your task is to rewrite the prompt that many times, introducing unique elements like different art styles, lighting, composition, or context. Ensure the core subject of the original prompt is maintained. The output must be a JSON array of strings, with each string being a distinct prompt variation. Do not include the original prompt in the output. The array must contain exactly the number of variations requested.`;
+
+export const buildVariationsRequest = (basePrompt: string, count: number) => ({
+    contents: `Base Prompt: "${basePrompt}"\nNumber of variations: ${count}`,
+    config: {
+        systemInstruction: SYSTEM_INSTRUCTION,
+        responseMimeType: "application/json",
+        responseSchema: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.STRING,
+                description: "A unique variation of the original image generation prompt."
+            }
+        },
+    },
+});
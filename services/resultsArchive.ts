@@ -0,0 +1,192 @@
+import { GenerationMode, GenerationMetadata } from '../types';
+import { slugify } from './styleLibrary';
+import { crc32 } from './crc32';
+import { embedGenerationMetadata } from './imageMetadata';
+
+// --- Minimal ZIP writer ---
+//
+// Generated images are already compressed, so entries are written with the
+// "stored" method. That keeps the writer small and avoids pulling in a zip library.
+
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+export interface ZipEntry {
+    name: string;
+    data: Uint8Array;
+    modified?: Date;
+}
+
+/** Lets the browser repaint between entries so progress updates are visible. */
+const yieldToUi = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+export const createZip = async (entries: ZipEntry[], onProgress?: (done: number, total: number) => void): Promise<Blob> => {
+    const encoder = new TextEncoder();
+    const parts: BlobPart[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    for (let i = 0; i < entries.length; i++) {
+        const entry = entries[i];
+        const name = encoder.encode(entry.name);
+        const crc = crc32(entry.data);
+        const size = entry.data.length;
+        const { time, date } = toDosDateTime(entry.modified ?? new Date());
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034b50, true);
+        local.setUint16(4, 20, true);         // version needed
+        local.setUint16(6, 0x0800, true);     // UTF-8 file names
+        local.setUint16(8, 0, true);          // stored
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, size, true);
+        local.setUint32(22, size, true);
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true);
+        parts.push(local.buffer, name, entry.data);
+
+        const header = new DataView(new ArrayBuffer(46));
+        header.setUint32(0, 0x02014b50, true);
+        header.setUint16(4, 20, true);        // version made by
+        header.setUint16(6, 20, true);
+        header.setUint16(8, 0x0800, true);
+        header.setUint16(10, 0, true);
+        header.setUint16(12, time, true);
+        header.setUint16(14, date, true);
+        header.setUint32(16, crc, true);
+        header.setUint32(20, size, true);
+        header.setUint32(24, size, true);
+        header.setUint16(28, name.length, true);
+        header.setUint32(42, offset, true);
+        central.push(new Uint8Array(header.buffer), name);
+
+        offset += 30 + name.length + size;
+        onProgress?.(i + 1, entries.length);
+        await yieldToUi();
+    }
+
+    const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    // Revoke later; some browsers start the download asynchronously.
+    setTimeout(() => URL.revokeObjectURL(url), 10_000);
+};
+
+// --- Batch / stress test result archives ---
+
+export interface ArchiveItem {
+    index: number;
+    status: string;
+    prompt?: string;
+    caption?: string;
+    error?: string;
+    imageUrl?: string;
+    /** Settings to embed in the image file, when known. */
+    metadata?: GenerationMetadata;
+}
+
+export interface ArchiveOptions {
+    mode: GenerationMode;
+    styleId: string | null;
+    styleName?: string;
+    items: ArchiveItem[];
+    /** Applied to each image before metadata is embedded, e.g. format conversion. */
+    transform?: (image: Blob) => Promise<Blob>;
+}
+
+const EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/avif': 'avif',
+};
+
+export const getImageExtension = (mimeType: string): string => EXTENSIONS[mimeType] ?? 'png';
+
+const formatTimestamp = (date: Date): string => {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+};
+
+/**
+ * Packs every successful image plus a manifest.json describing all items
+ * (including failed and cancelled ones) into a single ZIP and downloads it.
+ * `onProgress` counts images read and packed; the manifest is not included.
+ */
+export const downloadResultsArchive = async (
+    { mode, styleId, styleName, items, transform }: ArchiveOptions,
+    onProgress?: (done: number, total: number) => void
+): Promise<number> => {
+    const createdAt = new Date();
+    const timestamp = formatTimestamp(createdAt);
+    const styleSlug = styleId ? slugify(styleName ?? styleId) : 'lenh-tuy-chinh';
+    const prefix = `${styleSlug}_${mode}`;
+    const indexWidth = Math.max(3, String(items.length).length);
+    const withImages = items.filter(item => item.status === 'success' && item.imageUrl);
+    const total = withImages.length * 2;
+    let done = 0;
+
+    const entries: ZipEntry[] = [];
+    const manifestItems = [];
+    for (const item of items) {
+        let file: string | null = null;
+        if (item.status === 'success' && item.imageUrl) {
+            let blob = await (await fetch(item.imageUrl)).blob();
+            if (transform) {
+                blob = await transform(blob);
+            }
+            if (item.metadata) {
+                blob = await embedGenerationMetadata(blob, item.metadata).catch(() => blob);
+            }
+            const extension = getImageExtension(blob.type);
+            file = `${prefix}_${String(item.index + 1).padStart(indexWidth, '0')}_${timestamp}.${extension}`;
+            entries.push({ name: file, data: new Uint8Array(await blob.arrayBuffer()), modified: createdAt });
+            onProgress?.(++done, total);
+        }
+        manifestItems.push({
+            index: item.index + 1,
+            file,
+            status: item.status,
+            prompt: item.prompt ?? null,
+            caption: item.caption ?? null,
+            error: item.error ?? null,
+        });
+    }
+
+    const manifest = {
+        app: 'tao-anh-trend',
+        mode,
+        style: styleId ? { id: styleId, name: styleName ?? styleId } : null,
+        createdAt: createdAt.toISOString(),
+        total: items.length,
+        succeeded: withImages.length,
+        items: manifestItems,
+    };
+    entries.push({ name: 'manifest.json', data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)), modified: createdAt });
+
+    const zip = await createZip(entries, (packed) => {
+        onProgress?.(withImages.length + Math.min(packed, withImages.length), total);
+    });
+    downloadBlob(zip, `${prefix}_${timestamp}.zip`);
+    return withImages.length;
+};
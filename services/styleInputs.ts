@@ -0,0 +1,108 @@
+import { Style, StyleInputSchema, StyleInputSlot } from '../types';
+
+// --- Per-style upload slot layout ---
+
+/** Used by styles that do not declare inputs: one photo, with more allowed. */
+export const DEFAULT_STYLE_INPUTS: StyleInputSchema = {
+    slots: [{ label: 'Ảnh 1' }],
+    allowExtra: true,
+};
+
+export const getStyleInputs = (style: Style | null | undefined): StyleInputSchema => {
+    if (style?.inputs && style.inputs.slots.length > 0) {
+        return style.inputs;
+    }
+    if (style?.requiredImages && style.requiredImages > 1) {
+        return {
+            slots: Array.from({ length: style.requiredImages }, (_, i) => ({ label: `Ảnh ${i + 1}` })),
+        };
+    }
+    return DEFAULT_STYLE_INPUTS;
+};
+
+export const isSlotRequired = (slot: StyleInputSlot): boolean => slot.required !== false;
+
+/** Label for the upload slot at `index`; slots past the declared ones are generic extras. */
+export const getSlotLabel = (schema: StyleInputSchema, index: number): string => {
+    const slot = schema.slots[index];
+    if (!slot) return `Ảnh ${index + 1}`;
+    return isSlotRequired(slot) ? slot.label : `${slot.label} (tùy chọn)`;
+};
+
+/**
+ * Pads a single set of images so every declared slot has a place. Empty extra
+ * slots are trimmed for styles that take no extras; uploaded files are never dropped.
+ */
+export const fitImagesToSlots = (images: (File | null)[], schema: StyleInputSchema): (File | null)[] => {
+    const minLength = schema.slots.length;
+    const maxLength = schema.allowExtra ? Infinity : minLength;
+    const next = [...images];
+    while (next.length > maxLength && next[next.length - 1] === null) next.pop();
+    while (next.length < minLength) next.push(null);
+    return next;
+};
+
+/** Labels of required slots that are still empty. */
+export const getMissingSlots = (images: (File | null)[], schema: StyleInputSchema): string[] => {
+    return schema.slots
+        .filter((slot, index) => isSlotRequired(slot) && !images[index])
+        .map(slot => slot.label);
+};
+
+// --- Batch grouping ---
+
+export const getGroupSize = (schema: StyleInputSchema): number => Math.max(1, schema.slots.length);
+
+/**
+ * Puts several files into the slots at once. The first replaces the slot at
+ * `startIndex`; the rest fill the following empty slots in order, appending new
+ * slots past the end up to `maxLength`. Files that don't fit are dropped.
+ */
+export const placeFiles = (images: (File | null)[], files: File[], startIndex: number, maxLength = Infinity): (File | null)[] => {
+    const next = [...images];
+    let index = startIndex;
+    files.forEach((file, i) => {
+        if (i > 0) {
+            while (index < next.length && next[index] !== null) index++;
+        }
+        if (index < maxLength) next[index] = file;
+        index++;
+    });
+    return next;
+};
+
+/** Index of the first empty slot, or the slot just past the end when all are filled. */
+export const getFirstEmptySlot = (images: (File | null)[]): number => {
+    const index = images.indexOf(null);
+    return index === -1 ? images.length : index;
+};
+
+/** Pads batch images to whole groups for the schema, with at least one empty group. */
+export const fitImagesToGroups = (images: (File | null)[], schema: StyleInputSchema): (File | null)[] => {
+    const size = getGroupSize(schema);
+    if (!images.some(img => img !== null)) {
+        return Array.from({ length: size }, () => null);
+    }
+    const next = [...images];
+    while (next.length % size !== 0) next.push(null);
+    return next;
+};
+
+export interface ImageGroup {
+    groupIndex: number;
+    images: File[];
+}
+
+/** Splits batch images into one task per group whose required slots are all filled. */
+export const groupImages = (images: (File | null)[], schema: StyleInputSchema): ImageGroup[] => {
+    const size = getGroupSize(schema);
+    const groups: ImageGroup[] = [];
+    for (let groupIndex = 0; groupIndex * size < images.length; groupIndex++) {
+        const slice = images.slice(groupIndex * size, groupIndex * size + size);
+        const files = slice.filter((img): img is File => img !== null);
+        if (files.length > 0 && getMissingSlots(slice, schema).length === 0) {
+            groups.push({ groupIndex, images: files });
+        }
+    }
+    return groups;
+};
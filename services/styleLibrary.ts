@@ -0,0 +1,58 @@
+import { Style } from '../types';
+import { STYLES } from '../constants';
+
+// --- User-defined style library (persisted in localStorage) ---
+
+const STORAGE_KEY = 'customStyles';
+
+const isStyle = (value: unknown): value is Style => {
+    const candidate = value as Style | null;
+    return !!candidate &&
+        typeof candidate.id === 'string' &&
+        typeof candidate.name === 'string' &&
+        typeof candidate.prompt === 'string';
+};
+
+export const loadCustomStyles = (): Style[] => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return [];
+        const parsed = JSON.parse(raw);
+        return Array.isArray(parsed)
+            ? parsed.filter(isStyle).map(style => ({ ...style, isCustom: true }))
+            : [];
+    } catch (error) {
+        console.error("Failed to read custom styles:", error);
+        return [];
+    }
+};
+
+export const saveCustomStyles = (styles: Style[]): void => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(styles));
+};
+
+/** Built-in styles first, followed by the user's own in their saved order. */
+export const mergeStyles = (customStyles: Style[]): Style[] => {
+    return [...STYLES, ...customStyles];
+};
+
+export const slugify = (name: string): string => {
+    return name
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/đ/g, 'd')
+        .replace(/Đ/g, 'D')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '') || 'style';
+};
+
+/** Creates an id from the style name that does not clash with any existing style. */
+export const createStyleId = (name: string, existing: Style[]): string => {
+    const base = `custom-${slugify(name)}`;
+    const taken = new Set(existing.map(style => style.id));
+    if (!taken.has(base)) return base;
+    let suffix = 2;
+    while (taken.has(`${base}-${suffix}`)) suffix++;
+    return `${base}-${suffix}`;
+};
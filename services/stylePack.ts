@@ -0,0 +1,267 @@
+import { Style, StylePack, StylePackEntry, StylePackMetadata } from '../types';
+import { createStyleId } from './styleLibrary';
+
+// --- Style pack import/export ---
+//
+// A style pack is a versioned JSON document so recipes can be shared as a file
+// or pasted as text. Readers accept any formatVersion up to the current one.
+
+export const STYLE_PACK_FORMAT = 'tao-anh-trend/style-pack';
+export const STYLE_PACK_VERSION = 1;
+
+const MAX_THUMBNAIL_LENGTH = 200_000;
+
+export class StylePackError extends Error {
+    constructor(public issues: string[]) {
+        super(`Style pack không hợp lệ:\n- ${issues.join('\n- ')}`);
+        this.name = 'StylePackError';
+    }
+}
+
+const toEntry = ({ isCustom, ...entry }: Style): StylePackEntry => entry;
+
+export const createStylePack = (styles: Style[], metadata: StylePackMetadata): StylePack => ({
+    format: STYLE_PACK_FORMAT,
+    formatVersion: STYLE_PACK_VERSION,
+    exportedAt: new Date().toISOString(),
+    metadata,
+    styles: styles.map(toEntry),
+});
+
+export const serializeStylePack = (pack: StylePack): string => JSON.stringify(pack, null, 2);
+
+export const downloadStylePack = (pack: StylePack) => {
+    const blob = new Blob([serializeStylePack(pack)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const safeName = pack.metadata.name.trim().replace(/[^\p{L}\p{N}-]+/gu, '-').replace(/^-+|-+$/g, '') || 'style-pack';
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${safeName}-v${pack.metadata.version}.stylepack.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+// --- Validation ---
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const checkOptionalString = (issues: string[], value: unknown, path: string) => {
+    if (value !== undefined && typeof value !== 'string') {
+        issues.push(`${path} phải là chuỗi.`);
+    }
+};
+
+const checkThumbnail = (issues: string[], value: unknown, path: string) => {
+    checkOptionalString(issues, value, path);
+    if (typeof value === 'string' && value) {
+        if (!value.startsWith('data:image/')) issues.push(`${path} phải là ảnh dạng data URL.`);
+        if (value.length > MAX_THUMBNAIL_LENGTH) issues.push(`${path} quá lớn.`);
+    }
+};
+
+const checkInputs = (issues: string[], value: unknown, path: string) => {
+    if (!isPlainObject(value) || !Array.isArray(value.slots)) {
+        issues.push(`${path}.slots phải là một mảng.`);
+        return;
+    }
+    value.slots.forEach((slot: unknown, index: number) => {
+        if (!isPlainObject(slot) || typeof slot.label !== 'string' || !slot.label.trim()) {
+            issues.push(`${path}.slots[${index}].label là bắt buộc.`);
+        } else if (slot.required !== undefined && typeof slot.required !== 'boolean') {
+            issues.push(`${path}.slots[${index}].required phải là true hoặc false.`);
+        }
+    });
+    if (value.allowExtra !== undefined && typeof value.allowExtra !== 'boolean') {
+        issues.push(`${path}.allowExtra phải là true hoặc false.`);
+    }
+};
+
+const VARIABLE_TYPES = ['select', 'text', 'number'];
+
+const checkVariables = (issues: string[], value: unknown, path: string) => {
+    if (!Array.isArray(value)) {
+        issues.push(`${path} phải là một mảng.`);
+        return;
+    }
+    value.forEach((variable: unknown, index: number) => {
+        const itemPath = `${path}[${index}]`;
+        if (!isPlainObject(variable)) {
+            issues.push(`${itemPath} không phải là đối tượng.`);
+            return;
+        }
+        if (typeof variable.name !== 'string' || !/^[a-zA-Z][\w-]*$/.test(variable.name)) {
+            issues.push(`${itemPath}.name chỉ được gồm chữ, số, "_" hoặc "-".`);
+        }
+        if (typeof variable.label !== 'string' || !variable.label.trim()) issues.push(`${itemPath}.label là bắt buộc.`);
+        if (typeof variable.type !== 'string' || !VARIABLE_TYPES.includes(variable.type)) {
+            issues.push(`${itemPath}.type phải là một trong: ${VARIABLE_TYPES.join(', ')}.`);
+        }
+        if (typeof variable.default !== 'string') issues.push(`${itemPath}.default phải là chuỗi.`);
+        if (variable.options !== undefined) {
+            const options = variable.options;
+            if (!Array.isArray(options) || !options.every(o => isPlainObject(o) && typeof o.value === 'string' && typeof o.label === 'string')) {
+                issues.push(`${itemPath}.options phải là danh sách { value, label }.`);
+            } else if (typeof variable.default === 'string' && !options.some(o => o.value === variable.default)) {
+                issues.push(`${itemPath}.default phải nằm trong options.`);
+            }
+        } else if (variable.type === 'select') {
+            issues.push(`${itemPath}.options là bắt buộc với kiểu select.`);
+        }
+        if (variable.min !== undefined && typeof variable.min !== 'number') issues.push(`${itemPath}.min phải là số.`);
+        if (variable.max !== undefined && typeof variable.max !== 'number') issues.push(`${itemPath}.max phải là số.`);
+    });
+};
+
+/** Checks an unknown value against the style pack schema and returns every problem found. */
+export const validateStylePack = (value: unknown): string[] => {
+    const issues: string[] = [];
+    if (!isPlainObject(value)) {
+        return ['Nội dung không phải là một đối tượng JSON.'];
+    }
+
+    if (value.format !== STYLE_PACK_FORMAT) {
+        issues.push(`Trường "format" phải là "${STYLE_PACK_FORMAT}".`);
+    }
+    if (typeof value.formatVersion !== 'number' || !Number.isInteger(value.formatVersion) || value.formatVersion < 1) {
+        issues.push('Trường "formatVersion" phải là số nguyên dương.');
+    } else if (value.formatVersion > STYLE_PACK_VERSION) {
+        issues.push(`Style pack dùng phiên bản ${value.formatVersion}, mới hơn phiên bản ứng dụng hỗ trợ (${STYLE_PACK_VERSION}). Hãy cập nhật ứng dụng.`);
+    }
+
+    const metadata = value.metadata;
+    if (!isPlainObject(metadata)) {
+        issues.push('Thiếu trường "metadata".');
+    } else {
+        if (typeof metadata.name !== 'string' || !metadata.name.trim()) issues.push('metadata.name là bắt buộc.');
+        if (typeof metadata.version !== 'string' || !metadata.version.trim()) issues.push('metadata.version là bắt buộc.');
+        checkOptionalString(issues, metadata.author, 'metadata.author');
+        checkOptionalString(issues, metadata.description, 'metadata.description');
+        checkThumbnail(issues, metadata.thumbnail, 'metadata.thumbnail');
+    }
+
+    if (!Array.isArray(value.styles)) {
+        issues.push('Trường "styles" phải là một mảng.');
+        return issues;
+    }
+    if (value.styles.length === 0) {
+        issues.push('Style pack không chứa style nào.');
+    }
+
+    const seenIds = new Set<string>();
+    value.styles.forEach((style: unknown, index: number) => {
+        const path = `styles[${index}]`;
+        if (!isPlainObject(style)) {
+            issues.push(`${path} không phải là đối tượng.`);
+            return;
+        }
+        if (typeof style.id !== 'string' || !style.id.trim()) {
+            issues.push(`${path}.id là bắt buộc.`);
+        } else if (seenIds.has(style.id)) {
+            issues.push(`${path}.id "${style.id}" bị trùng trong cùng style pack.`);
+        } else {
+            seenIds.add(style.id);
+        }
+        if (typeof style.name !== 'string' || !style.name.trim()) issues.push(`${path}.name là bắt buộc.`);
+        if (typeof style.prompt !== 'string' || !style.prompt.trim()) issues.push(`${path}.prompt là bắt buộc.`);
+        checkOptionalString(issues, style.description, `${path}.description`);
+        checkThumbnail(issues, style.thumbnail, `${path}.thumbnail`);
+        if (style.requiredImages !== undefined &&
+            (typeof style.requiredImages !== 'number' || !Number.isInteger(style.requiredImages) || style.requiredImages < 0)) {
+            issues.push(`${path}.requiredImages phải là số nguyên không âm.`);
+        }
+        if (style.inputs !== undefined) {
+            checkInputs(issues, style.inputs, `${path}.inputs`);
+        }
+        if (style.variables !== undefined) {
+            checkVariables(issues, style.variables, `${path}.variables`);
+        }
+    });
+
+    return issues;
+};
+
+/** Parses and validates style pack JSON text, throwing a StylePackError on failure. */
+export const parseStylePack = (text: string): StylePack => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text.trim());
+    } catch {
+        throw new StylePackError(['Nội dung không phải JSON hợp lệ.']);
+    }
+    const issues = validateStylePack(parsed);
+    if (issues.length > 0) {
+        throw new StylePackError(issues);
+    }
+    const pack = parsed as StylePack;
+    // Keep only known fields so unexpected data never reaches the style library.
+    return {
+        ...pack,
+        styles: pack.styles.map(({ id, name, prompt, description, thumbnail, requiredImages, inputs, variables }) => ({
+            id, name, prompt, description, thumbnail, requiredImages,
+            inputs: inputs && {
+                slots: inputs.slots.map(({ label, required }) => ({ label, required })),
+                allowExtra: inputs.allowExtra,
+            },
+            variables: variables?.map(({ name, label, type, default: defaultValue, options, min, max }) => ({
+                name, label, type, default: defaultValue, min, max,
+                options: options?.map(({ value, label }) => ({ value, label })),
+            })),
+        })),
+    };
+};
+
+// --- Collision handling ---
+
+export type CollisionResolution = 'rename' | 'overwrite' | 'skip';
+
+export interface ImportCandidate {
+    entry: StylePackEntry;
+    /** 'builtin' collisions can only be renamed or skipped. */
+    collision: 'none' | 'custom' | 'builtin';
+}
+
+export const detectCollisions = (pack: StylePack, builtInStyles: Style[], customStyles: Style[]): ImportCandidate[] => {
+    const builtInIds = new Set(builtInStyles.map(style => style.id));
+    const customIds = new Set(customStyles.map(style => style.id));
+    return pack.styles.map(entry => ({
+        entry,
+        collision: builtInIds.has(entry.id) ? 'builtin' : customIds.has(entry.id) ? 'custom' : 'none',
+    }));
+};
+
+/** Returns the new custom style list after applying the chosen resolution for each candidate. */
+export const applyStylePackImport = (
+    candidates: ImportCandidate[],
+    resolutions: Record<string, CollisionResolution>,
+    builtInStyles: Style[],
+    customStyles: Style[]
+): { styles: Style[]; imported: number; skipped: number } => {
+    let next = [...customStyles];
+    let imported = 0;
+    let skipped = 0;
+
+    candidates.forEach(({ entry, collision }, index) => {
+        const resolution = collision === 'none' ? 'rename' : resolutions[entry.id] ?? 'rename';
+        if (resolution === 'skip') {
+            skipped++;
+            return;
+        }
+        if (resolution === 'overwrite' && collision === 'custom') {
+            next = next.map(style => style.id === entry.id ? { ...entry, isCustom: true } : style);
+        } else if (collision === 'none') {
+            next.push({ ...entry, isCustom: true });
+        } else {
+            const name = `${entry.name} (nhập)`;
+            // The new id must not clash with styles added so far or with pack entries still to come.
+            const upcoming = candidates.slice(index + 1).map(candidate => candidate.entry);
+            next.push({ ...entry, id: createStyleId(entry.name, [...builtInStyles, ...next, ...upcoming]), name, isCustom: true });
+        }
+        imported++;
+    });
+
+    return { styles: next, imported, skipped };
+};
@@ -0,0 +1,302 @@
+// --- Local usage and cost tracking ---
+//
+// Every request geminiService sends is recorded here, in this browser only,
+// as per-day totals per model and operation. Costs are estimates from a
+// user-editable price table, not Google's billing.
+
+export type UsageOperation = 'generate' | 'enhance' | 'edit-region' | 'refine' | 'text-to-image' | 'variations';
+
+export const USAGE_OPERATION_LABELS: Record<UsageOperation, string> = {
+    generate: 'Tạo ảnh',
+    enhance: 'Nâng cấp ảnh',
+    'edit-region': 'Sửa vùng chọn',
+    refine: 'Chỉnh sửa tiếp',
+    'text-to-image': 'Tạo ảnh từ văn bản',
+    variations: 'Biến thể prompt',
+};
+
+export interface UsageRecord {
+    timestamp: number;
+    model: string;
+    operation: UsageOperation;
+    success: boolean;
+    latencyMs: number;
+    /** From `usageMetadata`; 0 when the response has none (e.g. Imagen). */
+    inputTokens: number;
+    outputTokens: number;
+    /** Images returned by the request. */
+    images: number;
+}
+
+/** All requests of one model and operation on one day, summed. This is what gets stored. */
+export interface UsageAggregate {
+    /** Local calendar day, "YYYY-MM-DD". */
+    day: string;
+    model: string;
+    operation: UsageOperation;
+    requests: number;
+    failures: number;
+    inputTokens: number;
+    outputTokens: number;
+    images: number;
+    latencyMs: number;
+}
+
+/** USD prices for one model. Token prices are per million tokens. */
+export interface ModelPrice {
+    inputPerMillion: number;
+    outputPerMillion: number;
+    perImage: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+/** A limit of null means no cap of that kind. */
+export interface DailyCap {
+    maxRequests: number | null;
+    /** Estimated USD per day. */
+    maxCost: number | null;
+}
+
+/** One key per day, so recording a request only rewrites today's few rows. */
+const DAY_KEY_PREFIX = 'usage:';
+const PRICES_STORAGE_KEY = 'usagePrices';
+const CAP_STORAGE_KEY = 'usageDailyCap';
+
+/** Days older than this are dropped. */
+const RETENTION_DAYS = 90;
+
+/**
+ * Published list prices when this table was written. Gemini image output is
+ * billed as tokens (about 1290 per image), Imagen per image.
+ */
+export const DEFAULT_PRICES: PriceTable = {
+    'gemini-2.5-flash-image-preview': { inputPerMillion: 0.3, outputPerMillion: 30, perImage: 0 },
+    'imagen-4.0-generate-001': { inputPerMillion: 0, outputPerMillion: 0, perImage: 0.04 },
+    'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5, perImage: 0 },
+};
+
+export const DEFAULT_DAILY_CAP: DailyCap = { maxRequests: null, maxCost: null };
+
+// --- Log ---
+
+const listeners = new Set<() => void>();
+
+const notifyListeners = () => listeners.forEach(listener => listener());
+
+/** Local calendar day, "YYYY-MM-DD". */
+export const getDayKey = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const loadDay = (day: string): UsageAggregate[] => {
+    try {
+        const parsed = JSON.parse(localStorage.getItem(DAY_KEY_PREFIX + day) ?? '[]');
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        return [];
+    }
+};
+
+const getStoredDays = (): string[] => {
+    const days: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key?.startsWith(DAY_KEY_PREFIX)) days.push(key.slice(DAY_KEY_PREFIX.length));
+    }
+    return days.sort();
+};
+
+const pruneOldDays = (now: number) => {
+    const cutoff = getDayKey(now - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    getStoredDays().filter(day => day < cutoff).forEach(day => localStorage.removeItem(DAY_KEY_PREFIX + day));
+};
+
+/**
+ * Adds one request to its day's totals. The day is re-read from storage right
+ * before writing, so requests recorded by other open tabs are kept.
+ */
+export const recordUsage = (record: UsageRecord): void => {
+    const day = getDayKey(record.timestamp);
+    try {
+        const rows = loadDay(day);
+        let row = rows.find(entry => entry.model === record.model && entry.operation === record.operation);
+        if (!row) {
+            row = { day, model: record.model, operation: record.operation, requests: 0, failures: 0, inputTokens: 0, outputTokens: 0, images: 0, latencyMs: 0 };
+            rows.push(row);
+        }
+        row.requests++;
+        if (!record.success) row.failures++;
+        row.inputTokens += record.inputTokens;
+        row.outputTokens += record.outputTokens;
+        row.images += record.images;
+        row.latencyMs += record.latencyMs;
+        localStorage.setItem(DAY_KEY_PREFIX + day, JSON.stringify(rows));
+        if (rows.length === 1 && row.requests === 1) pruneOldDays(record.timestamp);
+    } catch (error) {
+        console.warn('Could not save usage:', error);
+    }
+    notifyListeners();
+};
+
+/** Every stored day, oldest first. */
+export const loadUsage = (): UsageAggregate[] => {
+    try {
+        return getStoredDays().flatMap(loadDay);
+    } catch {
+        return [];
+    }
+};
+
+export const clearUsage = (): void => {
+    getStoredDays().forEach(day => localStorage.removeItem(DAY_KEY_PREFIX + day));
+    notifyListeners();
+};
+
+/**
+ * Called after every recorded request, including those of other tabs, and when
+ * the cap changes. Returns an unsubscribe function.
+ */
+export const subscribeUsage = (listener: () => void): (() => void) => {
+    const handleStorage = (event: StorageEvent) => {
+        if (event.key === null || event.key.startsWith(DAY_KEY_PREFIX) || event.key === CAP_STORAGE_KEY) listener();
+    };
+    listeners.add(listener);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+        listeners.delete(listener);
+        window.removeEventListener('storage', handleStorage);
+    };
+};
+
+// --- Settings ---
+
+export const loadPriceTable = (): PriceTable => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(PRICES_STORAGE_KEY) ?? '{}') as PriceTable;
+        return { ...DEFAULT_PRICES, ...saved };
+    } catch {
+        return { ...DEFAULT_PRICES };
+    }
+};
+
+export const savePriceTable = (prices: PriceTable): void => {
+    localStorage.setItem(PRICES_STORAGE_KEY, JSON.stringify(prices));
+};
+
+export const loadDailyCap = (): DailyCap => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(CAP_STORAGE_KEY) ?? '{}') as Partial<DailyCap>;
+        return {
+            maxRequests: typeof saved.maxRequests === 'number' && saved.maxRequests > 0 ? saved.maxRequests : null,
+            maxCost: typeof saved.maxCost === 'number' && saved.maxCost > 0 ? saved.maxCost : null,
+        };
+    } catch {
+        return { ...DEFAULT_DAILY_CAP };
+    }
+};
+
+export const saveDailyCap = (cap: DailyCap): void => {
+    localStorage.setItem(CAP_STORAGE_KEY, JSON.stringify(cap));
+    notifyListeners();
+};
+
+// --- Totals ---
+
+/** Costs are linear in the counts, so this works for one request or a day's totals alike. */
+export const estimateCost = (usage: Pick<UsageAggregate, 'model' | 'inputTokens' | 'outputTokens' | 'images'>, prices: PriceTable): number => {
+    const price = prices[usage.model];
+    if (!price) return 0;
+    return (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000
+        + usage.images * price.perImage;
+};
+
+export interface UsageTotals {
+    requests: number;
+    failures: number;
+    inputTokens: number;
+    outputTokens: number;
+    images: number;
+    cost: number;
+    /** Average over all requests, in milliseconds. */
+    averageLatencyMs: number;
+}
+
+const emptyTotals = (): UsageTotals => ({ requests: 0, failures: 0, inputTokens: 0, outputTokens: 0, images: 0, cost: 0, averageLatencyMs: 0 });
+
+export const summarizeUsage = (rows: UsageAggregate[], prices: PriceTable): UsageTotals => {
+    const totals = emptyTotals();
+    let latency = 0;
+    rows.forEach(row => {
+        totals.requests += row.requests;
+        totals.failures += row.failures;
+        totals.inputTokens += row.inputTokens;
+        totals.outputTokens += row.outputTokens;
+        totals.images += row.images;
+        totals.cost += estimateCost(row, prices);
+        latency += row.latencyMs;
+    });
+    totals.averageLatencyMs = totals.requests > 0 ? latency / totals.requests : 0;
+    return totals;
+};
+
+/** Totals grouped by `getKey`, in the order each group first appears. */
+export const groupUsage = (rows: UsageAggregate[], prices: PriceTable, getKey: (row: UsageAggregate) => string): [string, UsageTotals][] => {
+    const groups = new Map<string, UsageAggregate[]>();
+    rows.forEach(row => {
+        const key = getKey(row);
+        groups.set(key, [...(groups.get(key) ?? []), row]);
+    });
+    return [...groups].map(([key, group]) => [key, summarizeUsage(group, prices)]);
+};
+
+export const getTodayUsage = (now = Date.now()): UsageTotals => {
+    return summarizeUsage(loadDay(getDayKey(now)), loadPriceTable());
+};
+
+// --- Reservations ---
+
+/** What a request is expected to use, before its response reports the real numbers. */
+export type UsageEstimate = Pick<UsageRecord, 'model' | 'inputTokens' | 'outputTokens' | 'images'>;
+
+/** Requests sent from this tab that aren't recorded yet. */
+const reservations = new Map<number, UsageEstimate>();
+let nextReservationId = 1;
+
+/**
+ * Returns a message describing the exceeded limit, or null when today's usage,
+ * the requests still in flight and `incoming` together stay within the cap.
+ */
+export const getDailyCapViolation = (incoming: UsageEstimate, cap = loadDailyCap(), now = Date.now()): string | null => {
+    if (cap.maxRequests === null && cap.maxCost === null) return null;
+    const prices = loadPriceTable();
+    const today = getTodayUsage(now);
+    const pending = [...reservations.values()];
+    const pendingCost = pending.reduce((sum, estimate) => sum + estimateCost(estimate, prices), 0);
+    const inFlight = pending.length > 0 ? ` (+${pending.length} in flight)` : '';
+    if (cap.maxRequests !== null && today.requests + pending.length + 1 > cap.maxRequests) {
+        return `${today.requests}/${cap.maxRequests} requests today${inFlight}`;
+    }
+    if (cap.maxCost !== null && today.cost + pendingCost + estimateCost(incoming, prices) > cap.maxCost) {
+        return `$${today.cost.toFixed(2)}/$${cap.maxCost.toFixed(2)} today${inFlight}`;
+    }
+    return null;
+};
+
+/**
+ * Counts `estimate` against the cap until releaseUsage, so parallel requests
+ * can't all pass getDailyCapViolation before any of them is recorded.
+ * Returns the id to release once the request is recorded or abandoned.
+ */
+export const reserveUsage = (estimate: UsageEstimate): number => {
+    const id = nextReservationId++;
+    reservations.set(id, estimate);
+    return id;
+};
+
+export const releaseUsage = (id: number): void => {
+    reservations.delete(id);
+};
+
+export const formatCost = (usd: number): string => `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`;
@@ -3,4 +3,107 @@ export interface Style {
   id: string;
   name: string;
   prompt: string;
+  /** True for styles created by the user rather than bundled with the app. */
+  isCustom?: boolean;
+  description?: string;
+  /** Small preview image as a data URL. */
+  thumbnail?: string;
+  /** Number of reference photos the prompt expects. Used when `inputs` is not declared. */
+  requiredImages?: number;
+  /** Upload slots the style expects; omitted styles take one or more generic photos. */
+  inputs?: StyleInputSchema;
+  /** Values for the `{{name}}` placeholders used in `prompt`. */
+  variables?: PromptVariable[];
+}
+
+export interface PromptVariableOption {
+  /** Text inserted into the prompt. */
+  value: string;
+  /** Vietnamese label shown in the form. */
+  label: string;
+}
+
+export interface PromptVariable {
+  name: string;
+  label: string;
+  /** 'select' is limited to `options`; 'number' is clamped to min/max. */
+  type: 'select' | 'text' | 'number';
+  default: string;
+  options?: PromptVariableOption[];
+  min?: number;
+  max?: number;
+}
+
+export type PromptVariableValues = Record<string, string>;
+
+/** Runs one variable across several values, producing one prompt per value. */
+export interface PromptSweep {
+  name: string;
+  values: string[];
+}
+
+export interface StyleInputSlot {
+  label: string;
+  /** Slots are required unless explicitly marked otherwise. */
+  required?: boolean;
+}
+
+export interface StyleInputSchema {
+  /** One set of photos for a single generation, e.g. "Người A" and "Người B". */
+  slots: StyleInputSlot[];
+  /** Whether extra generic photos may be added after the declared slots (single and stress modes). */
+  allowExtra?: boolean;
+}
+
+export type StylePackEntry = Omit<Style, 'isCustom'>;
+
+export interface StylePackMetadata {
+  name: string;
+  author?: string;
+  version: string;
+  description?: string;
+  thumbnail?: string;
+}
+
+/** Shareable JSON file containing a set of styles. */
+export interface StylePack {
+  format: 'tao-anh-trend/style-pack';
+  formatVersion: number;
+  exportedAt: string;
+  metadata: StylePackMetadata;
+  styles: StylePackEntry[];
+}
+
+export type ImagenAspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+
+export type GenerationMode = 'single' | 'batch' | 'stressTest' | 'textToImage';
+
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;
+  mode: GenerationMode;
+  styleId: string | null;
+  styleName?: string;
+  prompt: string;
+  model: string;
+  /** Full-resolution output image. */
+  image: Blob;
+  /** Small JPEG data URLs of the reference photos used as input. */
+  inputThumbnails: string[];
+  /** Enhancement passes applied on top of the original output, e.g. ['HD'] or ['4K', '4K']. */
+  enhancements: string[];
+}
+
+/** Generation settings embedded in downloaded images so they can be restored later. */
+export interface GenerationMetadata {
+  app: 'tao-anh-trend';
+  version: number;
+  mode: GenerationMode;
+  styleId: string | null;
+  styleName?: string;
+  prompt: string;
+  model: string;
+  enhancements: string[];
+  /** ISO 8601 timestamp. */
+  createdAt: string;
 }
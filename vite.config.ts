@@ -1,18 +1,21 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { geminiDevProxy } from './server/viteDevProxy';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
-        host: '0.0.0.0',
+        // The dev proxy spends GEMINI_API_KEY for anyone who can reach it, so
+        // only listen on this machine unless DEV_HOST (e.g. 0.0.0.0) opts in.
+        host: env.DEV_HOST || 'localhost',
       },
-      plugins: [react()],
+      plugins: [react(), geminiDevProxy({ GEMINI_API_KEY: env.GEMINI_API_KEY, PROXY_RATE_LIMIT: env.PROXY_RATE_LIMIT })],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // The API key itself stays server-side (see server/geminiProxy.ts); only the switch is bundled.
+        'process.env.USE_GEMINI_PROXY': JSON.stringify(env.USE_GEMINI_PROXY ?? '')
       },
       resolve: {
         alias: {